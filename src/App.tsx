@@ -15,6 +15,7 @@ import { EntryLoader } from "./app/components/EntryLoader";
 import { Landing } from "./app/pages/Landing";
 import { NewMeeting } from "./app/pages/NewMeeting";
 import { HistoryPage } from "./app/pages/HistoryPage";
+import { TasksPage } from "./app/pages/TasksPage";
 import { SettingsPage } from "./app/pages/SettingsPage";
 
 const LOADER_SEEN_KEY = "speechi.loaderSeen";
@@ -44,6 +45,7 @@ export default function App() {
           <AppShell>
             {path === "/app" ? <NewMeeting /> : null}
             {path === "/app/history" ? <HistoryPage /> : null}
+            {path === "/app/tasks" ? <TasksPage /> : null}
             {path === "/app/settings" ? <SettingsPage /> : null}
           </AppShell>
         )}
@@ -0,0 +1,344 @@
+/**
+ * Edit mode for the results tabs: summary, transcripts, decisions and
+ * action items. Each editor works on an AnalysisDraft slice; the page owns
+ * the draft and decides where saved edits go.
+ */
+
+import {
+  HiArrowDown,
+  HiArrowUp,
+  HiCheck,
+  HiCheckCircle,
+  HiClipboardDocumentList,
+  HiPencilSquare,
+  HiPlus,
+  HiXMark,
+} from "react-icons/hi2";
+import type { TranscriptSegment } from "../lib/api";
+import type { I18nStrings } from "../lib/i18n";
+import type { AnalysisDraft } from "../lib/analysisDraft";
+import { speakerName, type SpeakerMap } from "../lib/speakers";
+import { formatTimestamp } from "../lib/format";
+
+type EditorStrings = Pick<
+  I18nStrings,
+  | "editAnalysis"
+  | "saveEdits"
+  | "cancel"
+  | "edited"
+  | "editingHint"
+  | "decisions"
+  | "actionItems"
+  | "addDecision"
+  | "addActionItem"
+  | "moveUp"
+  | "moveDown"
+  | "removeItem"
+  | "exportOwner"
+  | "ownerUnassigned"
+>;
+
+const INPUT_CLASSES =
+  "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-800 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100";
+
+function move<T>(list: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= list.length) return list;
+  const next = list.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item!);
+  return next;
+}
+
+// Toolbar above the tabs: Edit, or Save / Cancel while editing
+export function EditToolbar({
+  editing,
+  edited,
+  saving,
+  disabled,
+  onEdit,
+  onSave,
+  onCancel,
+  t,
+}: {
+  editing: boolean;
+  edited: boolean;
+  saving?: boolean;
+  disabled?: boolean;
+  onEdit: () => void;
+  onSave: () => void;
+  onCancel: () => void;
+  t: EditorStrings;
+}) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <div className="flex items-center gap-2">
+        {edited && (
+          <span className="inline-flex items-center gap-1 rounded-lg bg-amber-100 px-2.5 py-1 text-xs font-medium text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+            <HiPencilSquare className="h-3.5 w-3.5" />
+            {t.edited}
+          </span>
+        )}
+        {editing && <p className="text-sm text-zinc-500 dark:text-zinc-400">{t.editingHint}</p>}
+      </div>
+      {editing ? (
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={saving}
+            className="cursor-pointer rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:bg-zinc-700"
+          >
+            {t.cancel}
+          </button>
+          <button
+            type="button"
+            onClick={onSave}
+            disabled={saving}
+            className="inline-flex cursor-pointer items-center gap-2 rounded-xl bg-linear-to-r from-indigo-500 to-violet-500 px-4 py-2 text-sm font-medium text-white shadow-md shadow-indigo-500/25 transition-all duration-200 hover:shadow-lg disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <HiCheck className="h-4 w-4" />
+            {t.saveEdits}
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={onEdit}
+          disabled={disabled}
+          className="inline-flex cursor-pointer items-center gap-2 rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-all duration-200 hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-600 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:border-indigo-600 dark:hover:bg-indigo-950/30 dark:hover:text-indigo-400"
+        >
+          <HiPencilSquare className="h-4 w-4" />
+          {t.editAnalysis}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function SummaryEditor({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <textarea
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      rows={10}
+      className={`${INPUT_CLASSES} resize-y text-base leading-relaxed`}
+    />
+  );
+}
+
+/**
+ * Flat transcript textarea, or one field per timed segment when segments exist.
+ */
+export function TranscriptEditor({
+  text,
+  segments,
+  onChange,
+  speakerMap,
+}: {
+  text: string;
+  segments?: TranscriptSegment[];
+  onChange: (patch: { text?: string; segments?: TranscriptSegment[] }) => void;
+  speakerMap?: SpeakerMap;
+}) {
+  if (!segments?.length) {
+    return (
+      <textarea
+        value={text}
+        onChange={(e) => onChange({ text: e.target.value })}
+        rows={16}
+        className={`${INPUT_CLASSES} resize-y leading-relaxed`}
+      />
+    );
+  }
+
+  return (
+    <ol className="max-h-[500px] space-y-2 overflow-auto rounded-xl border border-zinc-200/60 bg-zinc-50/50 p-3 dark:border-zinc-700/60 dark:bg-zinc-800/50">
+      {segments.map((segment, i) => (
+        <li key={i} className="flex items-start gap-3">
+          <span className="mt-2 w-20 shrink-0 font-mono text-xs text-zinc-500 tabular-nums dark:text-zinc-400">
+            {formatTimestamp(segment.start)}
+            {segment.speaker && (
+              <span className="block truncate font-sans font-semibold text-violet-600 dark:text-violet-400">
+                {speakerName(segment.speaker, speakerMap)}
+              </span>
+            )}
+          </span>
+          <textarea
+            value={segment.text}
+            onChange={(e) =>
+              onChange({ segments: segments.map((s, j) => (j === i ? { ...s, text: e.target.value } : s)) })
+            }
+            rows={2}
+            className={`${INPUT_CLASSES} resize-y`}
+          />
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function RowControls({
+  index,
+  count,
+  onMove,
+  onRemove,
+  t,
+}: {
+  index: number;
+  count: number;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+  t: EditorStrings;
+}) {
+  const buttonClasses =
+    "cursor-pointer rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-100 hover:text-zinc-700 disabled:cursor-not-allowed disabled:opacity-30 dark:hover:bg-zinc-700 dark:hover:text-zinc-200";
+  return (
+    <div className="flex shrink-0 items-center">
+      <button type="button" onClick={() => onMove(index - 1)} disabled={index === 0} className={buttonClasses} aria-label={t.moveUp}>
+        <HiArrowUp className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => onMove(index + 1)}
+        disabled={index === count - 1}
+        className={buttonClasses}
+        aria-label={t.moveDown}
+      >
+        <HiArrowDown className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="cursor-pointer rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-950/30 dark:hover:text-red-400"
+        aria-label={t.removeItem}
+      >
+        <HiXMark className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+function AddButton({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="mt-2 inline-flex cursor-pointer items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium text-indigo-600 transition-colors hover:bg-indigo-50 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+    >
+      <HiPlus className="h-4 w-4" />
+      {label}
+    </button>
+  );
+}
+
+/**
+ * Decisions and action items: edit, add, remove, reorder, reassign owners.
+ */
+export function DecisionsEditor({
+  draft,
+  participants,
+  speakerMap,
+  onChange,
+  t,
+}: {
+  draft: Pick<AnalysisDraft, "decisions" | "actionItems">;
+  participants: string[];
+  speakerMap?: SpeakerMap;
+  onChange: (patch: Partial<Pick<AnalysisDraft, "decisions" | "actionItems">>) => void;
+  t: EditorStrings;
+}) {
+  const { decisions, actionItems } = draft;
+
+  return (
+    <div className="space-y-6">
+      {/* Decisions */}
+      <div>
+        <div className="mb-3 flex items-center gap-2">
+          <HiCheckCircle className="h-5 w-5 text-emerald-500" />
+          <h3 className="font-semibold text-zinc-800 dark:text-zinc-200">{t.decisions}</h3>
+        </div>
+        <ul className="space-y-2">
+          {decisions.map((d, i) => (
+            <li key={i} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={d}
+                onChange={(e) => onChange({ decisions: decisions.map((x, j) => (j === i ? e.target.value : x)) })}
+                className={INPUT_CLASSES}
+              />
+              <RowControls
+                index={i}
+                count={decisions.length}
+                onMove={(to) => onChange({ decisions: move(decisions, i, to) })}
+                onRemove={() => onChange({ decisions: decisions.filter((_, j) => j !== i) })}
+                t={t}
+              />
+            </li>
+          ))}
+        </ul>
+        <AddButton label={t.addDecision} onClick={() => onChange({ decisions: [...decisions, ""] })} />
+      </div>
+
+      {/* Action items */}
+      <div>
+        <div className="mb-3 flex items-center gap-2">
+          <HiClipboardDocumentList className="h-5 w-5 text-violet-500" />
+          <h3 className="font-semibold text-zinc-800 dark:text-zinc-200">{t.actionItems}</h3>
+        </div>
+        <ul className="space-y-3">
+          {actionItems.map((a, i) => {
+            const owner = a.owner ?? "";
+            return (
+              <li
+                key={i}
+                className="flex flex-wrap items-center gap-2 rounded-xl border border-violet-200/60 bg-violet-50/50 p-3 dark:border-violet-800/40 dark:bg-violet-950/20"
+              >
+                <input
+                  type="text"
+                  value={a.description}
+                  onChange={(e) =>
+                    onChange({
+                      actionItems: actionItems.map((x, j) => (j === i ? { ...x, description: e.target.value } : x)),
+                    })
+                  }
+                  className={`${INPUT_CLASSES} min-w-0 flex-1 basis-64`}
+                />
+                <select
+                  value={owner}
+                  onChange={(e) =>
+                    onChange({
+                      actionItems: actionItems.map((x, j) => (j === i ? { ...x, owner: e.target.value || null } : x)),
+                    })
+                  }
+                  aria-label={t.exportOwner}
+                  className={`${INPUT_CLASSES} w-auto cursor-pointer`}
+                >
+                  <option value="">{t.ownerUnassigned}</option>
+                  {participants.map((p) => (
+                    <option key={p} value={p}>
+                      {p}
+                    </option>
+                  ))}
+                  {owner && !participants.includes(owner) && (
+                    <option value={owner}>{speakerName(owner, speakerMap)}</option>
+                  )}
+                </select>
+                <RowControls
+                  index={i}
+                  count={actionItems.length}
+                  onMove={(to) => onChange({ actionItems: move(actionItems, i, to) })}
+                  onRemove={() => onChange({ actionItems: actionItems.filter((_, j) => j !== i) })}
+                  t={t}
+                />
+              </li>
+            );
+          })}
+        </ul>
+        <AddButton
+          label={t.addActionItem}
+          onClick={() => onChange({ actionItems: [...actionItems, { description: "", owner: null }] })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * Files queued for analysis, with per-file status, progress and actions.
+ */
+
+import { useEffect, useRef } from "react";
+import gsap from "gsap";
+import {
+  HiArrowPath,
+  HiCheckCircle,
+  HiClock,
+  HiExclamationCircle,
+  HiLockClosed,
+  HiMusicalNote,
+  HiXMark,
+} from "react-icons/hi2";
+import type { I18nStrings } from "../lib/i18n";
+import type { QueueItem, QueueItemStatus } from "../hooks/useAnalysisQueue";
+
+interface AnalysisQueueProps {
+  items: QueueItem[];
+  /** Daily analysis limit, for the on-hold explanation */
+  limit: number;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onView: (historyId: string) => void;
+  onClearDone: () => void;
+  t: Pick<
+    I18nStrings,
+    | "queueTitle"
+    | "queueProgress"
+    | "queueStatusWaiting"
+    | "queueStatusUploading"
+    | "queueStatusProcessing"
+    | "queueStatusDone"
+    | "queueStatusFailed"
+    | "queueStatusBlocked"
+    | "queueStatusCancelled"
+    | "queueRetry"
+    | "queueRemove"
+    | "queueView"
+    | "queueClearDone"
+    | "queueLimitNote"
+    | "cancelAnalysis"
+  >;
+}
+
+const STATUS_STYLES: Record<QueueItemStatus, string> = {
+  waiting: "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400",
+  uploading: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300",
+  processing: "bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300",
+  done: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  blocked: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  cancelled: "bg-zinc-100 text-zinc-500 dark:bg-zinc-800 dark:text-zinc-500",
+};
+
+function statusLabel(status: QueueItemStatus, t: AnalysisQueueProps["t"]): string {
+  switch (status) {
+    case "waiting":
+      return t.queueStatusWaiting;
+    case "uploading":
+      return t.queueStatusUploading;
+    case "processing":
+      return t.queueStatusProcessing;
+    case "done":
+      return t.queueStatusDone;
+    case "failed":
+      return t.queueStatusFailed;
+    case "blocked":
+      return t.queueStatusBlocked;
+    case "cancelled":
+      return t.queueStatusCancelled;
+  }
+}
+
+function StatusIcon({ status }: { status: QueueItemStatus }) {
+  switch (status) {
+    case "uploading":
+    case "processing":
+      return <span className="h-4 w-4 shrink-0 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />;
+    case "done":
+      return <HiCheckCircle className="h-4 w-4 shrink-0 text-emerald-500" />;
+    case "failed":
+      return <HiExclamationCircle className="h-4 w-4 shrink-0 text-red-500" />;
+    case "blocked":
+      return <HiLockClosed className="h-4 w-4 shrink-0 text-amber-500" />;
+    case "waiting":
+      return <HiClock className="h-4 w-4 shrink-0 text-zinc-400" />;
+    default:
+      return <HiMusicalNote className="h-4 w-4 shrink-0 text-zinc-400" />;
+  }
+}
+
+const actionClass =
+  "inline-flex cursor-pointer items-center gap-1 rounded-lg px-2.5 py-1 text-xs font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-400";
+
+export function AnalysisQueue({ items, limit, onRetry, onCancel, onRemove, onView, onClearDone, t }: AnalysisQueueProps) {
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Animate newly added files in
+  useEffect(() => {
+    const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    const rows = listRef.current?.querySelectorAll("[data-queue-item]:not([data-shown])");
+    if (!rows?.length) return;
+    rows.forEach((row) => row.setAttribute("data-shown", ""));
+    if (prefersReducedMotion) return;
+    gsap.fromTo(rows, { opacity: 0, y: 8 }, { opacity: 1, y: 0, duration: 0.3, ease: "power2.out", stagger: 0.05 });
+  }, [items.length]);
+
+  const done = items.filter((item) => item.status === "done").length;
+  const blocked = items.filter((item) => item.status === "blocked").length;
+
+  return (
+    <div className="mt-4 rounded-2xl border border-zinc-200/60 bg-white/80 p-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-zinc-800 dark:text-zinc-200">
+          {t.queueTitle}
+          <span className="ms-2 text-xs font-normal text-zinc-500 dark:text-zinc-400">
+            {t.queueProgress.replace("{done}", String(done)).replace("{total}", String(items.length))}
+          </span>
+        </h3>
+        {done > 0 && (
+          <button
+            type="button"
+            onClick={onClearDone}
+            className={`${actionClass} text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800`}
+          >
+            {t.queueClearDone}
+          </button>
+        )}
+      </div>
+
+      {blocked > 0 && (
+        <p className="mb-3 flex items-start gap-2 rounded-xl bg-amber-50 p-3 text-sm text-amber-800 dark:bg-amber-950/30 dark:text-amber-300">
+          <HiLockClosed className="mt-0.5 h-4 w-4 shrink-0" />
+          {t.queueLimitNote.replace("{count}", String(blocked)).replace("{limit}", String(limit))}
+        </p>
+      )}
+
+      <ul ref={listRef} className="space-y-2">
+        {items.map((item) => {
+          const active = item.status === "uploading" || item.status === "processing";
+          const canRetry = item.status === "failed" || item.status === "cancelled";
+          return (
+            <li
+              key={item.id}
+              data-queue-item
+              className="rounded-xl border border-zinc-200/60 bg-zinc-50/50 px-3 py-2.5 dark:border-zinc-700/60 dark:bg-zinc-800/30"
+            >
+              <div className="flex flex-wrap items-center gap-3">
+                <StatusIcon status={item.status} />
+                <span className="min-w-0 flex-1 truncate text-sm font-medium text-zinc-700 dark:text-zinc-300" title={item.file.name}>
+                  {item.file.name}
+                </span>
+                <span className={`rounded-md px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                  {statusLabel(item.status, t)}
+                  {active && item.progress != null && ` ${Math.round(item.progress * 100)}%`}
+                </span>
+                <div className="flex items-center gap-1">
+                  {item.status === "done" && item.historyId && (
+                    <button
+                      type="button"
+                      onClick={() => onView(item.historyId!)}
+                      className={`${actionClass} text-indigo-600 hover:bg-indigo-50 dark:text-indigo-400 dark:hover:bg-indigo-950/40`}
+                    >
+                      {t.queueView}
+                    </button>
+                  )}
+                  {canRetry && (
+                    <button
+                      type="button"
+                      onClick={() => onRetry(item.id)}
+                      className={`${actionClass} text-indigo-600 hover:bg-indigo-50 dark:text-indigo-400 dark:hover:bg-indigo-950/40`}
+                    >
+                      <HiArrowPath className="h-3.5 w-3.5" />
+                      {t.queueRetry}
+                    </button>
+                  )}
+                  {active ? (
+                    <button
+                      type="button"
+                      onClick={() => onCancel(item.id)}
+                      className={`${actionClass} text-zinc-600 hover:bg-red-100 hover:text-red-600 dark:text-zinc-400 dark:hover:bg-red-900/30 dark:hover:text-red-400`}
+                    >
+                      {t.cancelAnalysis}
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => onRemove(item.id)}
+                      className={`${actionClass} text-zinc-500 hover:bg-red-100 hover:text-red-600 dark:text-zinc-400 dark:hover:bg-red-900/30 dark:hover:text-red-400`}
+                      aria-label={`${t.queueRemove}: ${item.file.name}`}
+                      title={t.queueRemove}
+                    >
+                      <HiXMark className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {item.status === "failed" && item.error && (
+                <p className="mt-1.5 text-xs text-red-600 dark:text-red-400">{item.error}</p>
+              )}
+              {active && (
+                <div
+                  className="mt-2 h-1.5 overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-700"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={item.progress != null ? Math.round(item.progress * 100) : undefined}
+                >
+                  <div
+                    className={`h-full rounded-full bg-linear-to-r from-indigo-500 to-violet-500 transition-[width] duration-300 ${item.progress == null ? "animate-pulse" : ""}`}
+                    style={{ width: `${Math.round((item.progress ?? 1) * 100)}%` }}
+                  />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
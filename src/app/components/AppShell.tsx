@@ -8,7 +8,7 @@ import gsap from "gsap";
 import { useNavigate, usePathname } from "../lib/router";
 import { Navbar } from "./Navbar";
 import { useI18n } from "../hooks/useI18n";
-import { HiMicrophone, HiClock, HiCog6Tooth } from "react-icons/hi2";
+import { HiMicrophone, HiClock, HiClipboardDocumentCheck, HiCog6Tooth } from "react-icons/hi2";
 
 interface AppShellProps {
   children: ReactNode;
@@ -24,6 +24,7 @@ export function AppShell({ children }: AppShellProps) {
   const nav = [
     { path: "/app" as const, label: t.newMeeting, icon: HiMicrophone },
     { path: "/app/history" as const, label: t.history, icon: HiClock },
+    { path: "/app/tasks" as const, label: t.tasks, icon: HiClipboardDocumentCheck },
     { path: "/app/settings" as const, label: t.settings, icon: HiCog6Tooth },
   ];
 
@@ -2,22 +2,73 @@
  * AudioRecorder: Browser-based meeting recording using MediaRecorder API.
  * 
  * States:
- * - Idle: Ready to record
- * - Recording: Live recording with timer and pulse indicator
+ * - Idle: Ready to record, with a microphone picker
+ * - Recording: Live recording with timer, pulse indicator and level meter
+ * - Paused: Recording on hold during a break
  * - Stopped: Preview with play, delete, and use options
  * 
+ * Warns when the microphone picks up nothing and before the recording is
+ * stopped automatically at MAX_RECORDING_DURATION_MS.
+ * Records the microphone, or tab/system audio mixed with it for online
+ * meetings (see audioMix.ts), with a level and volume control per source.
+ * Chunks are saved to IndexedDB as they arrive (see recordingStore.ts) until
+ * the recording is used or deleted, so a crash or reload doesn't lose it.
+ * With live transcription on, chunks are also streamed for a rolling
+ * transcript preview under the recorder (see useLiveTranscription).
+ * Bookmarks and notes taken while recording are handed over with the file.
  * Output is treated identically to uploaded files.
  */
 
 import { useState, useRef, useCallback, useEffect } from "react";
 import gsap from "gsap";
-import { HiMicrophone, HiStop, HiTrash, HiPlay, HiPause, HiCheck } from "react-icons/hi2";
-import { RECORDING_MIME_TYPE, RECORDING_FALLBACK_MIME_TYPE } from "../lib/constants";
-
-type RecordingState = "idle" | "recording" | "stopped";
+import { HiMicrophone, HiStop, HiTrash, HiPlay, HiPause, HiCheck, HiExclamationTriangle } from "react-icons/hi2";
+import {
+  MAX_RECORDING_DURATION_MS,
+  NO_AUDIO_WARNING_MS,
+  RECORDING_FALLBACK_MIME_TYPE,
+  RECORDING_LIMIT_WARNING_MS,
+  RECORDING_MIME_TYPE,
+} from "../lib/constants";
+import {
+  getLiveTranscription,
+  getMicrophoneId,
+  getRecordingSource,
+  setLiveTranscription,
+  setMicrophoneId,
+  setRecordingSource,
+  type RecordingSource,
+} from "../lib/storage";
+import {
+  SystemAudioError,
+  captureSystemAudio,
+  createAudioMix,
+  isSystemAudioSupported,
+  type AudioMix,
+  type MixSource,
+} from "../lib/audioMix";
+import {
+  RECORDING_HEARTBEAT_MS,
+  clearRecordingActive,
+  discardRecording,
+  markRecordingActive,
+  newRecordingId,
+  saveRecordingChunk,
+} from "../lib/recordingStore";
+import { useAudioLevel } from "../hooks/useAudioLevel";
+import { useLiveTranscription } from "../hooks/useLiveTranscription";
+import { LiveTranscript } from "./LiveTranscript";
+import { RecordingNotes } from "./RecordingNotes";
+import type { RecordingMarker } from "../lib/markers";
+
+type RecordingState = "idle" | "recording" | "paused" | "stopped";
+
+const MAX_SECONDS = Math.floor(MAX_RECORDING_DURATION_MS / 1000);
+const WARNING_SECONDS = Math.floor(RECORDING_LIMIT_WARNING_MS / 1000);
+const LEVEL_BARS = 12;
 
 interface AudioRecorderProps {
-  onRecordingComplete: (file: File) => void;
+  /** `duration` is the recorded length in seconds */
+  onRecordingComplete: (file: File, markers: RecordingMarker[], duration: number) => void;
   onCancel?: () => void;
   disabled?: boolean;
   t: {
@@ -29,6 +80,40 @@ interface AudioRecorderProps {
     useRecording: string;
     recordingNotSupported: string;
     microphonePermissionDenied: string;
+    pauseRecording: string;
+    resumeRecording: string;
+    recordingPaused: string;
+    microphoneLabel: string;
+    defaultMicrophone: string;
+    microphoneUnavailable: string;
+    inputLevel: string;
+    noAudioDetected: string;
+    noSystemAudioDetected: string;
+    recordingLimitWarning: string;
+    recordingLimitReached: string;
+    recordingBackupFailed: string;
+    recordingSourceLabel: string;
+    recordingSourceMic: string;
+    recordingSourceMix: string;
+    systemAudioHint: string;
+    systemAudioUnsupported: string;
+    systemAudioDenied: string;
+    systemAudioMissing: string;
+    systemAudioEnded: string;
+    micVolume: string;
+    systemVolume: string;
+    liveTranscriptToggle: string;
+    liveTranscriptTitle: string;
+    liveTranscriptListening: string;
+    liveTranscriptFinishing: string;
+    liveTranscriptUnavailable: string;
+    liveTranscriptNote: string;
+    markMoment: string;
+    notePlaceholder: string;
+    addNote: string;
+    markersTitle: string;
+    markerBookmark: string;
+    removeMarker: string;
   };
 }
 
@@ -38,15 +123,110 @@ function formatTime(seconds: number): string {
   return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
 }
 
+// Bars lit in proportion to the input level
+function LevelMeter({ level, label, dimmed }: { level: number; label: string; dimmed?: boolean }) {
+  const lit = Math.round(level * LEVEL_BARS);
+  return (
+    <div
+      className={`mx-auto flex h-6 w-40 items-end justify-center gap-1 ${dimmed ? "opacity-40" : ""}`}
+      role="meter"
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(level * 100)}
+    >
+      {Array.from({ length: LEVEL_BARS }, (_, i) => (
+        <span
+          key={i}
+          className={`w-2 rounded-sm transition-colors duration-75 ${
+            i < lit
+              ? i >= LEVEL_BARS - 2
+                ? "bg-red-500"
+                : i >= LEVEL_BARS - 4
+                ? "bg-amber-500"
+                : "bg-emerald-500"
+              : "bg-zinc-200 dark:bg-zinc-700"
+          }`}
+          style={{ height: `${30 + (i / (LEVEL_BARS - 1)) * 70}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+// One input of a mixed recording: its level and a volume slider (0–200%)
+function SourceControl({
+  label,
+  level,
+  gain,
+  onGain,
+  dimmed,
+}: {
+  label: string;
+  level: number;
+  gain: number;
+  onGain: (gain: number) => void;
+  dimmed?: boolean;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400">{label}</p>
+      <LevelMeter level={level} label={label} dimmed={dimmed} />
+      <input
+        type="range"
+        min={0}
+        max={2}
+        step={0.05}
+        value={gain}
+        onChange={(e) => onGain(Number(e.target.value))}
+        aria-label={label}
+        aria-valuetext={`${Math.round(gain * 100)}%`}
+        className="mx-auto block w-40 cursor-pointer accent-indigo-600"
+      />
+    </div>
+  );
+}
+
 export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: AudioRecorderProps) {
   const [state, setState] = useState<RecordingState>("idle");
   const [duration, setDuration] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(() => getMicrophoneId());
+  const [source, setSource] = useState<RecordingSource>(() => getRecordingSource());
+  const [micStream, setMicStream] = useState<MediaStream | null>(null);
+  const [systemStream, setSystemStream] = useState<MediaStream | null>(null);
+  const [gains, setGains] = useState<Record<MixSource, number>>({ mic: 1, system: 1 });
+  /** The user stopped sharing tab audio mid-recording */
+  const [systemEnded, setSystemEnded] = useState(false);
+  const [liveEnabled, setLiveEnabled] = useState(() => getLiveTranscription());
+  const [markers, setMarkers] = useState<RecordingMarker[]>([]);
+  /** Set when the recording was stopped at the length limit */
+  const [stoppedAtLimit, setStoppedAtLimit] = useState(false);
+  /** Chunks could not be saved; the recording only lives in memory */
+  const [backupFailed, setBackupFailed] = useState(false);
+  const { level, silent } = useAudioLevel(micStream, state === "recording", NO_AUDIO_WARNING_MS);
+  const { level: systemLevel, silent: systemSilent } = useAudioLevel(
+    systemStream,
+    state === "recording" && !systemEnded,
+    NO_AUDIO_WARNING_MS
+  );
+  const {
+    transcript: liveTranscript,
+    status: liveStatus,
+    start: startLive,
+    send: sendLive,
+    finish: finishLive,
+    reset: resetLive,
+  } = useLiveTranscription();
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const mixRef = useRef<AudioMix | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const recordingIdRef = useRef<string | null>(null);
+  const durationRef = useRef(0);
   const timerRef = useRef<number | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const pulseRef = useRef<HTMLDivElement>(null);
@@ -64,13 +244,56 @@ export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: Au
       if (audioUrl) {
         URL.revokeObjectURL(audioUrl);
       }
-      if (mediaRecorderRef.current?.state === "recording") {
+      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
         mediaRecorderRef.current.stop();
       }
     };
   }, [audioUrl]);
 
-  // Pulse animation during recording
+  useEffect(() => {
+    durationRef.current = duration;
+  }, [duration]);
+
+  // Microphones; labels are only filled in once permission was granted
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      setDevices(all.filter((d) => d.kind === "audioinput" && d.deviceId && d.deviceId !== "default"));
+    } catch {
+      setDevices([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    const mediaDevices = navigator.mediaDevices;
+    mediaDevices?.addEventListener?.("devicechange", refreshDevices);
+    return () => mediaDevices?.removeEventListener?.("devicechange", refreshDevices);
+  }, [refreshDevices]);
+
+  const handleDeviceChange = useCallback((id: string) => {
+    setDeviceId(id || null);
+    setMicrophoneId(id || null);
+  }, []);
+
+  const handleSourceChange = useCallback((next: RecordingSource) => {
+    setSource(next);
+    setRecordingSource(next);
+    setError(null);
+  }, []);
+
+  const handleLiveToggle = useCallback((enabled: boolean) => {
+    setLiveEnabled(enabled);
+    setLiveTranscription(enabled);
+  }, []);
+
+  useEffect(() => {
+    mixRef.current?.setGain("mic", gains.mic);
+    mixRef.current?.setGain("system", gains.system);
+  }, [gains]);
+
+  // Pulse animation while recording (not while paused)
   useEffect(() => {
     if (state !== "recording") return;
     
@@ -125,19 +348,99 @@ export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: Au
     }
 
     setError(null);
+    setStoppedAtLimit(false);
+    setBackupFailed(false);
+    setSystemEnded(false);
+    setMarkers([]);
     chunksRef.current = [];
 
+    // Ask for the tab first; without it there's nothing to mix
+    let system: MediaStream | null = null;
+    if (source === "mic+system") {
+      try {
+        system = await captureSystemAudio();
+      } catch (err) {
+        const reason = err instanceof SystemAudioError ? err.reason : "unsupported";
+        setError(
+          reason === "denied" ? t.systemAudioDenied : reason === "noAudio" ? t.systemAudioMissing : t.systemAudioUnsupported
+        );
+        return;
+      }
+    }
+
+    // Released again if starting fails past this point
+    let mic: MediaStream | null = null;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+        });
+      } catch (err) {
+        // The saved microphone was unplugged; fall back to the default one
+        if (!deviceId || !(err instanceof Error) || !["OverconstrainedError", "NotFoundError"].includes(err.name)) {
+          throw err;
+        }
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        handleDeviceChange("");
+        setError(t.microphoneUnavailable);
+      }
+      mic = stream;
+      setMicStream(stream);
+      refreshDevices();
+
+      let recorded = stream;
+      if (system) {
+        const mix = createAudioMix(stream, system);
+        mix.setGain("mic", gains.mic);
+        mix.setGain("system", gains.system);
+        mixRef.current = mix;
+        recorded = mix.stream;
+        setSystemStream(system);
+        system.getAudioTracks()[0]?.addEventListener("ended", () => setSystemEnded(true));
+      }
       const mimeType = getMimeType();
       
       const options: MediaRecorderOptions = mimeType ? { mimeType } : {};
-      const mediaRecorder = new MediaRecorder(stream, options);
+      const mediaRecorder = new MediaRecorder(recorded, options);
       mediaRecorderRef.current = mediaRecorder;
 
+      if (liveEnabled) startLive(mimeType || "audio/webm");
+      else resetLive();
+
+      const recordingId = newRecordingId();
+      recordingIdRef.current = recordingId;
+      const startedAt = new Date().toISOString();
+      let seq = 0;
+      // Writes are chained to keep chunks in order; after a failure later
+      // chunks are not saved, so a recovered file has no gaps
+      let saving: Promise<boolean> = Promise.resolve(true);
+
       mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
           chunksRef.current.push(e.data);
+          sendLive(e.data);
+          const chunk = {
+            recordingId,
+            seq: seq++,
+            blob: e.data,
+            mimeType: mimeType || "audio/webm",
+            startedAt,
+            elapsed: durationRef.current,
+            savedAt: Date.now(),
+            final: mediaRecorder.state === "inactive",
+          };
+          saving = saving.then((ok) =>
+            ok
+              ? saveRecordingChunk(chunk).then(
+                  () => true,
+                  () => {
+                    setBackupFailed(true);
+                    return false;
+                  }
+                )
+              : false
+          );
         }
       };
 
@@ -148,6 +451,11 @@ export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: Au
         
         // Stop all tracks
         stream.getTracks().forEach((track) => track.stop());
+        mixRef.current?.close();
+        mixRef.current = null;
+        setMicStream(null);
+        setSystemStream(null);
+        finishLive();
       };
 
       mediaRecorder.start(1000); // Collect data every second
@@ -159,26 +467,98 @@ export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: Au
         setDuration((d) => d + 1);
       }, 1000);
     } catch (err) {
+      system?.getTracks().forEach((track) => track.stop());
+      mic?.getTracks().forEach((track) => track.stop());
+      mixRef.current?.close();
+      mixRef.current = null;
+      setMicStream(null);
+      setSystemStream(null);
       if (err instanceof Error && err.name === "NotAllowedError") {
         setError(t.microphonePermissionDenied);
       } else {
         setError(t.recordingNotSupported);
       }
     }
-  }, [isSupported, getMimeType, t]);
-
-  const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current?.state === "recording") {
-      mediaRecorderRef.current.stop();
-    }
+  }, [
+    isSupported,
+    getMimeType,
+    deviceId,
+    source,
+    gains,
+    liveEnabled,
+    startLive,
+    sendLive,
+    finishLive,
+    resetLive,
+    handleDeviceChange,
+    refreshDevices,
+    t,
+  ]);
+
+  const stopTimer = useCallback(() => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
+      mediaRecorderRef.current.stop();
+    }
+    stopTimer();
     setState("stopped");
+  }, [stopTimer]);
+
+  const pauseRecording = useCallback(() => {
+    if (mediaRecorderRef.current?.state !== "recording") return;
+    mediaRecorderRef.current.pause();
+    stopTimer();
+    setState("paused");
+  }, [stopTimer]);
+
+  const resumeRecording = useCallback(() => {
+    if (mediaRecorderRef.current?.state !== "paused") return;
+    mediaRecorderRef.current.resume();
+    timerRef.current = window.setInterval(() => {
+      setDuration((d) => d + 1);
+    }, 1000);
+    setState("recording");
+  }, []);
+
+  // Stop at the length limit
+  useEffect(() => {
+    if (state === "recording" && duration >= MAX_SECONDS) {
+      stopRecording();
+      setStoppedAtLimit(true);
+    }
+  }, [state, duration, stopRecording]);
+
+  // Keep other tabs from offering the recording for recovery while it's held here
+  useEffect(() => {
+    const id = recordingIdRef.current;
+    if (state === "idle" || !id) return;
+    markRecordingActive(id);
+    const heartbeat = window.setInterval(() => {
+      if (recordingIdRef.current === id) markRecordingActive(id);
+    }, RECORDING_HEARTBEAT_MS);
+    return () => {
+      window.clearInterval(heartbeat);
+      clearRecordingActive(id);
+    };
+  }, [state]);
+
+  // The recording no longer needs recovering
+  const discardSaved = useCallback(() => {
+    const id = recordingIdRef.current;
+    recordingIdRef.current = null;
+    if (!id) return;
+    clearRecordingActive(id);
+    discardRecording(id).catch(() => {});
   }, []);
 
   const deleteRecording = useCallback(() => {
+    discardSaved();
     if (audioUrl) {
       URL.revokeObjectURL(audioUrl);
     }
@@ -186,8 +566,11 @@ export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: Au
     setDuration(0);
     setState("idle");
     setIsPlaying(false);
+    setStoppedAtLimit(false);
+    setMarkers([]);
+    resetLive();
     onCancel?.();
-  }, [audioUrl, onCancel]);
+  }, [audioUrl, onCancel, discardSaved, resetLive]);
 
   const useRecording = useCallback(() => {
     if (!audioUrl) return;
@@ -201,9 +584,10 @@ export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: Au
       .then((res) => res.blob())
       .then((blob) => {
         const file = new File([blob], filename, { type: mimeType });
-        onRecordingComplete(file);
+        onRecordingComplete(file, markers, duration);
+        discardSaved();
       });
-  }, [audioUrl, getMimeType, onRecordingComplete]);
+  }, [audioUrl, getMimeType, onRecordingComplete, discardSaved, markers, duration]);
 
   const togglePlayback = useCallback(() => {
     if (!audioRef.current) return;
@@ -259,29 +643,92 @@ export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: Au
             <p className="text-base font-medium text-zinc-700 dark:text-zinc-300">
               {t.startRecording}
             </p>
+            <div className="mx-auto max-w-sm space-y-2">
+              <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400">{t.recordingSourceLabel}</p>
+              <div className="inline-flex rounded-xl bg-zinc-100 p-1 dark:bg-zinc-800" role="radiogroup" aria-label={t.recordingSourceLabel}>
+                {(["mic", "mic+system"] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    role="radio"
+                    aria-checked={source === option}
+                    onClick={() => handleSourceChange(option)}
+                    disabled={disabled}
+                    className={`cursor-pointer rounded-lg px-3 py-1.5 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                      source === option
+                        ? "bg-white text-zinc-900 shadow-sm dark:bg-zinc-700 dark:text-zinc-100"
+                        : "text-zinc-600 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-200"
+                    }`}
+                  >
+                    {option === "mic" ? t.recordingSourceMic : t.recordingSourceMix}
+                  </button>
+                ))}
+              </div>
+              {source === "mic+system" && (
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {isSystemAudioSupported() ? t.systemAudioHint : t.systemAudioUnsupported}
+                </p>
+              )}
+            </div>
+            {devices.length > 1 && (
+              <label className="mx-auto flex max-w-xs flex-col gap-1 text-start text-xs font-medium text-zinc-500 dark:text-zinc-400">
+                {t.microphoneLabel}
+                <select
+                  value={deviceId && devices.some((d) => d.deviceId === deviceId) ? deviceId : ""}
+                  onChange={(e) => handleDeviceChange(e.target.value)}
+                  disabled={disabled}
+                  className="cursor-pointer rounded-lg border border-zinc-200 bg-white px-2.5 py-1.5 text-sm text-zinc-700 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200"
+                >
+                  <option value="">{t.defaultMicrophone}</option>
+                  {devices.map((d, i) => (
+                    <option key={d.deviceId} value={d.deviceId}>
+                      {d.label || `${t.microphoneLabel} ${i + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="inline-flex cursor-pointer items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+              <input
+                type="checkbox"
+                checked={liveEnabled}
+                onChange={(e) => handleLiveToggle(e.target.checked)}
+                disabled={disabled}
+                className="h-4 w-4 cursor-pointer accent-indigo-600"
+              />
+              {t.liveTranscriptToggle}
+            </label>
           </div>
         )}
 
-        {state === "recording" && (
+        {(state === "recording" || state === "paused") && (
           <div className="space-y-4">
             <div className="relative mx-auto h-20 w-20">
               {/* Pulse effect */}
-              <div
-                ref={pulseRef}
-                className="absolute inset-0 rounded-full bg-red-500/30"
-              />
+              {state === "recording" && (
+                <div
+                  ref={pulseRef}
+                  className="absolute inset-0 rounded-full bg-red-500/30"
+                />
+              )}
               {/* Main button */}
               <button
                 type="button"
                 onClick={stopRecording}
                 className="relative z-10 flex h-20 w-20 cursor-pointer items-center justify-center rounded-full bg-linear-to-br from-red-500 to-rose-600 text-white shadow-lg shadow-red-500/30"
+                aria-label={t.stopRecording}
+                title={t.stopRecording}
               >
                 <HiStop className="h-8 w-8" />
               </button>
             </div>
             <div className="space-y-1">
-              <p className="text-base font-medium text-red-600 dark:text-red-400">
-                {t.recording}
+              <p
+                className={`text-base font-medium ${
+                  state === "paused" ? "text-amber-600 dark:text-amber-400" : "text-red-600 dark:text-red-400"
+                }`}
+              >
+                {state === "paused" ? t.recordingPaused : t.recording}
               </p>
               <p className="text-2xl font-bold tabular-nums text-zinc-900 dark:text-zinc-100">
                 {formatTime(duration)}
@@ -290,11 +737,77 @@ export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: Au
                 {t.recordingInProgress}
               </p>
             </div>
+
+            {systemStream ? (
+              <div className="flex flex-wrap justify-center gap-6">
+                <SourceControl
+                  label={t.micVolume}
+                  level={level}
+                  gain={gains.mic}
+                  onGain={(gain) => setGains((prev) => ({ ...prev, mic: gain }))}
+                  dimmed={state === "paused"}
+                />
+                <SourceControl
+                  label={t.systemVolume}
+                  level={systemEnded ? 0 : systemLevel}
+                  gain={gains.system}
+                  onGain={(gain) => setGains((prev) => ({ ...prev, system: gain }))}
+                  dimmed={state === "paused" || systemEnded}
+                />
+              </div>
+            ) : (
+              <LevelMeter level={level} label={t.inputLevel} dimmed={state === "paused"} />
+            )}
+
+            <button
+              type="button"
+              onClick={state === "paused" ? resumeRecording : pauseRecording}
+              className="inline-flex cursor-pointer items-center gap-2 rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+            >
+              {state === "paused" ? <HiPlay className="h-4 w-4" /> : <HiPause className="h-4 w-4" />}
+              {state === "paused" ? t.resumeRecording : t.pauseRecording}
+            </button>
+
+            {backupFailed && (
+              <p className="flex items-center justify-center gap-2 text-sm font-medium text-red-600 dark:text-red-400" role="status">
+                <HiExclamationTriangle className="h-4 w-4 shrink-0" />
+                {t.recordingBackupFailed}
+              </p>
+            )}
+            {systemEnded && (
+              <p className="flex items-center justify-center gap-2 text-sm font-medium text-amber-600 dark:text-amber-400" role="status">
+                <HiExclamationTriangle className="h-4 w-4 shrink-0" />
+                {t.systemAudioEnded}
+              </p>
+            )}
+            {state === "recording" && silent && (
+              <p className="flex items-center justify-center gap-2 text-sm font-medium text-amber-600 dark:text-amber-400" role="status">
+                <HiExclamationTriangle className="h-4 w-4 shrink-0" />
+                {t.noAudioDetected}
+              </p>
+            )}
+            {state === "recording" && systemStream && !systemEnded && systemSilent && (
+              <p className="flex items-center justify-center gap-2 text-sm font-medium text-amber-600 dark:text-amber-400" role="status">
+                <HiExclamationTriangle className="h-4 w-4 shrink-0" />
+                {t.noSystemAudioDetected}
+              </p>
+            )}
+            {MAX_SECONDS - duration <= WARNING_SECONDS && (
+              <p className="flex items-center justify-center gap-2 text-sm font-medium text-amber-600 dark:text-amber-400" role="status">
+                <HiExclamationTriangle className="h-4 w-4 shrink-0" />
+                {t.recordingLimitWarning.replace("{time}", formatTime(Math.max(0, MAX_SECONDS - duration)))}
+              </p>
+            )}
           </div>
         )}
 
         {state === "stopped" && audioUrl && (
           <div className="space-y-4">
+            {stoppedAtLimit && (
+              <p className="text-sm font-medium text-amber-600 dark:text-amber-400" role="status">
+                {t.recordingLimitReached.replace("{minutes}", String(Math.round(MAX_SECONDS / 60)))}
+              </p>
+            )}
             {/* Audio preview */}
             <audio ref={audioRef} src={audioUrl} className="hidden" />
             
@@ -345,6 +858,42 @@ export function AudioRecorder({ onRecordingComplete, onCancel, disabled, t }: Au
             </div>
           </div>
         )}
+
+        {state !== "idle" && (
+          <div className="mt-6">
+            <RecordingNotes
+              markers={markers}
+              onAdd={(marker) => setMarkers((prev) => [...prev, marker])}
+              onRemove={(index) => setMarkers((prev) => prev.filter((_, i) => i !== index))}
+              active={state === "recording" || state === "paused"}
+              getElapsed={() => durationRef.current}
+              t={{
+                markMoment: t.markMoment,
+                notePlaceholder: t.notePlaceholder,
+                addNote: t.addNote,
+                markersTitle: t.markersTitle,
+                markerBookmark: t.markerBookmark,
+                removeMarker: t.removeMarker,
+              }}
+            />
+          </div>
+        )}
+
+        {liveStatus !== "idle" && (
+          <div className="mt-6">
+            <LiveTranscript
+              transcript={liveTranscript}
+              status={liveStatus}
+              t={{
+                liveTranscriptTitle: t.liveTranscriptTitle,
+                liveTranscriptListening: t.liveTranscriptListening,
+                liveTranscriptFinishing: t.liveTranscriptFinishing,
+                liveTranscriptUnavailable: t.liveTranscriptUnavailable,
+                liveTranscriptNote: t.liveTranscriptNote,
+              }}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
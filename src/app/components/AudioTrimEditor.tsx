@@ -0,0 +1,386 @@
+/**
+ * Waveform editor for trimming the start and end of a recording and cutting
+ * out sections before analysis. The result is previewed and re-encoded to WAV
+ * in the browser (see audioEdit.ts).
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import gsap from "gsap";
+import { HiArrowUturnLeft, HiPlay, HiScissors, HiXMark } from "react-icons/hi2";
+import {
+  EDIT_MAX_BYTES,
+  EDIT_MAX_SECONDS,
+  addCut,
+  editedDuration,
+  encodeWav,
+  exportEdit,
+  initialEdit,
+  isUnedited,
+  keptRanges,
+  loadEditableAudio,
+  renderEdit,
+  type EditableAudio,
+  type TimeRange,
+  type TrimEdit,
+} from "../lib/audioEdit";
+import { probeDuration } from "../lib/audioValidation";
+import { formatBytes, formatTimestamp } from "../lib/format";
+import type { I18nStrings } from "../lib/i18n";
+
+interface AudioTrimEditorProps {
+  file: File;
+  /** Length in seconds when the caller already knows it (recordings can't always be probed) */
+  duration?: number;
+  /** The edited file, and the edit that produced it */
+  onApply: (file: File, edit: TrimEdit) => void;
+  onCancel: () => void;
+  t: Pick<
+    I18nStrings,
+    | "trimTitle"
+    | "trimHint"
+    | "trimLoading"
+    | "trimTooLong"
+    | "trimTooLarge"
+    | "trimDecodeError"
+    | "trimStart"
+    | "trimEnd"
+    | "trimKeepSelection"
+    | "trimCutSelection"
+    | "trimCuts"
+    | "trimRestoreCut"
+    | "trimReset"
+    | "trimPreview"
+    | "trimResultDuration"
+    | "trimApply"
+    | "cancel"
+  >;
+}
+
+type LoadState = { status: "loading" } | { status: "ready"; audio: EditableAudio } | { status: "error"; message: string };
+
+const buttonClass =
+  "inline-flex cursor-pointer items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:cursor-not-allowed disabled:opacity-50";
+
+function inRanges(time: number, ranges: TimeRange[]): boolean {
+  return ranges.some((r) => time >= r.start && time < r.end);
+}
+
+export function AudioTrimEditor({ file, duration: knownDuration, onApply, onCancel, t }: AudioTrimEditorProps) {
+  const [state, setState] = useState<LoadState>({ status: "loading" });
+  const [edit, setEdit] = useState<TrimEdit | null>(null);
+  /** Section dragged across the waveform */
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    if (prefersReducedMotion || !rootRef.current) return;
+    gsap.fromTo(rootRef.current, { opacity: 0, y: 10 }, { opacity: 1, y: 0, duration: 0.3, ease: "power2.out" });
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      // Check the size and length first; decoding a very long file would exhaust memory
+      if (file.size > EDIT_MAX_BYTES) {
+        throw new RangeError(t.trimTooLarge.replace("{max}", formatBytes(EDIT_MAX_BYTES)));
+      }
+      const duration = knownDuration ?? (await probeDuration(file));
+      if (duration !== null && duration > EDIT_MAX_SECONDS) {
+        throw new RangeError(t.trimTooLong.replace("{max}", formatTimestamp(EDIT_MAX_SECONDS)));
+      }
+      const audio = await loadEditableAudio(file);
+      if (!audio) throw new Error(t.trimDecodeError);
+      if (audio.duration > EDIT_MAX_SECONDS) {
+        throw new RangeError(t.trimTooLong.replace("{max}", formatTimestamp(EDIT_MAX_SECONDS)));
+      }
+      return audio;
+    })()
+      .then((audio) => {
+        if (!active) return;
+        setState({ status: "ready", audio });
+        setEdit(initialEdit(audio.duration));
+      })
+      .catch((e) => {
+        if (active) setState({ status: "error", message: e instanceof RangeError ? e.message : t.trimDecodeError });
+      });
+    return () => {
+      active = false;
+    };
+  }, [file, knownDuration, t.trimTooLong, t.trimTooLarge, t.trimDecodeError]);
+
+  // A preview is only valid for the edit it was made from
+  useEffect(() => {
+    setPreviewUrl(null);
+  }, [edit]);
+
+  useEffect(() => {
+    if (!previewUrl) return;
+    return () => URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const audio = state.status === "ready" ? state.audio : null;
+  const kept = useMemo(() => (edit ? keptRanges(edit) : []), [edit]);
+
+  const timeAt = useCallback(
+    (clientX: number) => {
+      const rect = waveformRef.current?.getBoundingClientRect();
+      if (!rect || !audio) return 0;
+      const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+      return fraction * audio.duration;
+    },
+    [audio]
+  );
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e.clientX);
+    dragRef.current = time;
+    setSelection({ start: time, end: time });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const anchor = dragRef.current;
+    if (anchor === null) return;
+    const time = timeAt(e.clientX);
+    setSelection({ start: Math.min(anchor, time), end: Math.max(anchor, time) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    setSelection((sel) => (sel && sel.end - sel.start >= 0.1 ? sel : null));
+  };
+
+  const keepSelection = () => {
+    if (!edit || !selection) return;
+    setEdit({
+      start: selection.start,
+      end: selection.end,
+      cuts: edit.cuts.filter((c) => c.end > selection.start && c.start < selection.end),
+    });
+    setSelection(null);
+  };
+
+  const cutSelection = () => {
+    if (!edit || !selection) return;
+    setEdit(addCut(edit, selection));
+    setSelection(null);
+  };
+
+  const preview = () => {
+    if (!audio || !edit) return;
+    setPreviewUrl(URL.createObjectURL(encodeWav(renderEdit(audio, edit), audio.sampleRate)));
+  };
+
+  const apply = () => {
+    if (!audio || !edit) return;
+    if (isUnedited(edit, audio.duration)) onCancel();
+    else onApply(exportEdit(audio, edit, file.name), edit);
+  };
+
+  const resultDuration = edit ? editedDuration(edit) : 0;
+
+  return (
+    <div
+      ref={rootRef}
+      className="rounded-2xl border border-zinc-200/60 bg-white/80 p-5 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80"
+    >
+      <div className="mb-3 flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="flex items-center gap-2 text-base font-semibold text-zinc-900 dark:text-zinc-100">
+            <HiScissors className="h-5 w-5 text-indigo-500" />
+            {t.trimTitle}
+          </h3>
+          <p className="mt-0.5 truncate text-xs text-zinc-500 dark:text-zinc-400">{file.name}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="cursor-pointer rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-800 dark:hover:text-zinc-300"
+          aria-label={t.cancel}
+        >
+          <HiXMark className="h-5 w-5" />
+        </button>
+      </div>
+
+      {state.status === "loading" && (
+        <p className="flex items-center gap-2 py-8 text-sm text-zinc-500 dark:text-zinc-400" aria-live="polite">
+          <span className="h-4 w-4 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />
+          {t.trimLoading}
+        </p>
+      )}
+
+      {state.status === "error" && (
+        <p className="py-4 text-sm font-medium text-red-600 dark:text-red-400">{state.message}</p>
+      )}
+
+      {audio && edit && (
+        <>
+          <p className="mb-3 text-sm text-zinc-500 dark:text-zinc-400">{t.trimHint}</p>
+
+          {/* Time runs left to right in every language */}
+          <div
+            ref={waveformRef}
+            dir="ltr"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="relative flex h-24 cursor-crosshair touch-none select-none items-center gap-px rounded-xl bg-zinc-50 px-1 dark:bg-zinc-800/50"
+          >
+            {audio.peaks.map((peak, i) => {
+              const time = ((i + 0.5) / audio.peaks.length) * audio.duration;
+              return (
+                <span
+                  key={i}
+                  className={`flex-1 rounded-full ${
+                    inRanges(time, kept) ? "bg-indigo-500 dark:bg-indigo-400" : "bg-zinc-300 dark:bg-zinc-600"
+                  }`}
+                  style={{ height: `${Math.max(2, peak * 100)}%` }}
+                />
+              );
+            })}
+            {selection && (
+              <span
+                className="pointer-events-none absolute inset-y-0 rounded-md border border-indigo-500 bg-indigo-500/20"
+                style={{
+                  left: `${(selection.start / audio.duration) * 100}%`,
+                  width: `${((selection.end - selection.start) / audio.duration) * 100}%`,
+                }}
+              />
+            )}
+          </div>
+
+          <div className="mt-4 grid gap-3 sm:grid-cols-2">
+            <label className="text-sm text-zinc-600 dark:text-zinc-400">
+              <span className="flex justify-between">
+                {t.trimStart}
+                <span className="font-mono tabular-nums">{formatTimestamp(edit.start)}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={audio.duration}
+                step={0.1}
+                value={edit.start}
+                onChange={(e) => setEdit({ ...edit, start: Math.min(Number(e.target.value), edit.end - 0.1) })}
+                className="mt-1 w-full cursor-pointer accent-indigo-500"
+              />
+            </label>
+            <label className="text-sm text-zinc-600 dark:text-zinc-400">
+              <span className="flex justify-between">
+                {t.trimEnd}
+                <span className="font-mono tabular-nums">{formatTimestamp(edit.end)}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={audio.duration}
+                step={0.1}
+                value={edit.end}
+                onChange={(e) => setEdit({ ...edit, end: Math.max(Number(e.target.value), edit.start + 0.1) })}
+                className="mt-1 w-full cursor-pointer accent-indigo-500"
+              />
+            </label>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={keepSelection}
+              disabled={!selection}
+              className={`${buttonClass} bg-indigo-50 text-indigo-700 hover:bg-indigo-100 dark:bg-indigo-950/40 dark:text-indigo-300 dark:hover:bg-indigo-900/50`}
+            >
+              {t.trimKeepSelection}
+            </button>
+            <button
+              type="button"
+              onClick={cutSelection}
+              disabled={!selection}
+              className={`${buttonClass} bg-red-50 text-red-700 hover:bg-red-100 dark:bg-red-950/30 dark:text-red-300 dark:hover:bg-red-900/40`}
+            >
+              <HiScissors className="h-4 w-4" />
+              {t.trimCutSelection}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setEdit(initialEdit(audio.duration));
+                setSelection(null);
+              }}
+              disabled={isUnedited(edit, audio.duration)}
+              className={`${buttonClass} text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800`}
+            >
+              <HiArrowUturnLeft className="h-4 w-4" />
+              {t.trimReset}
+            </button>
+          </div>
+
+          {edit.cuts.length > 0 && (
+            <div className="mt-4">
+              <p className="mb-2 text-xs font-medium uppercase tracking-wide text-zinc-500 dark:text-zinc-400">{t.trimCuts}</p>
+              <ul className="flex flex-wrap gap-2">
+                {edit.cuts.map((cut, i) => (
+                  <li
+                    key={`${cut.start}-${cut.end}`}
+                    className="inline-flex items-center gap-2 rounded-lg bg-zinc-100 px-2.5 py-1 text-xs text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+                  >
+                    <span className="font-mono tabular-nums" dir="ltr">
+                      {formatTimestamp(cut.start)}–{formatTimestamp(cut.end)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setEdit({ ...edit, cuts: edit.cuts.filter((_, j) => j !== i) })}
+                      className="cursor-pointer font-medium text-indigo-600 hover:underline dark:text-indigo-400"
+                    >
+                      {t.trimRestoreCut}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="mt-5 flex flex-wrap items-center justify-between gap-3 border-t border-zinc-200/60 pt-4 dark:border-zinc-800/60">
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              {t.trimResultDuration
+                .replace("{duration}", formatTimestamp(resultDuration))
+                .replace("{original}", formatTimestamp(audio.duration))}
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={preview}
+                disabled={resultDuration <= 0}
+                className={`${buttonClass} text-zinc-700 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-zinc-800`}
+              >
+                <HiPlay className="h-4 w-4" />
+                {t.trimPreview}
+              </button>
+              <button
+                type="button"
+                onClick={onCancel}
+                className={`${buttonClass} text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800`}
+              >
+                {t.cancel}
+              </button>
+              <button
+                type="button"
+                onClick={apply}
+                disabled={resultDuration <= 0}
+                className={`${buttonClass} bg-linear-to-r from-indigo-500 to-violet-600 text-white shadow-md shadow-indigo-500/25 hover:shadow-lg`}
+              >
+                {t.trimApply}
+              </button>
+            </div>
+          </div>
+
+          {previewUrl && <audio src={previewUrl} controls autoPlay className="mt-4 w-full" />}
+        </>
+      )}
+    </div>
+  );
+}
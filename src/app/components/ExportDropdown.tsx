@@ -1,5 +1,6 @@
 /**
- * Export dropdown: Word and PDF options.
+ * Export dropdown: Word, PDF, Markdown, plain text and JSON options, plus
+ * SRT and WebVTT subtitles of the translated or original transcript.
  * Uses Floating UI with FloatingPortal (renders to document.body) so the
  * dropdown appears below the trigger and is not clipped by overflow.
  */
@@ -20,19 +21,103 @@ import {
   FloatingPortal,
   type Placement,
 } from "@floating-ui/react";
-import { HiChevronDown, HiArrowDownTray, HiDocumentText } from "react-icons/hi2";
-import { PDF_EXPORT_ENABLED } from "../lib/constants";
+import {
+  HiChevronDown,
+  HiArrowDownTray,
+  HiDocumentText,
+  HiHashtag,
+  HiBars3BottomLeft,
+  HiCodeBracket,
+  HiChatBubbleBottomCenterText,
+} from "react-icons/hi2";
+import { EXPORT_FORMATS, isSubtitleFormat } from "../lib/exporters";
+import type { SubtitleTrack } from "../lib/subtitles";
 import { useLanguage } from "../context/LanguageContext";
 import type { I18nStrings } from "../lib/i18n";
+import type { ExportFormat } from "../lib/storage";
+
+type ExportLabels = Pick<
+  I18nStrings,
+  | "export"
+  | "exportWord"
+  | "exportPdf"
+  | "exportMarkdown"
+  | "exportText"
+  | "exportJson"
+  | "exportSrt"
+  | "exportVtt"
+  | "subtitlesTranslated"
+  | "subtitlesOriginal"
+>;
+
+type OptionLabel = Exclude<keyof ExportLabels, "export" | "subtitlesTranslated" | "subtitlesOriginal">;
+
+const OPTIONS: Record<
+  ExportFormat,
+  {
+    label: OptionLabel;
+    description: string;
+    icon: React.ComponentType<{ className?: string }>;
+    iconClass: string;
+  }
+> = {
+  word: {
+    label: "exportWord",
+    description: "Microsoft Word (.docx)",
+    icon: HiDocumentText,
+    iconClass: "bg-blue-100 text-blue-600 dark:bg-blue-900/40 dark:text-blue-400",
+  },
+  pdf: {
+    label: "exportPdf",
+    description: "PDF Document (.pdf)",
+    icon: HiDocumentText,
+    iconClass: "bg-red-100 text-red-600 dark:bg-red-900/40 dark:text-red-400",
+  },
+  markdown: {
+    label: "exportMarkdown",
+    description: "Markdown (.md)",
+    icon: HiHashtag,
+    iconClass: "bg-emerald-100 text-emerald-600 dark:bg-emerald-900/40 dark:text-emerald-400",
+  },
+  text: {
+    label: "exportText",
+    description: "Plain text (.txt)",
+    icon: HiBars3BottomLeft,
+    iconClass: "bg-zinc-100 text-zinc-600 dark:bg-zinc-700/60 dark:text-zinc-300",
+  },
+  json: {
+    label: "exportJson",
+    description: "JSON (.json)",
+    icon: HiCodeBracket,
+    iconClass: "bg-amber-100 text-amber-600 dark:bg-amber-900/40 dark:text-amber-400",
+  },
+  srt: {
+    label: "exportSrt",
+    description: "SubRip subtitles (.srt)",
+    icon: HiChatBubbleBottomCenterText,
+    iconClass: "bg-violet-100 text-violet-600 dark:bg-violet-900/40 dark:text-violet-400",
+  },
+  vtt: {
+    label: "exportVtt",
+    description: "WebVTT subtitles (.vtt)",
+    icon: HiChatBubbleBottomCenterText,
+    iconClass: "bg-cyan-100 text-cyan-600 dark:bg-cyan-900/40 dark:text-cyan-400",
+  },
+};
+
+const TRACKS: { track: SubtitleTrack; label: "subtitlesTranslated" | "subtitlesOriginal" }[] = [
+  { track: "clean", label: "subtitlesTranslated" },
+  { track: "raw", label: "subtitlesOriginal" },
+];
 
 interface ExportDropdownProps {
   disabled: boolean;
-  t: Pick<I18nStrings, "export" | "exportWord" | "exportPdf">;
-  onExportWord: () => void;
-  onExportPdf: () => void;
+  t: ExportLabels;
+  /** `track` is set for subtitle formats */
+  onExport: (format: ExportFormat, track?: SubtitleTrack) => void;
 }
 
-export function ExportDropdown({ disabled, t, onExportWord, onExportPdf }: ExportDropdownProps) {
+export function ExportDropdown({ disabled, t, onExport }: ExportDropdownProps) {
   const { isRTL } = useLanguage();
   const [isOpen, setIsOpen] = React.useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -74,15 +159,13 @@ export function ExportDropdown({ disabled, t, onExportWord, onExportPdf }: Expor
     }
   }, [isOpen]);
 
-  const handleWord = useCallback(() => {
-    close();
-    onExportWord();
-  }, [close, onExportWord]);
-
-  const handlePdf = useCallback(() => {
-    close();
-    onExportPdf();
-  }, [close, onExportPdf]);
+  const handleSelect = useCallback(
+    (format: ExportFormat, track?: SubtitleTrack) => {
+      close();
+      onExport(format, track);
+    },
+    [close, onExport]
+  );
 
   return (
     <>
@@ -119,37 +202,56 @@ export function ExportDropdown({ disabled, t, onExportWord, onExportPdf }: Expor
               className="z-50 min-w-[200px] rounded-xl border border-zinc-200/60 bg-white/95 py-2 shadow-xl backdrop-blur-xl dark:border-zinc-700/60 dark:bg-zinc-800/95 sm:min-w-[220px]"
               {...getFloatingProps()}
             >
-              <button
-                type="button"
-                role="menuitem"
-                onClick={handleWord}
-                className="group flex w-full cursor-pointer items-center gap-2 px-3 py-2 text-start text-sm text-zinc-700 transition-all duration-200 hover:bg-indigo-50 focus:bg-indigo-50 focus:outline-none dark:text-zinc-200 dark:hover:bg-indigo-950/30 dark:focus:bg-indigo-950/30 sm:gap-3 sm:px-4 sm:py-3"
-              >
-                <span className="flex h-8 w-8 items-center justify-center rounded-lg bg-blue-100 text-blue-600 transition-transform duration-200 group-hover:scale-110 dark:bg-blue-900/40 dark:text-blue-400 sm:h-9 sm:w-9">
-                  <HiDocumentText className="h-4 w-4 sm:h-5 sm:w-5" />
-                </span>
-                <div>
-                  <p className="font-medium">{t.exportWord}</p>
-                  <p className="hidden text-xs text-zinc-500 dark:text-zinc-400 sm:block">Microsoft Word (.docx)</p>
-                </div>
-              </button>
-
-              {PDF_EXPORT_ENABLED && (
-                <button
-                  type="button"
-                  role="menuitem"
-                  onClick={handlePdf}
-                  className="group flex w-full cursor-pointer items-center gap-2 px-3 py-2 text-start text-sm text-zinc-700 transition-all duration-200 hover:bg-indigo-50 focus:bg-indigo-50 focus:outline-none dark:text-zinc-200 dark:hover:bg-indigo-950/30 dark:focus:bg-indigo-950/30 sm:gap-3 sm:px-4 sm:py-3"
-                >
-                  <span className="flex h-8 w-8 items-center justify-center rounded-lg bg-red-100 text-red-600 transition-transform duration-200 group-hover:scale-110 dark:bg-red-900/40 dark:text-red-400 sm:h-9 sm:w-9">
-                    <HiDocumentText className="h-4 w-4 sm:h-5 sm:w-5" />
-                  </span>
-                  <div>
-                    <p className="font-medium">{t.exportPdf}</p>
-                    <p className="hidden text-xs text-zinc-500 dark:text-zinc-400 sm:block">PDF Document (.pdf)</p>
-                  </div>
-                </button>
-              )}
+              {EXPORT_FORMATS.map((format) => {
+                const option = OPTIONS[format];
+                const Icon = option.icon;
+                if (isSubtitleFormat(format)) {
+                  return (
+                    <div
+                      key={format}
+                      className="flex w-full items-center gap-2 px-3 py-2 text-sm text-zinc-700 dark:text-zinc-200 sm:gap-3 sm:px-4 sm:py-3"
+                    >
+                      <span className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-lg sm:h-9 sm:w-9 ${option.iconClass}`}>
+                        <Icon className="h-4 w-4 sm:h-5 sm:w-5" />
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium">{t[option.label]}</p>
+                        <div className="mt-1 flex flex-wrap gap-1.5">
+                          {TRACKS.map(({ track, label }) => (
+                            <button
+                              key={track}
+                              type="button"
+                              role="menuitem"
+                              onClick={() => handleSelect(format, track)}
+                              aria-label={`${t[option.label]} · ${t[label]}`}
+                              className="cursor-pointer rounded-md border border-zinc-200 px-2 py-0.5 text-xs font-medium text-zinc-600 transition-colors hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-700 focus:bg-indigo-50 focus:outline-none dark:border-zinc-600 dark:text-zinc-300 dark:hover:border-indigo-600 dark:hover:bg-indigo-950/30 dark:hover:text-indigo-300 dark:focus:bg-indigo-950/30"
+                            >
+                              {t[label]}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                }
+                return (
+                  <button
+                    key={format}
+                    type="button"
+                    role="menuitem"
+                    onClick={() => handleSelect(format)}
+                    className="group flex w-full cursor-pointer items-center gap-2 px-3 py-2 text-start text-sm text-zinc-700 transition-all duration-200 hover:bg-indigo-50 focus:bg-indigo-50 focus:outline-none dark:text-zinc-200 dark:hover:bg-indigo-950/30 dark:focus:bg-indigo-950/30 sm:gap-3 sm:px-4 sm:py-3"
+                  >
+                    <span className={`flex h-8 w-8 items-center justify-center rounded-lg transition-transform duration-200 group-hover:scale-110 sm:h-9 sm:w-9 ${option.iconClass}`}>
+                      <Icon className="h-4 w-4 sm:h-5 sm:w-5" />
+                    </span>
+                    <div>
+                      <p className="font-medium">{t[option.label]}</p>
+                      <p className="hidden text-xs text-zinc-500 dark:text-zinc-400 sm:block">{option.description}</p>
+                    </div>
+                  </button>
+                );
+              })}
             </div>
           </FloatingFocusManager>
         </FloatingPortal>
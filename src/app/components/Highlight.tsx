@@ -0,0 +1,34 @@
+/**
+ * Renders text with search-term matches wrapped in <mark>.
+ */
+
+import { termsPattern } from "../lib/historySearch";
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+export function Highlight({ text, terms }: HighlightProps) {
+  const pattern = termsPattern(terms);
+  if (!pattern || !text) return <>{text}</>;
+
+  // Capturing group keeps the matches; they land on odd indices
+  const parts = text.split(new RegExp(`(${pattern.source})`, pattern.flags));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark
+            key={i}
+            className="rounded-sm bg-amber-200/80 px-0.5 text-inherit dark:bg-amber-500/30"
+          >
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * Search input, filters and sort order for the History list.
+ */
+
+import { HiMagnifyingGlass, HiXMark } from "react-icons/hi2";
+import type { I18nStrings } from "../lib/i18n";
+import { OUTPUT_LANGUAGES } from "../lib/constants";
+import {
+  DEFAULT_HISTORY_FILTERS,
+  hasActiveFilters,
+  type ExportFilter,
+  type HistoryFilters,
+  type HistorySort,
+} from "../lib/historySearch";
+
+interface HistoryFilterBarProps {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+  /** Tags in use, offered by the tag filter */
+  tags: string[];
+  t: Pick<
+    I18nStrings,
+    | "historySearchPlaceholder"
+    | "clearSearch"
+    | "filterLanguage"
+    | "filterAllLanguages"
+    | "filterFrom"
+    | "filterTo"
+    | "filterHasActionItems"
+    | "filterExport"
+    | "filterExportAll"
+    | "filterExported"
+    | "filterNotExported"
+    | "filterTag"
+    | "filterAllTags"
+    | "sortBy"
+    | "sortNewest"
+    | "sortOldest"
+    | "sortName"
+    | "sortMostActions"
+    | "clearFilters"
+  >;
+}
+
+const CONTROL_CLASSES =
+  "cursor-pointer rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-700 transition-colors hover:border-indigo-300 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:border-indigo-600";
+
+export function HistoryFilterBar({ filters, onChange, tags, t }: HistoryFilterBarProps) {
+  const update = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+  // Keep a selected tag listed after the last meeting using it dropped it
+  const tagOptions = filters.tag && !tags.includes(filters.tag) ? [filters.tag, ...tags] : tags;
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-zinc-200/60 bg-white/80 p-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+      {/* Search */}
+      <div className="relative">
+        <HiMagnifyingGlass className="pointer-events-none absolute start-3 top-1/2 h-5 w-5 -translate-y-1/2 text-zinc-400" />
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => update("query", e.target.value)}
+          placeholder={t.historySearchPlaceholder}
+          aria-label={t.historySearchPlaceholder}
+          className="w-full rounded-xl border border-zinc-200 bg-white py-2.5 pe-10 ps-10 text-sm text-zinc-800 placeholder:text-zinc-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:placeholder:text-zinc-500 [&::-webkit-search-cancel-button]:hidden"
+        />
+        {filters.query && (
+          <button
+            type="button"
+            onClick={() => update("query", "")}
+            className="absolute end-2 top-1/2 -translate-y-1/2 cursor-pointer rounded-lg p-1 text-zinc-400 transition-colors hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-700 dark:hover:text-zinc-300"
+            aria-label={t.clearSearch}
+          >
+            <HiXMark className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Filters & sort */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.language}
+          onChange={(e) => update("language", e.target.value)}
+          aria-label={t.filterLanguage}
+          className={CONTROL_CLASSES}
+        >
+          <option value="all">{t.filterAllLanguages}</option>
+          {OUTPUT_LANGUAGES.map((lang) => (
+            <option key={lang.value} value={lang.value}>
+              {lang.label}
+            </option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-1.5 text-sm text-zinc-500 dark:text-zinc-400">
+          {t.filterFrom}
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => update("from", e.target.value)}
+            className={CONTROL_CLASSES}
+          />
+        </label>
+        <label className="flex items-center gap-1.5 text-sm text-zinc-500 dark:text-zinc-400">
+          {t.filterTo}
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => update("to", e.target.value)}
+            className={CONTROL_CLASSES}
+          />
+        </label>
+
+        <select
+          value={filters.exported}
+          onChange={(e) => update("exported", e.target.value as ExportFilter)}
+          aria-label={t.filterExport}
+          className={CONTROL_CLASSES}
+        >
+          <option value="all">{t.filterExportAll}</option>
+          <option value="exported">{t.filterExported}</option>
+          <option value="not-exported">{t.filterNotExported}</option>
+        </select>
+
+        {tagOptions.length > 0 && (
+          <select
+            value={filters.tag}
+            onChange={(e) => update("tag", e.target.value)}
+            aria-label={t.filterTag}
+            className={CONTROL_CLASSES}
+          >
+            <option value="">{t.filterAllTags}</option>
+            {tagOptions.map((tag) => (
+              <option key={tag} value={tag}>
+                #{tag}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <label className="flex cursor-pointer items-center gap-2 rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-700 transition-colors hover:border-indigo-300 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:border-indigo-600">
+          <input
+            type="checkbox"
+            checked={filters.hasActionItems}
+            onChange={(e) => update("hasActionItems", e.target.checked)}
+            className="h-4 w-4 cursor-pointer accent-indigo-600"
+          />
+          {t.filterHasActionItems}
+        </label>
+
+        <select
+          value={filters.sort}
+          onChange={(e) => update("sort", e.target.value as HistorySort)}
+          aria-label={t.sortBy}
+          className={`${CONTROL_CLASSES} ms-auto`}
+        >
+          <option value="newest">{t.sortNewest}</option>
+          <option value="oldest">{t.sortOldest}</option>
+          <option value="name">{t.sortName}</option>
+          <option value="actions">{t.sortMostActions}</option>
+        </select>
+
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...DEFAULT_HISTORY_FILTERS, sort: filters.sort })}
+            className="cursor-pointer rounded-xl px-3 py-2 text-sm font-medium text-indigo-600 transition-colors hover:bg-indigo-50 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          >
+            {t.clearFilters}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
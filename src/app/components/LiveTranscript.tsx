@@ -0,0 +1,88 @@
+/**
+ * Rolling transcript shown under the recorder while live transcription runs.
+ * Committed text is followed by the current guess in a lighter colour; the
+ * box keeps the newest words in view unless the user scrolled up.
+ */
+
+import { useEffect, useRef } from "react";
+import { HiExclamationTriangle } from "react-icons/hi2";
+import type { LiveTranscript as LiveTranscriptText } from "../lib/api";
+import type { LiveTranscriptionStatus } from "../hooks/useLiveTranscription";
+import type { I18nStrings } from "../lib/i18n";
+
+interface LiveTranscriptProps {
+  transcript: LiveTranscriptText;
+  status: LiveTranscriptionStatus;
+  t: Pick<
+    I18nStrings,
+    "liveTranscriptTitle" | "liveTranscriptListening" | "liveTranscriptFinishing" | "liveTranscriptUnavailable" | "liveTranscriptNote"
+  >;
+}
+
+/** Within this many pixels of the bottom counts as following the transcript */
+const FOLLOW_THRESHOLD_PX = 24;
+
+export function LiveTranscript({ transcript, status, t }: LiveTranscriptProps) {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+
+  useEffect(() => {
+    const box = boxRef.current;
+    if (box && followRef.current) box.scrollTop = box.scrollHeight;
+  }, [transcript]);
+
+  const handleScroll = () => {
+    const box = boxRef.current;
+    if (!box) return;
+    followRef.current = box.scrollHeight - box.scrollTop - box.clientHeight < FOLLOW_THRESHOLD_PX;
+  };
+
+  const empty = !transcript.text && !transcript.partial;
+
+  return (
+    <section className="space-y-2 text-start" aria-live="polite">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+          {status === "live" && <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" aria-hidden />}
+          {t.liveTranscriptTitle}
+        </h3>
+        {status === "finishing" && (
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">{t.liveTranscriptFinishing}</span>
+        )}
+      </div>
+
+      {status === "failed" && (
+        <p className="flex items-center gap-2 text-sm font-medium text-amber-600 dark:text-amber-400" role="status">
+          <HiExclamationTriangle className="h-4 w-4 shrink-0" />
+          {t.liveTranscriptUnavailable}
+        </p>
+      )}
+
+      {(!empty || status === "live") && (
+        <div
+          ref={boxRef}
+          onScroll={handleScroll}
+          className="max-h-48 overflow-auto whitespace-pre-wrap rounded-xl border border-zinc-200/60 bg-white/60 px-4 py-3 text-sm leading-relaxed text-zinc-700 dark:border-zinc-700/60 dark:bg-zinc-900/40 dark:text-zinc-300"
+        >
+          {empty ? (
+            <span className="text-zinc-400 dark:text-zinc-500">{t.liveTranscriptListening}</span>
+          ) : (
+            <>
+              {transcript.text}
+              {transcript.partial && (
+                <span className="text-zinc-400 dark:text-zinc-500">
+                  {transcript.text ? " " : ""}
+                  {transcript.partial}
+                </span>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {(status === "done" || status === "finishing") && !empty && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">{t.liveTranscriptNote}</p>
+      )}
+    </section>
+  );
+}
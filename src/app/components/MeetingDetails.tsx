@@ -0,0 +1,297 @@
+/**
+ * Meeting details panel of a saved meeting: meeting date, tags and expected
+ * attendees, with an editor that also sets the title. An untitled meeting's
+ * editor starts with a title suggested from the summary.
+ */
+
+import { useId, useState, type FormEvent, type KeyboardEvent } from "react";
+import { HiCalendarDays, HiCheck, HiPencilSquare, HiSparkles, HiTag, HiUserGroup, HiXMark } from "react-icons/hi2";
+import {
+  formatMeetingDay,
+  metadataFromHistory,
+  normalizeList,
+  suggestTitle,
+  type MeetingMetadata,
+} from "../lib/meetingMetadata";
+import type { HistoryItem } from "../lib/storage";
+import type { I18nStrings } from "../lib/i18n";
+import { Highlight } from "./Highlight";
+
+type MeetingDetailsStrings = Pick<
+  I18nStrings,
+  | "meetingDetails"
+  | "meetingDetailsEmpty"
+  | "editMeetingDetails"
+  | "meetingTitleLabel"
+  | "suggestTitle"
+  | "meetingDateLabel"
+  | "meetingTagsLabel"
+  | "meetingTagsPlaceholder"
+  | "meetingAttendeesLabel"
+  | "meetingAttendeesPlaceholder"
+  | "removeListEntry"
+  | "saveEdits"
+  | "cancel"
+>;
+
+interface MeetingDetailsProps {
+  item: HistoryItem;
+  /** Resolves false if saving failed; the editor then stays open */
+  onSave: (metadata: MeetingMetadata) => Promise<boolean>;
+  disabled?: boolean;
+  /** Active search terms */
+  terms: string[];
+  t: MeetingDetailsStrings;
+}
+
+const INPUT_CLASSES =
+  "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200";
+
+/**
+ * Entries shown as removable chips, added with Enter or a comma. Backspace in
+ * the empty field removes the last one; text left in the field is added when
+ * it loses focus.
+ */
+function ListInput({
+  values,
+  onChange,
+  placeholder,
+  prefix = "",
+  suggestions = [],
+  label,
+  t,
+}: {
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+  /** Shown before each chip, e.g. "#" for tags */
+  prefix?: string;
+  /** Offered while typing */
+  suggestions?: string[];
+  label: string;
+  t: Pick<I18nStrings, "removeListEntry">;
+}) {
+  const [text, setText] = useState("");
+  const listId = useId();
+
+  const commit = () => {
+    if (!text.trim()) return;
+    onChange([...values, ...text.split(",")]);
+    setText("");
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      commit();
+    } else if (e.key === "Backspace" && !text && values.length > 0) {
+      onChange(values.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 rounded-lg border border-zinc-200 bg-white px-2 py-1.5 focus-within:border-indigo-500 focus-within:ring-2 focus-within:ring-indigo-500/20 dark:border-zinc-700 dark:bg-zinc-800">
+      {values.map((value, i) => (
+        <span
+          key={`${value}-${i}`}
+          className="inline-flex items-center gap-1 rounded-md bg-indigo-50 px-2 py-0.5 text-xs font-medium text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300"
+        >
+          {prefix}
+          {value}
+          <button
+            type="button"
+            onClick={() => onChange(values.filter((_, j) => j !== i))}
+            className="cursor-pointer rounded p-0.5 text-indigo-400 transition-colors hover:bg-indigo-100 hover:text-indigo-700 dark:hover:bg-indigo-800/50 dark:hover:text-indigo-200"
+            aria-label={t.removeListEntry.replace("{value}", value)}
+          >
+            <HiXMark className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commit}
+        placeholder={values.length === 0 ? placeholder : ""}
+        aria-label={label}
+        list={suggestions.length > 0 ? listId : undefined}
+        className="min-w-32 flex-1 bg-transparent px-1 py-0.5 text-sm text-zinc-700 placeholder:text-zinc-400 focus:outline-none dark:text-zinc-200"
+      />
+      {suggestions.length > 0 && (
+        <datalist id={listId}>
+          {suggestions
+            .filter((s) => !values.includes(s))
+            .map((s) => (
+              <option key={s} value={s} />
+            ))}
+        </datalist>
+      )}
+    </div>
+  );
+}
+
+export function MeetingDetails({ item, onSave, disabled, terms, t }: MeetingDetailsProps) {
+  const [draft, setDraft] = useState<MeetingMetadata | null>(null);
+  const [saving, setSaving] = useState(false);
+  const suggestion = suggestTitle(item.summary);
+  const { meetingDate, tags, attendees } = metadataFromHistory(item);
+  const empty = !meetingDate && tags.length === 0 && attendees.length === 0;
+
+  const startEditing = () => {
+    const current = metadataFromHistory(item);
+    setDraft({ ...current, title: current.title || suggestion });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setSaving(true);
+    const ok = await onSave({
+      title: draft.title.trim(),
+      meetingDate: draft.meetingDate,
+      tags: normalizeList(draft.tags, { tags: true }),
+      attendees: normalizeList(draft.attendees),
+    });
+    setSaving(false);
+    if (ok) setDraft(null);
+  };
+
+  if (draft) {
+    return (
+      <form
+        onSubmit={handleSubmit}
+        className="space-y-3 rounded-2xl border border-zinc-200/60 bg-white/80 px-6 py-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80"
+      >
+        <h3 className="text-sm font-semibold text-zinc-800 dark:text-zinc-200">{t.meetingDetails}</h3>
+        <div className="grid gap-3 sm:grid-cols-[1fr_auto]">
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-zinc-600 dark:text-zinc-400">{t.meetingTitleLabel}</span>
+            <span className="flex gap-2">
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                placeholder={item.fileName}
+                className={INPUT_CLASSES}
+              />
+              {suggestion && draft.title !== suggestion && (
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, title: suggestion })}
+                  className="inline-flex shrink-0 cursor-pointer items-center gap-1.5 rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm font-medium text-zinc-600 transition-colors hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:border-indigo-600 dark:hover:bg-indigo-950/30 dark:hover:text-indigo-300"
+                  title={suggestion}
+                >
+                  <HiSparkles className="h-4 w-4" />
+                  {t.suggestTitle}
+                </button>
+              )}
+            </span>
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-zinc-600 dark:text-zinc-400">{t.meetingDateLabel}</span>
+            <input
+              type="date"
+              value={draft.meetingDate}
+              onChange={(e) => setDraft({ ...draft, meetingDate: e.target.value })}
+              className={`${INPUT_CLASSES} cursor-pointer`}
+            />
+          </label>
+        </div>
+        <div className="space-y-1 text-sm">
+          <span className="font-medium text-zinc-600 dark:text-zinc-400">{t.meetingTagsLabel}</span>
+          <ListInput
+            values={draft.tags}
+            onChange={(next) => setDraft({ ...draft, tags: normalizeList(next, { tags: true }) })}
+            placeholder={t.meetingTagsPlaceholder}
+            prefix="#"
+            label={t.meetingTagsLabel}
+            t={t}
+          />
+        </div>
+        <div className="space-y-1 text-sm">
+          <span className="font-medium text-zinc-600 dark:text-zinc-400">{t.meetingAttendeesLabel}</span>
+          <ListInput
+            values={draft.attendees}
+            onChange={(next) => setDraft({ ...draft, attendees: normalizeList(next) })}
+            placeholder={t.meetingAttendeesPlaceholder}
+            suggestions={item.participants}
+            label={t.meetingAttendeesLabel}
+            t={t}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft(null)}
+            disabled={saving}
+            className="cursor-pointer rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:bg-zinc-700"
+          >
+            {t.cancel}
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex cursor-pointer items-center gap-2 rounded-xl bg-linear-to-r from-indigo-500 to-violet-500 px-4 py-2 text-sm font-medium text-white shadow-md shadow-indigo-500/25 transition-all duration-200 hover:shadow-lg disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <HiCheck className="h-4 w-4" />
+            {t.saveEdits}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-start justify-between gap-3 rounded-2xl border border-zinc-200/60 bg-white/80 px-6 py-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+      {empty ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">{t.meetingDetailsEmpty}</p>
+      ) : (
+        <dl className="min-w-0 flex-1 space-y-2 text-sm">
+          {meetingDate && (
+            <div className="flex items-center gap-2">
+              <dt className="sr-only">{t.meetingDateLabel}</dt>
+              <HiCalendarDays className="h-4 w-4 shrink-0 text-indigo-500" aria-hidden />
+              <dd className="text-zinc-700 dark:text-zinc-300">{formatMeetingDay(meetingDate)}</dd>
+            </div>
+          )}
+          {tags.length > 0 && (
+            <div className="flex items-start gap-2">
+              <dt className="sr-only">{t.meetingTagsLabel}</dt>
+              <HiTag className="mt-0.5 h-4 w-4 shrink-0 text-indigo-500" aria-hidden />
+              <dd className="flex flex-wrap gap-1.5">
+                {tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="rounded-md bg-indigo-50 px-2 py-0.5 text-xs font-medium text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300"
+                  >
+                    #<Highlight text={tag} terms={terms} />
+                  </span>
+                ))}
+              </dd>
+            </div>
+          )}
+          {attendees.length > 0 && (
+            <div className="flex items-start gap-2">
+              <dt className="sr-only">{t.meetingAttendeesLabel}</dt>
+              <HiUserGroup className="mt-0.5 h-4 w-4 shrink-0 text-indigo-500" aria-hidden />
+              <dd className="text-zinc-700 dark:text-zinc-300">
+                <Highlight text={attendees.join(", ")} terms={terms} />
+              </dd>
+            </div>
+          )}
+        </dl>
+      )}
+      <button
+        type="button"
+        onClick={startEditing}
+        disabled={disabled}
+        className="inline-flex shrink-0 cursor-pointer items-center gap-2 rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-all duration-200 hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-600 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:border-indigo-600 dark:hover:bg-indigo-950/30 dark:hover:text-indigo-400"
+      >
+        <HiPencilSquare className="h-4 w-4" />
+        {t.editMeetingDetails}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * Bookmarks and typed notes for the recording in progress.
+ *
+ * While recording, "Mark this moment" adds a bookmark at the current time and
+ * the note box adds a note at the time its first character was typed, so a
+ * slow typist's note still points at what was being said. A note left in the
+ * box when recording stops is kept. After recording the list stays editable.
+ */
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { HiBookmark, HiPlus, HiXMark } from "react-icons/hi2";
+import { formatTimestamp } from "../lib/format";
+import type { RecordingMarker } from "../lib/markers";
+import type { I18nStrings } from "../lib/i18n";
+
+interface RecordingNotesProps {
+  markers: RecordingMarker[];
+  onAdd: (marker: RecordingMarker) => void;
+  onRemove: (index: number) => void;
+  /** Recording or paused: show the bookmark button and note box */
+  active: boolean;
+  /** Seconds recorded so far */
+  getElapsed: () => number;
+  t: Pick<
+    I18nStrings,
+    "markMoment" | "notePlaceholder" | "addNote" | "markersTitle" | "markerBookmark" | "removeMarker"
+  >;
+}
+
+export function RecordingNotes({ markers, onAdd, onRemove, active, getElapsed, t }: RecordingNotesProps) {
+  const [note, setNote] = useState("");
+  /** Time of the first character of the note being typed */
+  const noteStartRef = useRef<number | null>(null);
+
+  const commitNote = () => {
+    const text = note.trim();
+    if (!text) return;
+    onAdd({ at: noteStartRef.current ?? getElapsed(), note: text });
+    setNote("");
+    noteStartRef.current = null;
+  };
+
+  const handleNoteChange = (value: string) => {
+    if (!value.trim()) noteStartRef.current = null;
+    else if (noteStartRef.current === null) noteStartRef.current = getElapsed();
+    setNote(value);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    commitNote();
+  };
+
+  // Keep a note that was still being typed when recording stopped
+  const commitRef = useRef(commitNote);
+  commitRef.current = commitNote;
+  useEffect(() => {
+    if (!active) commitRef.current();
+  }, [active]);
+
+  if (!active && markers.length === 0) return null;
+
+  return (
+    <div className="mx-auto max-w-md space-y-3 text-start">
+      {active && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onAdd({ at: getElapsed() })}
+            className="inline-flex cursor-pointer items-center gap-1.5 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm font-medium text-amber-800 transition-colors hover:bg-amber-100 dark:border-amber-900/50 dark:bg-amber-950/30 dark:text-amber-300 dark:hover:bg-amber-900/40"
+          >
+            <HiBookmark className="h-4 w-4" />
+            {t.markMoment}
+          </button>
+          <form onSubmit={handleSubmit} className="flex min-w-0 flex-1 items-center gap-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => handleNoteChange(e.target.value)}
+              placeholder={t.notePlaceholder}
+              aria-label={t.notePlaceholder}
+              className="min-w-0 flex-1 rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200"
+            />
+            <button
+              type="submit"
+              disabled={!note.trim()}
+              className="inline-flex shrink-0 cursor-pointer items-center justify-center rounded-xl bg-indigo-600 p-2 text-white transition-colors hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+              aria-label={t.addNote}
+              title={t.addNote}
+            >
+              <HiPlus className="h-4 w-4" />
+            </button>
+          </form>
+        </div>
+      )}
+
+      {markers.length > 0 && (
+        <section className="space-y-1.5">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+            {t.markersTitle}
+          </h3>
+          <ol className="max-h-40 space-y-1 overflow-auto">
+            {markers.map((marker, i) => (
+              <li
+                key={`${marker.at}-${i}`}
+                className="flex items-start gap-2 rounded-lg bg-white/70 px-2 py-1 text-sm text-zinc-700 dark:bg-zinc-900/40 dark:text-zinc-300"
+              >
+                <span className="mt-0.5 shrink-0 rounded-md bg-amber-100 px-1.5 py-0.5 font-mono text-xs font-medium text-amber-800 tabular-nums dark:bg-amber-900/40 dark:text-amber-300">
+                  {formatTimestamp(marker.at)}
+                </span>
+                <span className="min-w-0 flex-1 whitespace-pre-wrap">
+                  {marker.note || <span className="text-zinc-500 dark:text-zinc-400">{t.markerBookmark}</span>}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onRemove(i)}
+                  className="shrink-0 cursor-pointer rounded-md p-1 text-zinc-400 transition-colors hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-800 dark:hover:text-zinc-200"
+                  aria-label={t.removeMarker}
+                  title={t.removeMarker}
+                >
+                  <HiXMark className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Offers recordings left unfinished by a crash, reload or navigation away:
+ * recover one for analysis, download it, or discard it.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import gsap from "gsap";
+import { HiArrowDownTray, HiExclamationTriangle } from "react-icons/hi2";
+import { downloadBlob } from "../lib/exporters";
+import {
+  discardRecording,
+  listUnfinishedRecordings,
+  loadRecording,
+  type UnfinishedRecording,
+} from "../lib/recordingStore";
+import { formatTimestamp } from "../lib/format";
+import type { I18nStrings } from "../lib/i18n";
+
+interface RecordingRecoveryProps {
+  onRecover: (file: File) => void;
+  onError: (message: string) => void;
+  t: Pick<
+    I18nStrings,
+    | "recordingRecoveryFound"
+    | "recordingRecover"
+    | "recordingDownload"
+    | "recordingDiscard"
+    | "recordingRecoveryError"
+  >;
+}
+
+function formatStarted(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function RecordingRecovery({ onRecover, onError, t }: RecordingRecoveryProps) {
+  const [recordings, setRecordings] = useState<UnfinishedRecording[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const shownRef = useRef(false);
+
+  useEffect(() => {
+    let active = true;
+    listUnfinishedRecordings()
+      .then((list) => {
+        if (active) setRecordings(list);
+      })
+      .catch(() => {
+        // No IndexedDB: nothing to recover
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Animate the list in when it first appears
+  useEffect(() => {
+    if (shownRef.current || recordings.length === 0 || !listRef.current) return;
+    shownRef.current = true;
+    const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    if (prefersReducedMotion) return;
+    gsap.fromTo(listRef.current, { opacity: 0, y: -10 }, { opacity: 1, y: 0, duration: 0.4, ease: "power2.out" });
+  }, [recordings.length]);
+
+  const drop = (id: string) => setRecordings((prev) => prev.filter((r) => r.id !== id));
+
+  const run = useCallback(
+    async (recording: UnfinishedRecording, action: "recover" | "download" | "discard") => {
+      setBusyId(recording.id);
+      try {
+        if (action === "discard") {
+          await discardRecording(recording.id);
+          drop(recording.id);
+          return;
+        }
+        const file = await loadRecording(recording);
+        if (action === "download") {
+          downloadBlob(file, file.name);
+          return;
+        }
+        onRecover(file);
+        await discardRecording(recording.id);
+        drop(recording.id);
+      } catch {
+        onError(t.recordingRecoveryError);
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [onRecover, onError, t.recordingRecoveryError]
+  );
+
+  if (recordings.length === 0) return null;
+
+  const buttonClass =
+    "inline-flex cursor-pointer items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50";
+
+  return (
+    <ul ref={listRef} className="space-y-2">
+      {recordings.map((recording) => (
+        <li
+          key={recording.id}
+          className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-amber-200 bg-amber-50/80 p-4 dark:border-amber-900/50 dark:bg-amber-950/30"
+        >
+          <p className="flex min-w-0 items-center gap-3 text-sm font-medium text-amber-800 dark:text-amber-300">
+            <HiExclamationTriangle className="h-5 w-5 shrink-0" />
+            {t.recordingRecoveryFound
+              .replace("{date}", formatStarted(recording.startedAt))
+              .replace("{duration}", formatTimestamp(recording.duration))}
+          </p>
+          <div className="flex flex-wrap items-center gap-1">
+            <button
+              type="button"
+              onClick={() => run(recording, "recover")}
+              disabled={busyId !== null}
+              className={`${buttonClass} bg-amber-600 text-white hover:bg-amber-700`}
+            >
+              {t.recordingRecover}
+            </button>
+            <button
+              type="button"
+              onClick={() => run(recording, "download")}
+              disabled={busyId !== null}
+              className={`${buttonClass} text-amber-800 hover:bg-amber-100 dark:text-amber-300 dark:hover:bg-amber-900/40`}
+            >
+              <HiArrowDownTray className="h-4 w-4" />
+              {t.recordingDownload}
+            </button>
+            <button
+              type="button"
+              onClick={() => run(recording, "discard")}
+              disabled={busyId !== null}
+              className={`${buttonClass} text-amber-800 hover:bg-amber-100 dark:text-amber-300 dark:hover:bg-amber-900/40`}
+            >
+              {t.recordingDiscard}
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Map generic speaker labels from a diarized transcript to participants.
+ */
+
+import { HiUserCircle } from "react-icons/hi2";
+import type { I18nStrings } from "../lib/i18n";
+import type { SpeakerMap } from "../lib/speakers";
+
+interface SpeakerMappingProps {
+  labels: string[];
+  participants: string[];
+  map: SpeakerMap;
+  onChange: (map: SpeakerMap) => void;
+  disabled?: boolean;
+  t: Pick<I18nStrings, "speakersTitle" | "speakersHint" | "speakerKeepLabel">;
+}
+
+export function SpeakerMapping({ labels, participants, map, onChange, disabled, t }: SpeakerMappingProps) {
+  if (labels.length === 0) return null;
+
+  const handleChange = (label: string, name: string) => {
+    const next = { ...map };
+    if (name) next[label] = name;
+    else delete next[label];
+    onChange(next);
+  };
+
+  return (
+    <div className="mb-4 rounded-xl border border-violet-200/60 bg-violet-50/40 p-4 dark:border-violet-800/40 dark:bg-violet-950/20">
+      <div className="mb-3 flex items-center gap-2">
+        <HiUserCircle className="h-5 w-5 text-violet-500" />
+        <h3 className="text-sm font-semibold text-zinc-800 dark:text-zinc-200">{t.speakersTitle}</h3>
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">— {t.speakersHint}</span>
+      </div>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {labels.map((label) => (
+          <label key={label} className="flex items-center gap-2 text-sm">
+            <span className="w-24 shrink-0 truncate font-medium text-zinc-600 dark:text-zinc-400">{label}</span>
+            <select
+              value={map[label] ?? ""}
+              onChange={(e) => handleChange(label, e.target.value)}
+              disabled={disabled}
+              className="min-w-0 flex-1 cursor-pointer rounded-lg border border-zinc-200 bg-white px-2.5 py-1.5 text-sm text-zinc-700 focus:border-violet-500 focus:outline-none focus:ring-2 focus:ring-violet-500/20 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200"
+            >
+              <option value="">{t.speakerKeepLabel}</option>
+              {participants.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+              {/* Keep a mapping whose participant was since renamed */}
+              {map[label] && !participants.includes(map[label]) && (
+                <option value={map[label]}>{map[label]}</option>
+              )}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
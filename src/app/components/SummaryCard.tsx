@@ -7,6 +7,7 @@ import { useRef, useEffect } from "react";
 import gsap from "gsap";
 import { HiSparkles, HiLightBulb } from "react-icons/hi2";
 import type { I18nStrings } from "../lib/i18n";
+import { Highlight } from "./Highlight";
 
 function splitSummary(summary: string): { keyInsight: string; context: string } {
   const t = summary.trim();
@@ -23,9 +24,11 @@ interface SummaryCardProps {
   t: Pick<I18nStrings, "summary" | "summarySubtitle" | "summaryNote">;
   /** When true, render content only (no card wrapper). Use inside Tabs. */
   bare?: boolean;
+  /** Search terms to highlight in the summary text */
+  highlightTerms?: string[];
 }
 
-export function SummaryCard({ summary, t, bare }: SummaryCardProps) {
+export function SummaryCard({ summary, t, bare, highlightTerms = [] }: SummaryCardProps) {
   const { keyInsight, context } = splitSummary(summary);
   const cardRef = useRef<HTMLDivElement>(null);
 
@@ -71,7 +74,7 @@ export function SummaryCard({ summary, t, bare }: SummaryCardProps) {
               <HiLightBulb className="h-8 w-8" />
             </div>
             <p className="relative text-base leading-relaxed text-zinc-800 dark:text-zinc-200">
-              {keyInsight}
+              <Highlight text={keyInsight} terms={highlightTerms} />
             </p>
           </div>
         )}
@@ -79,7 +82,7 @@ export function SummaryCard({ summary, t, bare }: SummaryCardProps) {
         {/* Supporting Context */}
         {context && (
           <p className="text-base leading-relaxed text-zinc-600 dark:text-zinc-400 pl-1">
-            {context}
+            <Highlight text={context} terms={highlightTerms} />
           </p>
         )}
 
@@ -0,0 +1,204 @@
+/**
+ * Transcript input for analysis without audio: paste text, or pick or drop
+ * a .txt, .vtt, .srt or .docx file (see transcriptImport.ts). Pasted
+ * subtitles are recognised as well. Shows word, cue and speaker counts of
+ * what will be analyzed.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import gsap from "gsap";
+import { HiDocumentText, HiXMark } from "react-icons/hi2";
+import {
+  ACCEPT_TRANSCRIPT,
+  TRANSCRIPT_MAX_BYTES,
+  TranscriptImportError,
+  parseTranscriptText,
+  readTranscriptFile,
+  type ImportedTranscript,
+  type TranscriptFormat,
+} from "../lib/transcriptImport";
+import { speakerLabels } from "../lib/speakers";
+import type { I18nStrings } from "../lib/i18n";
+
+type TranscriptInputStrings = Pick<
+  I18nStrings,
+  | "transcriptPlaceholder"
+  | "transcriptChooseFile"
+  | "transcriptFileHint"
+  | "transcriptReading"
+  | "transcriptWords"
+  | "transcriptCues"
+  | "transcriptSpeakers"
+  | "transcriptFormatText"
+  | "transcriptErrorFormat"
+  | "transcriptErrorSize"
+  | "transcriptErrorEmpty"
+  | "transcriptErrorRead"
+  | "removeFile"
+>;
+
+interface TranscriptInputProps {
+  value: ImportedTranscript | null;
+  onChange: (value: ImportedTranscript | null) => void;
+  disabled?: boolean;
+  t: TranscriptInputStrings;
+}
+
+const FORMAT_LABELS: Record<Exclude<TranscriptFormat, "text">, string> = {
+  vtt: "WebVTT",
+  srt: "SRT",
+  docx: "Word",
+};
+
+function importErrorMessage(error: unknown, fileName: string, t: TranscriptInputStrings): string {
+  const code = error instanceof TranscriptImportError ? error.code : "read";
+  const template = {
+    format: t.transcriptErrorFormat,
+    size: t.transcriptErrorSize,
+    empty: t.transcriptErrorEmpty,
+    read: t.transcriptErrorRead,
+  }[code];
+  return template
+    .replace("{file}", fileName)
+    .replace("{max}", `${Math.round(TRANSCRIPT_MAX_BYTES / (1024 * 1024))} MB`);
+}
+
+function transcriptStats(value: ImportedTranscript, t: TranscriptInputStrings): string {
+  const words = value.text.split(/\s+/).filter(Boolean).length;
+  const speakers = speakerLabels(value.segments).length;
+  return [
+    value.format === "text" ? t.transcriptFormatText : FORMAT_LABELS[value.format],
+    t.transcriptWords.replace("{count}", words.toLocaleString()),
+    value.segments?.length ? t.transcriptCues.replace("{count}", String(value.segments.length)) : null,
+    speakers > 0 ? t.transcriptSpeakers.replace("{count}", String(speakers)) : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function TranscriptInput({ value, onChange, disabled, t }: TranscriptInputProps) {
+  const [text, setText] = useState("");
+  const [reading, setReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [over, setOver] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Mount animation
+  useEffect(() => {
+    const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    if (prefersReducedMotion || !rootRef.current) return;
+    gsap.fromTo(rootRef.current, { opacity: 0, y: 10 }, { opacity: 1, y: 0, duration: 0.3, ease: "power2.out" });
+  }, []);
+
+  const handleText = (next: string) => {
+    setText(next);
+    setError(null);
+    onChange(next.trim() ? parseTranscriptText(next) : null);
+  };
+
+  const selectFile = useCallback(
+    async (file: File | undefined) => {
+      if (!file || disabled) return;
+      setError(null);
+      setReading(true);
+      try {
+        const imported = await readTranscriptFile(file);
+        setText("");
+        onChange(imported);
+      } catch (e) {
+        setError(importErrorMessage(e, file.name, t));
+      } finally {
+        setReading(false);
+      }
+    },
+    [disabled, onChange, t]
+  );
+
+  const fromFile = !!value?.name;
+
+  return (
+    <div ref={rootRef} className="space-y-3">
+      {fromFile && value ? (
+        <div className="flex items-center gap-3 rounded-2xl border-2 border-dashed border-emerald-300 bg-emerald-50/50 p-5 dark:border-emerald-700 dark:bg-emerald-950/20">
+          <span className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl bg-emerald-100 text-emerald-600 dark:bg-emerald-900/40 dark:text-emerald-400">
+            <HiDocumentText className="h-6 w-6" />
+          </span>
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-medium text-zinc-800 dark:text-zinc-200">{value.name}</p>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">{transcriptStats(value, t)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="shrink-0 cursor-pointer rounded-lg p-1.5 text-zinc-400 transition-colors hover:bg-red-100 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-400 disabled:cursor-not-allowed disabled:opacity-50 dark:hover:bg-red-900/30 dark:hover:text-red-400"
+            aria-label={t.removeFile}
+            title={t.removeFile}
+          >
+            <HiXMark className="h-5 w-5" />
+          </button>
+        </div>
+      ) : (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setOver(true);
+          }}
+          onDragLeave={() => setOver(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setOver(false);
+            selectFile(e.dataTransfer.files[0]);
+          }}
+          className={`rounded-2xl border-2 border-dashed p-4 transition-colors duration-300 ${
+            over && !disabled
+              ? "border-indigo-400 bg-indigo-50/60 dark:border-indigo-500 dark:bg-indigo-950/30"
+              : "border-zinc-200 bg-zinc-50/50 dark:border-zinc-700 dark:bg-zinc-800/30"
+          }`}
+        >
+          <textarea
+            value={text}
+            onChange={(e) => handleText(e.target.value)}
+            disabled={disabled || reading}
+            rows={8}
+            placeholder={t.transcriptPlaceholder}
+            aria-label={t.transcriptPlaceholder}
+            className="block w-full resize-y rounded-xl border border-zinc-200 bg-white px-4 py-3 text-sm leading-relaxed text-zinc-700 placeholder:text-zinc-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-60 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-200"
+          />
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span className="flex flex-wrap items-center gap-2 text-zinc-500 dark:text-zinc-400">
+              <label
+                className={`inline-flex items-center gap-1.5 rounded-lg border border-zinc-200 bg-white px-3 py-1.5 font-medium text-zinc-700 transition-colors dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 ${
+                  disabled || reading
+                    ? "cursor-not-allowed opacity-50"
+                    : "cursor-pointer hover:border-indigo-300 hover:text-indigo-700 dark:hover:border-indigo-700 dark:hover:text-indigo-300"
+                }`}
+              >
+                <HiDocumentText className="h-4 w-4" />
+                {t.transcriptChooseFile}
+                <input
+                  type="file"
+                  accept={ACCEPT_TRANSCRIPT}
+                  onChange={(e) => {
+                    selectFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                  disabled={disabled || reading}
+                  className="sr-only"
+                />
+              </label>
+              {reading ? t.transcriptReading : t.transcriptFileHint}
+            </span>
+            {value && <span className="text-zinc-500 dark:text-zinc-400">{transcriptStats(value, t)}</span>}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="rounded-xl border border-red-200 bg-red-50/50 p-3 text-sm text-red-600 dark:border-red-800/50 dark:bg-red-950/20 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * Transcript as timestamped segments, grouped into speaker turns when the
+ * segments are diarized. Clicking a segment seeks the meeting audio when a
+ * player is available; the segment being played is highlighted.
+ * Falls back to the flat transcript text when there are no segments.
+ * Bookmarks and notes taken while recording are shown before the segment
+ * they precede, or listed above a flat transcript.
+ */
+
+import { Fragment } from "react";
+import { HiBookmark } from "react-icons/hi2";
+import type { TranscriptSegment } from "../lib/api";
+import { formatTimestamp } from "../lib/format";
+import { sortMarkers, type RecordingMarker } from "../lib/markers";
+import { hasSpeakers, speakerName, speakerTurns, type SpeakerMap } from "../lib/speakers";
+import { Highlight } from "./Highlight";
+
+interface TranscriptViewProps {
+  text: string;
+  segments?: TranscriptSegment[];
+  /** Seek the audio player; timestamps are plain labels when omitted */
+  onSeek?: (seconds: number) => void;
+  /** Current player position in seconds */
+  currentTime?: number;
+  /** Shown when there is neither text nor segments */
+  emptyLabel: string;
+  /** Label for the seek buttons, e.g. "Play from" */
+  seekLabel: string;
+  highlightTerms?: string[];
+  /** Speaker label → participant name */
+  speakerMap?: SpeakerMap;
+  variant?: "clean" | "raw";
+  className?: string;
+  title?: string;
+  /** Bookmarks and notes from the recording */
+  markers?: RecordingMarker[];
+  /** Shown for a bookmark without a note */
+  bookmarkLabel?: string;
+}
+
+const CONTAINER_CLASSES = {
+  clean:
+    "rounded-xl border border-zinc-200/60 bg-zinc-50/50 px-5 py-5 text-base leading-relaxed text-zinc-700 dark:border-zinc-700/60 dark:bg-zinc-800/50 dark:text-zinc-300",
+  raw: "rounded-xl border border-zinc-200/60 bg-zinc-100/80 px-5 py-4 text-sm leading-relaxed text-zinc-600 dark:border-zinc-700/60 dark:bg-zinc-800/80 dark:text-zinc-400",
+};
+
+export function TranscriptView({
+  text,
+  segments,
+  onSeek,
+  currentTime,
+  emptyLabel,
+  seekLabel,
+  highlightTerms = [],
+  speakerMap,
+  variant = "clean",
+  className = "max-h-[500px]",
+  title,
+  markers = [],
+  bookmarkLabel = "",
+}: TranscriptViewProps) {
+  const containerClasses = `${className} overflow-auto ${CONTAINER_CLASSES[variant]}`;
+  const sortedMarkers = sortMarkers(markers);
+
+  const renderMarker = (marker: RecordingMarker, key: number) => {
+    const stamp = formatTimestamp(marker.at);
+    return (
+      <li
+        key={`marker-${key}`}
+        className="flex items-start gap-3 rounded-lg bg-amber-50 px-2 py-1 text-sm text-amber-800 dark:bg-amber-950/30 dark:text-amber-300"
+      >
+        {onSeek ? (
+          <button
+            type="button"
+            onClick={() => onSeek(marker.at)}
+            className="mt-0.5 inline-flex shrink-0 cursor-pointer items-center gap-1 rounded-md bg-amber-100 px-1.5 py-0.5 font-mono text-xs font-medium tabular-nums transition-colors hover:bg-amber-200 dark:bg-amber-900/40 dark:hover:bg-amber-900/70"
+            aria-label={`${seekLabel} ${stamp}`}
+          >
+            <HiBookmark className="h-3 w-3" />
+            {stamp}
+          </button>
+        ) : (
+          <span className="mt-0.5 inline-flex shrink-0 items-center gap-1 rounded-md bg-amber-100 px-1.5 py-0.5 font-mono text-xs font-medium tabular-nums dark:bg-amber-900/40">
+            <HiBookmark className="h-3 w-3" />
+            {stamp}
+          </span>
+        )}
+        <span className="min-w-0 flex-1 whitespace-pre-wrap font-medium">
+          {marker.note ? <Highlight text={marker.note} terms={highlightTerms} /> : bookmarkLabel}
+        </span>
+      </li>
+    );
+  };
+
+  if (!segments?.length) {
+    const body = text.trim() ? <Highlight text={text.trim()} terms={highlightTerms} /> : emptyLabel;
+    const markerList = sortedMarkers.length > 0 && (
+      <ol className="mb-4 space-y-1 font-sans">{sortedMarkers.map(renderMarker)}</ol>
+    );
+    return variant === "raw" ? (
+      <pre className={`${containerClasses} whitespace-pre-wrap`} title={title}>
+        {markerList}
+        {body}
+      </pre>
+    ) : (
+      <div className={`${containerClasses} whitespace-pre-wrap`} title={title}>
+        {markerList}
+        {body}
+      </div>
+    );
+  }
+
+  // Each marker goes before the first segment that starts after it
+  const markersBefore = new Map<TranscriptSegment, RecordingMarker[]>();
+  const trailingMarkers: RecordingMarker[] = [];
+  for (const marker of sortedMarkers) {
+    const next = segments.find((segment) => segment.start > marker.at);
+    if (!next) trailingMarkers.push(marker);
+    else markersBefore.set(next, [...(markersBefore.get(next) ?? []), marker]);
+  }
+
+  const renderSegment = (segment: TranscriptSegment, key: number) => (
+    <Fragment key={key}>
+      {markersBefore.get(segment)?.map(renderMarker)}
+      {renderSegmentLine(segment)}
+    </Fragment>
+  );
+
+  const renderSegmentLine = (segment: TranscriptSegment) => {
+    const active =
+      currentTime !== undefined && currentTime >= segment.start && currentTime < segment.end;
+    const stamp = formatTimestamp(segment.start);
+    return (
+      <li
+        className={`flex items-start gap-3 rounded-lg px-2 py-1 transition-colors ${
+          active ? "bg-indigo-50 dark:bg-indigo-950/40" : ""
+        }`}
+      >
+        {onSeek ? (
+          <button
+            type="button"
+            onClick={() => onSeek(segment.start)}
+            className="mt-0.5 shrink-0 cursor-pointer rounded-md bg-indigo-50 px-1.5 py-0.5 font-mono text-xs font-medium text-indigo-600 tabular-nums transition-colors hover:bg-indigo-100 dark:bg-indigo-900/40 dark:text-indigo-300 dark:hover:bg-indigo-900/70"
+            aria-label={`${seekLabel} ${stamp}`}
+          >
+            {stamp}
+          </button>
+        ) : (
+          <span className="mt-0.5 shrink-0 rounded-md bg-zinc-200/60 px-1.5 py-0.5 font-mono text-xs text-zinc-500 tabular-nums dark:bg-zinc-700/60 dark:text-zinc-400">
+            {stamp}
+          </span>
+        )}
+        <span className="min-w-0 flex-1 whitespace-pre-wrap">
+          <Highlight text={segment.text.trim()} terms={highlightTerms} />
+        </span>
+      </li>
+    );
+  };
+
+  if (!hasSpeakers(segments)) {
+    return (
+      <ol className={`${containerClasses} space-y-1`} title={title}>
+        {segments.map(renderSegment)}
+        {trailingMarkers.map(renderMarker)}
+      </ol>
+    );
+  }
+
+  return (
+    <div className={`${containerClasses} space-y-4`} title={title}>
+      {speakerTurns(segments).map((turn, i) => (
+        <section key={i}>
+          {turn.speaker && (
+            <p className="mb-1 px-2 text-sm font-semibold text-violet-700 dark:text-violet-300">
+              <Highlight text={speakerName(turn.speaker, speakerMap)} terms={highlightTerms} />
+            </p>
+          )}
+          <ol className="space-y-1">{turn.segments.map(renderSegment)}</ol>
+        </section>
+      ))}
+      {trailingMarkers.length > 0 && <ol className="space-y-1">{trailingMarkers.map(renderMarker)}</ol>}
+    </div>
+  );
+}
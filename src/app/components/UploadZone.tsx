@@ -1,14 +1,38 @@
 /**
  * Premium drag-and-drop upload zone with GSAP animations.
  * States: empty, drag hover, file selected, error.
- * Supports all common audio formats: MP3, WAV, M4A, AAC, OGG, FLAC, WEBM, MP4
+ * Formats come from the backend's supported-formats list. Files are decoded
+ * before they're accepted (see audioValidation.ts), and the selected file
+ * shows its duration, channels and a waveform thumbnail.
+ * With onSelectMany, several files can be dropped or picked at once.
  */
 
 import { useCallback, useState, useRef, useEffect } from "react";
 import gsap from "gsap";
-import { ACCEPT_AUDIO, AUDIO_FILE_REGEX, AUDIO_FORMATS_DISPLAY } from "../lib/constants";
+import { ACCEPT_AUDIO, AUDIO_FORMATS_DISPLAY } from "../lib/constants";
+import {
+  AudioValidationError,
+  getAllowedExtensions,
+  inspectAudioFile,
+  type AudioInfo,
+} from "../lib/audioValidation";
+import { formatBytes, formatTimestamp } from "../lib/format";
+import type { I18nStrings } from "../lib/i18n";
 import { HiCloudArrowUp, HiMusicalNote, HiCheckCircle } from "react-icons/hi2";
 
+type UploadZoneStrings = Pick<
+  I18nStrings,
+  | "audioChecking"
+  | "audioErrorFormat"
+  | "audioErrorSize"
+  | "audioErrorDuration"
+  | "audioErrorDecode"
+  | "audioErrorSilent"
+  | "audioMono"
+  | "audioStereo"
+  | "audioChannels"
+>;
+
 interface UploadZoneProps {
   accept?: string;
   onSelect: (file: File) => void;
@@ -18,11 +42,67 @@ interface UploadZoneProps {
   selectedFile?: File | null;
   removeFileLabel?: string;
   clickOrDragToReplaceLabel?: string;
+  /** Receives every valid file when more than one is dropped or picked */
+  onSelectMany?: (files: File[]) => void;
+  t: UploadZoneStrings;
+}
+
+function channelsLabel(channels: number, t: UploadZoneStrings): string {
+  if (channels === 1) return t.audioMono;
+  if (channels === 2) return t.audioStereo;
+  return t.audioChannels.replace("{count}", String(channels));
+}
+
+function validationMessage(error: unknown, fileName: string, formats: string, t: UploadZoneStrings): string {
+  if (!(error instanceof AudioValidationError)) return t.audioErrorDecode.replace("{file}", fileName);
+  const file = error.fileName;
+  switch (error.code) {
+    case "format":
+      return t.audioErrorFormat.replace("{file}", file).replace("{formats}", formats);
+    case "size":
+      return t.audioErrorSize
+        .replace("{file}", file)
+        .replace("{size}", formatBytes(error.actual ?? 0))
+        .replace("{max}", formatBytes(error.max ?? 0));
+    case "duration":
+      return t.audioErrorDuration
+        .replace("{file}", file)
+        .replace("{duration}", formatTimestamp(error.actual ?? 0))
+        .replace("{max}", formatTimestamp(error.max ?? 0));
+    case "decode":
+      return t.audioErrorDecode.replace("{file}", file);
+    case "silent":
+      return t.audioErrorSilent.replace("{file}", file);
+  }
+}
+
+// Peak bars of the decoded audio
+function WaveformThumbnail({ peaks }: { peaks: number[] }) {
+  const width = peaks.length * 3;
+  return (
+    <svg
+      viewBox={`0 0 ${width} 24`}
+      className="mx-auto h-8 w-48 text-emerald-500 dark:text-emerald-400"
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      {peaks.map((peak, i) => {
+        const h = Math.max(1, peak * 24);
+        return <rect key={i} x={i * 3} y={(24 - h) / 2} width={2} height={h} rx={1} fill="currentColor" />;
+      })}
+    </svg>
+  );
 }
 
-export function UploadZone({ accept = ACCEPT_AUDIO, onSelect, onRemove, disabled, hint, selectedFile, removeFileLabel = "Remove file", clickOrDragToReplaceLabel = "Click or drag to replace" }: UploadZoneProps) {
+export function UploadZone({ accept, onSelect, onRemove, disabled, hint, selectedFile, removeFileLabel = "Remove file", clickOrDragToReplaceLabel = "Click or drag to replace", onSelectMany, t }: UploadZoneProps) {
   const [over, setOver] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const error = errors.length > 0;
+  const [checking, setChecking] = useState(false);
+  const [fileInfo, setFileInfo] = useState<{ file: File; info: AudioInfo } | null>(null);
+  /** Backend formats, null until loaded */
+  const [extensions, setExtensions] = useState<string[] | null>(null);
+  const selectionRef = useRef(0);
   const zoneRef = useRef<HTMLLabelElement>(null);
   const iconRef = useRef<HTMLSpanElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
@@ -72,24 +152,61 @@ export function UploadZone({ accept = ACCEPT_AUDIO, onSelect, onRemove, disabled
     }
   }, [selectedFile]);
 
-  const validateFile = useCallback((file: File): boolean => {
-    return AUDIO_FILE_REGEX.test(file.name);
+  useEffect(() => {
+    let active = true;
+    getAllowedExtensions().then((list) => {
+      if (active) setExtensions(list);
+    });
+    return () => {
+      active = false;
+    };
   }, []);
 
+  const formatsDisplay = extensions ? extensions.map((ext) => ext.toUpperCase()).join(", ") : AUDIO_FORMATS_DISPLAY;
+  const acceptValue = accept ?? (extensions ? extensions.map((ext) => `.${ext}`).join(",") : ACCEPT_AUDIO);
+
+  // Files are checked one at a time to keep decoding memory low
+  const selectFiles = useCallback(
+    async (list: FileList | null) => {
+      const all = Array.from(list ?? []);
+      const files = onSelectMany ? all : all.slice(0, 1);
+      if (files.length === 0) return;
+      const selection = ++selectionRef.current;
+      setChecking(true);
+
+      const valid: { file: File; info: AudioInfo }[] = [];
+      const messages: string[] = [];
+      for (const file of files) {
+        try {
+          valid.push({ file, info: await inspectAudioFile(file) });
+        } catch (e) {
+          messages.push(validationMessage(e, file.name, formatsDisplay, t));
+        }
+      }
+      // A newer selection replaced this one
+      if (selection !== selectionRef.current) return;
+
+      setChecking(false);
+      setErrors(messages);
+      if (valid.length > 1 && onSelectMany) {
+        onSelectMany(valid.map((v) => v.file));
+      } else if (valid[0]) {
+        setFileInfo(valid[0]);
+        onSelect(valid[0].file);
+      }
+    },
+    [onSelect, onSelectMany, formatsDisplay, t]
+  );
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
       setOver(false);
-      setError(null);
-      if (disabled) return;
-      const f = e.dataTransfer.files[0];
-      if (f && validateFile(f)) {
-        onSelect(f);
-      } else if (f) {
-        setError(`Unsupported format. Please use: ${AUDIO_FORMATS_DISPLAY}`);
-      }
+      setErrors([]);
+      if (disabled || checking) return;
+      selectFiles(e.dataTransfer.files);
     },
-    [disabled, onSelect, validateFile]
+    [disabled, checking, selectFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -104,19 +221,14 @@ export function UploadZone({ accept = ACCEPT_AUDIO, onSelect, onRemove, disabled
 
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      setError(null);
-      const f = e.target.files?.[0];
-      if (f) onSelect(f);
+      setErrors([]);
+      selectFiles(e.target.files);
       e.target.value = "";
     },
-    [onSelect]
+    [selectFiles]
   );
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-  };
+  const info = fileInfo && fileInfo.file === selectedFile ? fileInfo.info : null;
 
   return (
     <label
@@ -138,9 +250,10 @@ export function UploadZone({ accept = ACCEPT_AUDIO, onSelect, onRemove, disabled
     >
       <input
         type="file"
-        accept={accept}
+        accept={acceptValue}
+        multiple={!!onSelectMany}
         onChange={handleChange}
-        disabled={disabled}
+        disabled={disabled || checking}
         className="sr-only"
       />
       
@@ -181,8 +294,15 @@ export function UploadZone({ accept = ACCEPT_AUDIO, onSelect, onRemove, disabled
                 )}
               </p>
               <p className="text-sm text-zinc-500 dark:text-zinc-400">
-                {formatFileSize(selectedFile.size)}
+                {[
+                  formatBytes(selectedFile.size),
+                  info?.duration != null ? formatTimestamp(info.duration) : null,
+                  info?.channels ? channelsLabel(info.channels, t) : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
               </p>
+              {info?.peaks && <WaveformThumbnail peaks={info.peaks} />}
               <p className="text-xs text-indigo-600 dark:text-indigo-400">
                 {clickOrDragToReplaceLabel}
               </p>
@@ -210,16 +330,23 @@ export function UploadZone({ accept = ACCEPT_AUDIO, onSelect, onRemove, disabled
               </p>
               <p className="text-sm text-zinc-500 dark:text-zinc-400">{hint}</p>
               <p className="text-xs text-zinc-400 dark:text-zinc-500">
-                {AUDIO_FORMATS_DISPLAY}
+                {formatsDisplay}
               </p>
             </div>
           </>
         )}
 
-        {/* Error state */}
-        {error && (
-          <p className="mt-3 text-sm font-medium text-red-600 dark:text-red-400">{error}</p>
+        {checking && (
+          <p className="mt-3 flex items-center justify-center gap-2 text-sm text-zinc-500 dark:text-zinc-400" aria-live="polite">
+            <span className="h-4 w-4 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />
+            {t.audioChecking}
+          </p>
         )}
+
+        {/* Error state */}
+        {errors.map((message) => (
+          <p key={message} className="mt-3 text-sm font-medium text-red-600 dark:text-red-400">{message}</p>
+        ))}
       </div>
     </label>
   );
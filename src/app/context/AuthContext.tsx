@@ -193,14 +193,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const authUser = apiUserToAuthUser(response.user);
       
       // Migrate guest meetings
-      const guestMeetings = getHistory();
-      if (guestMeetings.length > 0) {
-        try {
+      try {
+        const guestMeetings = await getHistory();
+        if (guestMeetings.length > 0) {
           await authApi.migrateMeetings(guestMeetings);
-          clearGuestHistory();
-        } catch (e) {
-          console.error("[Auth] Failed to migrate meetings:", e);
+          await clearGuestHistory();
         }
+      } catch (e) {
+        console.error("[Auth] Failed to migrate meetings:", e);
       }
       
       setUser(authUser);
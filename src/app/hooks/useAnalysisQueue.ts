@@ -0,0 +1,196 @@
+/**
+ * Queue of audio files analyzed one after another.
+ *
+ * Each file runs through processMeeting with its own status and progress, and
+ * is stored as a pending job like a single analysis. Before each file the
+ * daily limit is checked; when it is reached the remaining files are marked
+ * "blocked" and the queue stops until it is started again.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ApiRequestError, isTransientError, processMeeting, type ApiResult } from "../lib/api";
+import { addPendingJob, removePendingJob } from "../lib/storage";
+import { isAbortError, UploadError } from "../lib/upload";
+
+export type QueueItemStatus = "waiting" | "uploading" | "processing" | "done" | "failed" | "blocked" | "cancelled";
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  /** Upload or server progress 0–1, null when unknown */
+  progress: number | null;
+  error?: string;
+  /** History entry of a finished analysis */
+  historyId?: string;
+}
+
+export interface LimitStatus {
+  canProceed: boolean;
+  isRegistered: boolean;
+  limit: number;
+}
+
+interface QueueHandlers {
+  checkLimit: () => LimitStatus;
+  /** Save a finished analysis; resolves to its history id, or null if saving failed */
+  onComplete: (file: File, language: string, result: ApiResult) => Promise<string | null>;
+  /** Called when the daily limit stops the queue */
+  onLimitReached: (status: LimitStatus) => void;
+}
+
+/** Statuses that can be queued again */
+const RESTARTABLE: QueueItemStatus[] = ["failed", "blocked", "cancelled"];
+
+let nextId = 0;
+
+export function useAnalysisQueue(handlers: QueueHandlers) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const [language, setLanguage] = useState("en");
+  const busyRef = useRef(false);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const patch = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  /** Hold every waiting file and stop the queue */
+  const stopAtLimit = useCallback((status: LimitStatus) => {
+    setItems((prev) => prev.map((item) => (item.status === "waiting" ? { ...item, status: "blocked" } : item)));
+    setRunning(false);
+    handlersRef.current.onLimitReached(status);
+  }, []);
+
+  const runItem = useCallback(
+    async (item: QueueItem) => {
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+      patch(item.id, { status: "uploading", progress: 0, error: undefined });
+      let jobId: string | null = null;
+
+      try {
+        const data = await processMeeting(item.file, language, {
+          signal: controller.signal,
+          onProgress: (p) =>
+            patch(
+              item.id,
+              p.phase === "uploading"
+                ? { status: "uploading", progress: p.total > 0 ? p.loaded / p.total : null }
+                : { status: "processing", progress: null }
+            ),
+          onJobCreated: (job) => {
+            jobId = job.job_id;
+            addPendingJob({
+              jobId,
+              fileName: item.file.name,
+              outputLanguage: language,
+              createdAt: new Date().toISOString(),
+            });
+          },
+          onJobStatus: (job) => patch(item.id, { status: "processing", progress: job.progress ?? null }),
+        });
+        if (jobId) removePendingJob(jobId);
+
+        const historyId = await handlersRef.current.onComplete(item.file, language, data);
+        patch(item.id, { status: "done", progress: 1, historyId: historyId ?? undefined });
+      } catch (e) {
+        if (isAbortError(e)) {
+          patch(item.id, { status: "cancelled", progress: null });
+          return;
+        }
+        if (jobId && !isTransientError(e)) removePendingJob(jobId);
+        // The server enforces the daily limit too
+        if ((e instanceof UploadError || e instanceof ApiRequestError) && e.status === 429) {
+          patch(item.id, { status: "blocked", progress: null });
+          stopAtLimit({ ...handlersRef.current.checkLimit(), canProceed: false });
+          return;
+        }
+        patch(item.id, { status: "failed", progress: null, error: e instanceof Error ? e.message : String(e) });
+      } finally {
+        controllersRef.current.delete(item.id);
+      }
+    },
+    [language, patch, stopAtLimit]
+  );
+
+  // Start the next waiting file whenever the queue is idle
+  useEffect(() => {
+    if (!running || busyRef.current) return;
+    const next = items.find((item) => item.status === "waiting");
+    if (!next) {
+      setRunning(false);
+      return;
+    }
+
+    const limit = handlersRef.current.checkLimit();
+    if (!limit.canProceed) {
+      stopAtLimit(limit);
+      return;
+    }
+
+    busyRef.current = true;
+    runItem(next).finally(() => {
+      busyRef.current = false;
+      // Re-run this effect for the next file
+      setItems((prev) => prev.slice());
+    });
+  }, [running, items, runItem, stopAtLimit]);
+
+  // Stop uploads when leaving the page; submitted jobs stay pending
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      for (const controller of controllers.values()) controller.abort();
+    };
+  }, []);
+
+  const add = useCallback((files: File[]) => {
+    setItems((prev) => [
+      ...prev,
+      ...files.map((file) => ({ id: `queue-${++nextId}`, file, status: "waiting" as const, progress: null })),
+    ]);
+  }, []);
+
+  /** Start (or resume) processing with the given output language */
+  const start = useCallback((outputLanguage: string) => {
+    setLanguage(outputLanguage);
+    setItems((prev) =>
+      prev.map((item) => (item.status === "blocked" ? { ...item, status: "waiting", error: undefined } : item))
+    );
+    setRunning(true);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.id === id && RESTARTABLE.includes(item.status)
+          ? { ...item, status: "waiting", progress: null, error: undefined }
+          : item
+      )
+    );
+    setRunning(true);
+  }, []);
+
+  /** Cancel a running file; it can be retried */
+  const cancel = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  /** Remove finished files */
+  const clearDone = useCallback(() => {
+    setItems((prev) => prev.filter((item) => item.status !== "done"));
+  }, []);
+
+  return { items, running, add, start, retry, cancel, remove, clearDone };
+}
@@ -0,0 +1,60 @@
+/**
+ * Live input level of a MediaStream, for the recorder's level meter.
+ *
+ * `level` is the RMS of the signal scaled to 0–1. `silent` turns true once
+ * the level has stayed below the noise floor for `silenceMs` while active,
+ * e.g. because the microphone is muted.
+ */
+
+import { useEffect, useState } from "react";
+
+/** RMS below this counts as no sound (about -50 dBFS) */
+const NOISE_FLOOR = 0.003;
+/** Level updates per second; enough for a meter without re-rendering every frame */
+const UPDATES_PER_SECOND = 15;
+
+export function useAudioLevel(stream: MediaStream | null, active: boolean, silenceMs = 5000) {
+  const [level, setLevel] = useState(0);
+  const [silent, setSilent] = useState(false);
+
+  useEffect(() => {
+    if (!stream || !active) {
+      setLevel(0);
+      setSilent(false);
+      return;
+    }
+
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+    const data = new Float32Array(analyser.fftSize);
+
+    let lastSound = performance.now();
+    let lastUpdate = 0;
+    let frame = requestAnimationFrame(function tick(now) {
+      frame = requestAnimationFrame(tick);
+      if (now - lastUpdate < 1000 / UPDATES_PER_SECOND) return;
+      lastUpdate = now;
+
+      analyser.getFloatTimeDomainData(data);
+      let sum = 0;
+      for (let i = 0; i < data.length; i++) sum += data[i]! * data[i]!;
+      const rms = Math.sqrt(sum / data.length);
+      if (rms > NOISE_FLOOR) lastSound = now;
+
+      // Speech sits around 0.05–0.3 RMS; scale so normal talking fills most of the meter
+      setLevel(Math.min(1, rms * 4));
+      setSilent(now - lastSound > silenceMs);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [stream, active, silenceMs]);
+
+  return { level, silent };
+}
@@ -0,0 +1,28 @@
+/**
+ * Imperative handle for an <audio> element: current position and seek.
+ * Spread `audioProps` onto the element.
+ */
+
+import { useCallback, useRef, useState } from "react";
+
+export function useAudioPlayer() {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const onTimeUpdate = useCallback(() => {
+    setCurrentTime(audioRef.current?.currentTime ?? 0);
+  }, []);
+
+  /** Jump to `seconds` and start playing. */
+  const seek = useCallback((seconds: number) => {
+    const el = audioRef.current;
+    if (!el) return;
+    el.currentTime = seconds;
+    setCurrentTime(seconds);
+    el.play().catch(() => {
+      // Autoplay refused; position is still set
+    });
+  }, []);
+
+  return { audioProps: { ref: audioRef, onTimeUpdate }, currentTime, seek };
+}
@@ -1,42 +1,237 @@
 /**
- * History from localStorage. Append newest first; update exports; delete; clear.
+ * Meeting history, newest first.
+ *
+ * Guests: IndexedDB (append, update exports, delete, clear); `add` rejects
+ * with StorageFullError when the browser quota is used up.
+ * Signed-in users: auth/meetings endpoints. The server stores meetings as they
+ * are analyzed, so `add` only updates the in-memory list; export badges are
+ * saved with a meeting update. Deletes are optimistic and rolled back if the
+ * request fails.
+ * Deleting a meeting also deletes its stored audio, if any.
  */
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as authApi from "../lib/authApi";
+import { clearAudio, deleteAudio } from "../lib/audioStore";
+import { useAuthContext } from "../context/AuthContext";
 import {
   addHistoryItem,
   clearHistory as clearStorage,
   deleteHistoryItem,
   getHistory,
   updateHistoryExports,
+  updateHistoryItem,
+  type ExportFormat,
   type HistoryItem,
+  type HistoryItemPatch,
 } from "../lib/storage";
 
+export type HistoryUpdateResult = "saved" | "failed" | "unsupported";
+
+function sortNewestFirst(items: HistoryItem[]): HistoryItem[] {
+  return items
+    .slice()
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+function errorDetail(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  const detail = (e as authApi.ApiError | null)?.detail;
+  return typeof detail === "string" ? detail : "";
+}
+
 export function useHistory() {
-  const [items, setItems] = useState<HistoryItem[]>(() => getHistory());
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Ignore responses from requests made under a previous auth state
+  const requestIdRef = useRef(0);
+
+  // Latest list including optimistic updates not rendered yet, and the last
+  // write per meeting id
+  const itemsRef = useRef(items);
+  const writesRef = useRef(new Map<string, Promise<unknown>>());
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  const refresh = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setLoadError(null);
+
+    setLoading(true);
+    try {
+      if (!isAuthenticated) {
+        const history = await getHistory();
+        if (requestId !== requestIdRef.current) return;
+        setItems(history);
+        return;
+      }
+      const { meetings } = await authApi.getMeetings();
+      if (requestId !== requestIdRef.current) return;
+      setItems(sortNewestFirst(meetings.map(authApi.meetingToHistoryItem)));
+    } catch (e) {
+      if (requestId !== requestIdRef.current) return;
+      setLoadError(errorDetail(e));
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    refresh();
+  }, [authLoading, refresh]);
+
+  /**
+   * Save a meeting. Signed-in users' meetings are stored by the server, so
+   * `item.id` must be the server meeting id; without one there is nothing to
+   * update later and the save is rejected. Guests get a new local id.
+   */
+  const add = useCallback(
+    async (item: Omit<HistoryItem, "id"> & { id?: string }): Promise<HistoryItem> => {
+      if (!isAuthenticated) {
+        const entry = await addHistoryItem(item);
+        setItems((prev) => (prev.some((e) => e.id === entry.id) ? prev : sortNewestFirst([entry, ...prev])));
+        return entry;
+      }
+      const { id } = item;
+      if (!id) throw new Error("The server did not return a meeting id");
+      const entry: HistoryItem = { ...item, id };
+      setItems((prev) => [entry, ...prev]);
+      return entry;
+    },
+    [isAuthenticated]
+  );
+
+  const markExport = useCallback(
+    (id: string, format: ExportFormat) => {
+      const item = items.find((e) => e.id === id);
+      setItems((prev) =>
+        prev.map((e) => (e.id === id ? { ...e, exports: { ...e.exports, [format]: true } } : e))
+      );
+      const logError = (e: unknown) => console.error("[History] Failed to save export status:", e);
+      if (!isAuthenticated) {
+        updateHistoryExports(id, format).catch(logError);
+      } else if (item && !item.exports[format]) {
+        authApi.updateMeeting(id, { exports: { ...item.exports, [format]: true } }).catch(logError);
+      }
+    },
+    [isAuthenticated, items]
+  );
+
+  /**
+   * Apply user edits to one meeting. Optimistic; restores the previous values
+   * of the edited fields if the store or server rejects the update, resolving "unsupported" when
+   * the server has no endpoint for meeting updates.
+   *
+   * A function patch is computed from the latest copy of the meeting, so
+   * quick successive edits build on each other. Writes to the same meeting
+   * are sent one at a time, in order.
+   */
+  const update = useCallback(
+    async (
+      id: string,
+      patch: HistoryItemPatch | ((item: HistoryItem) => HistoryItemPatch)
+    ): Promise<HistoryUpdateResult> => {
+      const previous = itemsRef.current.find((e) => e.id === id);
+      const changes = typeof patch === "function" ? (previous ? patch(previous) : null) : patch;
+      if (!changes) return "failed";
+      const apply = (list: HistoryItem[]) => list.map((e) => (e.id === id ? { ...e, ...changes } : e));
+      itemsRef.current = apply(itemsRef.current);
+      setItems(apply);
+
+      const write = (writesRef.current.get(id) ?? Promise.resolve()).then(async () => {
+        if (isAuthenticated) {
+          await authApi.updateMeeting(id, changes);
+        } else {
+          await updateHistoryItem(id, changes);
+        }
+      });
+      writesRef.current.set(id, write.catch(() => {}));
 
-  const refresh = useCallback(() => setItems(getHistory()), []);
+      try {
+        await write;
+        return "saved";
+      } catch (e) {
+        if (previous) {
+          // Undo only the fields this edit set, and only where no later edit
+          // has replaced them since.
+          const rollback = (list: HistoryItem[]) =>
+            list.map((e) => {
+              if (e.id !== id) return e;
+              const restored = { ...e };
+              for (const key of Object.keys(changes) as (keyof HistoryItemPatch)[]) {
+                if (e[key] === changes[key]) Object.assign(restored, { [key]: previous[key] });
+              }
+              return restored;
+            });
+          itemsRef.current = rollback(itemsRef.current);
+          setItems(rollback);
+        }
+        return isAuthenticated && authApi.isMeetingUpdateUnsupported(e) ? "unsupported" : "failed";
+      }
+    },
+    [isAuthenticated]
+  );
 
-  const add = useCallback((item: Omit<HistoryItem, "id">) => {
-    const entry = addHistoryItem(item);
-    setItems(getHistory());
-    return entry;
-  }, []);
+  /**
+   * Delete one meeting. Resolves false (and restores the item) if the server
+   * or local store rejects the delete.
+   */
+  const remove = useCallback(
+    async (id: string): Promise<boolean> => {
+      const index = items.findIndex((e) => e.id === id);
+      const removed = items[index];
+      setItems((prev) => prev.filter((e) => e.id !== id));
 
-  const markExport = useCallback((id: string, format: "word" | "pdf") => {
-    updateHistoryExports(id, format);
-    setItems(getHistory());
-  }, []);
+      try {
+        if (isAuthenticated) {
+          await authApi.deleteMeeting(id);
+        } else {
+          await deleteHistoryItem(id);
+        }
+        deleteAudio(id).catch(() => {});
+        return true;
+      } catch {
+        if (removed) {
+          setItems((prev) => {
+            if (prev.some((e) => e.id === removed.id)) return prev;
+            const next = prev.slice();
+            next.splice(Math.min(index, next.length), 0, removed);
+            return next;
+          });
+        }
+        return false;
+      }
+    },
+    [isAuthenticated, items]
+  );
 
-  const remove = useCallback((id: string) => {
-    deleteHistoryItem(id);
-    setItems(getHistory());
-  }, []);
+  const clear = useCallback(async () => {
+    if (!isAuthenticated) {
+      setItems([]);
+      try {
+        await clearStorage();
+        await clearAudio();
+      } catch {
+        await refresh();
+      }
+      return;
+    }
 
-  const clear = useCallback(() => {
-    clearStorage();
+    const ids = items.map((e) => e.id);
     setItems([]);
-  }, []);
+    const results = await Promise.allSettled(
+      ids.map((id) => authApi.deleteMeeting(id).then(() => deleteAudio(id).catch(() => {})))
+    );
+    if (results.some((r) => r.status === "rejected")) {
+      await refresh();
+    }
+  }, [isAuthenticated, items, refresh]);
 
-  return { items, add, markExport, remove, clear, refresh };
+  return { items, loading, loadError, add, markExport, update, remove, clear, refresh };
 }
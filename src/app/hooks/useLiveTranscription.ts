@@ -0,0 +1,65 @@
+/**
+ * Live transcript preview for a recording in progress (see openLiveTranscription).
+ *
+ * `start` opens a session for a new recording, `send` forwards each recorded
+ * chunk and `finish` waits for the last text once recording stops. A failed
+ * session only ends the preview; the recording itself carries on.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  EMPTY_LIVE_TRANSCRIPT,
+  openLiveTranscription,
+  type LiveTranscript,
+  type LiveTranscriptionSession,
+} from "../lib/api";
+
+export type LiveTranscriptionStatus = "idle" | "live" | "finishing" | "done" | "failed";
+
+export function useLiveTranscription() {
+  const [transcript, setTranscript] = useState<LiveTranscript>(EMPTY_LIVE_TRANSCRIPT);
+  const [status, setStatus] = useState<LiveTranscriptionStatus>("idle");
+  const sessionRef = useRef<LiveTranscriptionSession | null>(null);
+
+  useEffect(() => () => sessionRef.current?.close(), []);
+
+  const start = useCallback((mimeType: string) => {
+    sessionRef.current?.close();
+    setTranscript(EMPTY_LIVE_TRANSCRIPT);
+    setStatus("live");
+    // Callbacks from a replaced session are ignored
+    const session: LiveTranscriptionSession = openLiveTranscription({
+      mimeType,
+      onTranscript: (next) => {
+        if (sessionRef.current === session) setTranscript(next);
+      },
+      onError: () => {
+        if (sessionRef.current === session) setStatus("failed");
+      },
+    });
+    sessionRef.current = session;
+  }, []);
+
+  const send = useCallback((chunk: Blob) => {
+    sessionRef.current?.send(chunk);
+  }, []);
+
+  const finish = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    setStatus((s) => (s === "failed" ? s : "finishing"));
+    const final = await session.finish();
+    if (sessionRef.current !== session) return;
+    setTranscript(final);
+    setStatus((s) => (s === "failed" ? s : "done"));
+  }, []);
+
+  const reset = useCallback(() => {
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    setTranscript(EMPTY_LIVE_TRANSCRIPT);
+    setStatus("idle");
+  }, []);
+
+  return { transcript, status, start, send, finish, reset };
+}
@@ -0,0 +1,100 @@
+/**
+ * Resume analysis jobs left pending by a closed tab or a dropped connection.
+ *
+ * Once auth state is known, every stored job is followed, each by one open
+ * tab only: a tab claims a job with a Web Lock and holds it while following,
+ * and other tabs leave that job alone. Finished jobs are removed from storage
+ * and passed to `onComplete`; jobs that failed or are
+ * unknown to the server are removed and passed to `onFail`. A transient
+ * failure (offline, 5xx) is reported too, but the job is kept for next time.
+ * Unmounting stops following and keeps the jobs.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { cancelMeetingJob, followMeetingJob, isTransientError, type ApiResult } from "../lib/api";
+import { getPendingJobs, removePendingJob, type PendingJob } from "../lib/storage";
+import { isAbortError } from "../lib/upload";
+import { useAuthContext } from "../context/AuthContext";
+
+interface PendingJobHandlers {
+  onComplete: (job: PendingJob, result: ApiResult) => void;
+  /** `kept` is true when the job stays stored and will be retried on the next visit */
+  onFail: (job: PendingJob, error: unknown, kept: boolean) => void;
+}
+
+/**
+ * Run `follow` while holding the job's lock. Resolves false without running
+ * it when another tab holds the lock. Without Web Locks, every tab follows.
+ */
+async function whileClaimed(jobId: string, follow: () => Promise<void>): Promise<boolean> {
+  if (!("locks" in navigator)) {
+    await follow();
+    return true;
+  }
+  return navigator.locks.request(`speechi.job.${jobId}`, { ifAvailable: true }, async (lock) => {
+    if (!lock) return false;
+    await follow();
+    return true;
+  });
+}
+
+export function usePendingJobs(handlers: PendingJobHandlers) {
+  const { isLoading: authLoading } = useAuthContext();
+  const [jobs, setJobs] = useState<PendingJob[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // Latest handlers, so jobs followed since mount report to current state
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (authLoading) return;
+    const pending = getPendingJobs();
+    if (pending.length === 0) return;
+
+    const controllers = controllersRef.current;
+
+    for (const job of pending) {
+      const controller = new AbortController();
+      controllers.set(job.jobId, controller);
+
+      whileClaimed(job.jobId, async () => {
+        // Another tab may have finished the job before this one got the lock
+        if (controller.signal.aborted || !getPendingJobs().some((j) => j.jobId === job.jobId)) return;
+        setJobs((prev) => [...prev, job]);
+        try {
+          const result = await followMeetingJob(job.jobId, { signal: controller.signal });
+          removePendingJob(job.jobId);
+          handlersRef.current.onComplete(job, result);
+        } catch (e) {
+          if (isAbortError(e)) return;
+          const kept = isTransientError(e);
+          if (!kept) removePendingJob(job.jobId);
+          handlersRef.current.onFail(job, e, kept);
+        }
+      })
+        .catch((e) => console.error("[PendingJobs] Failed to follow job:", e))
+        .finally(() => {
+          if (controllers.get(job.jobId) === controller) controllers.delete(job.jobId);
+          setJobs((prev) => prev.filter((j) => j.jobId !== job.jobId));
+        });
+    }
+
+    return () => {
+      for (const controller of controllers.values()) controller.abort();
+      controllers.clear();
+    };
+  }, [authLoading]);
+
+  /** Stop waiting for a job and cancel it on the server */
+  const cancel = useCallback((jobId: string) => {
+    controllersRef.current.get(jobId)?.abort();
+    removePendingJob(jobId);
+    cancelMeetingJob(jobId);
+    setJobs((prev) => prev.filter((j) => j.jobId !== jobId));
+  }, []);
+
+  return { jobs, cancel };
+}
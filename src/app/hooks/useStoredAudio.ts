@@ -0,0 +1,47 @@
+/**
+ * Stored source audio for one history entry, as an object URL for <audio>.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { deleteAudio, getAudio, type StoredAudio } from "../lib/audioStore";
+
+export function useStoredAudio(id: string) {
+  const [audio, setAudio] = useState<StoredAudio | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setLoading(true);
+
+    getAudio(id)
+      .then((record) => {
+        if (cancelled) return;
+        setAudio(record);
+        objectUrl = record ? URL.createObjectURL(record.blob) : null;
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setAudio(null);
+        setUrl(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id]);
+
+  const remove = useCallback(async () => {
+    await deleteAudio(id);
+    setAudio(null);
+    setUrl(null);
+  }, [id]);
+
+  return { audio, url, loading, remove };
+}
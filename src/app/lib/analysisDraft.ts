@@ -0,0 +1,101 @@
+/**
+ * Editable copy of an analysis (summary, decisions, action items, transcripts).
+ *
+ * Uses HistoryItem field names so a saved draft is also a history patch.
+ * Transcripts with segments are edited per segment; the flat text is then
+ * rebuilt from the segments so both stay in sync.
+ */
+
+import type { ApiResult, TranscriptSegment } from "./api";
+import type { HistoryItem } from "./storage";
+
+export type AnalysisDraft = Pick<
+  HistoryItem,
+  "summary" | "decisions" | "actionItems" | "transcriptClean" | "transcriptRaw" | "segmentsClean" | "segmentsRaw"
+>;
+
+export function draftFromResult(result: ApiResult): AnalysisDraft {
+  const { analysis } = result;
+  return {
+    summary: analysis.summary ?? "",
+    decisions: analysis.decisions ?? [],
+    actionItems: (analysis.action_items ?? []).map((a) => ({
+      description: a.description,
+      owner: a.owner ?? null,
+    })),
+    transcriptClean: analysis.translated_transcript ?? "",
+    transcriptRaw: analysis.raw_transcript || result.transcript || "",
+    segmentsClean: analysis.translated_segments,
+    segmentsRaw: analysis.raw_segments ?? result.segments,
+  };
+}
+
+export function draftFromHistory(item: HistoryItem): AnalysisDraft {
+  return {
+    summary: item.summary,
+    decisions: item.decisions,
+    actionItems: item.actionItems,
+    transcriptClean: item.transcriptClean,
+    transcriptRaw: item.transcriptRaw,
+    segmentsClean: item.segmentsClean,
+    segmentsRaw: item.segmentsRaw,
+  };
+}
+
+function segmentsChanged(a: TranscriptSegment[] | undefined, b: TranscriptSegment[] | undefined): boolean {
+  if (!a || !b || a.length !== b.length) return a !== b;
+  return a.some((segment, i) => segment.text !== b[i]!.text);
+}
+
+function joinSegments(segments: TranscriptSegment[]): string {
+  return segments
+    .map((s) => s.text.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Normalize a draft for saving: trim text, drop empty decisions and action
+ * items, and rebuild transcript text from edited segments.
+ */
+export function finalizeDraft(draft: AnalysisDraft, original: AnalysisDraft): AnalysisDraft {
+  return {
+    summary: draft.summary.trim(),
+    decisions: draft.decisions.map((d) => d.trim()).filter(Boolean),
+    actionItems: draft.actionItems
+      .map((a) => ({ ...a, description: a.description.trim(), owner: a.owner?.trim() || null }))
+      .filter((a) => a.description),
+    transcriptClean:
+      draft.segmentsClean && segmentsChanged(draft.segmentsClean, original.segmentsClean)
+        ? joinSegments(draft.segmentsClean)
+        : draft.transcriptClean,
+    transcriptRaw:
+      draft.segmentsRaw && segmentsChanged(draft.segmentsRaw, original.segmentsRaw)
+        ? joinSegments(draft.segmentsRaw)
+        : draft.transcriptRaw,
+    segmentsClean: draft.segmentsClean,
+    segmentsRaw: draft.segmentsRaw,
+  };
+}
+
+/**
+ * Result with the draft's content, so views and exports use the edits.
+ * Top-level transcript/segments are replaced too since they back the raw view.
+ */
+export function applyDraftToResult(result: ApiResult, draft: AnalysisDraft): ApiResult {
+  return {
+    ...result,
+    transcript: draft.transcriptRaw,
+    segments: draft.segmentsRaw,
+    analysis: {
+      ...result.analysis,
+      summary: draft.summary,
+      decisions: draft.decisions,
+      action_items: draft.actionItems.map((a) => ({ description: a.description, owner: a.owner ?? null })),
+      translated_transcript: draft.transcriptClean,
+      raw_transcript: draft.transcriptRaw,
+      translated_segments: draft.segmentsClean,
+      raw_segments: draft.segmentsRaw,
+    },
+  };
+}
@@ -19,6 +19,8 @@
  */
 
 import { getToken } from "./authApi";
+import { sleep, UploadError, uploadWithProgress, type UploadProgress } from "./upload";
+import type { RecordingMarker } from "./markers";
 
 // ===========================================
 // Configuration
@@ -46,6 +48,15 @@ export interface ActionItem {
   owner?: string | null;
 }
 
+/** A timed piece of transcript. Times are in seconds from the start of the audio. */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  /** Generic diarization label ("Speaker 1"), when the backend provides it */
+  speaker?: string;
+}
+
 export interface Analysis {
   summary: string;
   participants: string[];
@@ -58,13 +69,21 @@ export interface Analysis {
   language?: string;
   /** True if translated_transcript is condensed due to transcript length */
   is_condensed?: boolean;
+  /** Timed segments of raw_transcript, when the backend provides them */
+  raw_segments?: TranscriptSegment[];
+  /** Timed segments of translated_transcript, when the backend provides them */
+  translated_segments?: TranscriptSegment[];
 }
 
 export interface ApiResult {
   /** Raw Whisper transcript (kept for backward compatibility) */
   transcript: string;
+  /** Timed segments of `transcript` (kept for backward compatibility) */
+  segments?: TranscriptSegment[];
   /** Structured analysis including both transcripts */
   analysis: Analysis;
+  /** Id of the stored meeting (authenticated requests only) */
+  meeting_id?: string;
 }
 
 export interface ApiError {
@@ -72,6 +91,69 @@ export interface ApiError {
   status: number;
 }
 
+export interface AnalyzeOptions {
+  /** Cancels the upload (and any pending retry) */
+  signal?: AbortSignal;
+  /** Upload percentage, then the server processing phase */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Bookmarks and notes taken while recording, sent along for the analysis */
+  markers?: RecordingMarker[];
+}
+
+export type MeetingJobStatus = "queued" | "processing" | "completed" | "failed";
+
+/** A server-side analysis job (see processMeeting). */
+export interface MeetingJob {
+  job_id: string;
+  status: MeetingJobStatus;
+  /** Server progress 0–1, when reported */
+  progress?: number | null;
+  /** Failure reason when status is "failed" */
+  error?: string | null;
+}
+
+/**
+ * Events streamed while a job runs (SSE or NDJSON from `jobs/{id}/events`).
+ * Transcript events carry the next chunk; decisions and action items arrive
+ * one at a time; `result` carries the complete ApiResult.
+ */
+export type MeetingStreamEvent =
+  | { type: "status"; status: MeetingJobStatus; progress?: number | null; error?: string | null }
+  | { type: "transcript"; text: string; segment?: TranscriptSegment }
+  | { type: "translated_transcript"; text: string; segment?: TranscriptSegment }
+  | { type: "summary"; summary: string }
+  | { type: "participants"; participants: string[] }
+  | { type: "decision"; decision: string }
+  | { type: "action_item"; action_item: ActionItem }
+  | { type: "result"; result: ApiResult }
+  | { type: "error"; detail: string };
+
+/** Analysis built up from stream events while the job runs. */
+export interface PartialAnalysis {
+  transcript: string;
+  segments: TranscriptSegment[];
+  translatedTranscript: string;
+  translatedSegments: TranscriptSegment[];
+  /** Undefined until produced */
+  summary?: string;
+  participants?: string[];
+  decisions: string[];
+  actionItems: ActionItem[];
+}
+
+export interface FollowJobOptions {
+  signal?: AbortSignal;
+  /** Called on every status poll or status event */
+  onJobStatus?: (job: MeetingJob) => void;
+  /** Called for every streamed event (not called while polling) */
+  onEvent?: (event: MeetingStreamEvent) => void;
+}
+
+export interface ProcessMeetingOptions extends AnalyzeOptions, FollowJobOptions {
+  /** Called once the upload is accepted, so the job id can be stored for resuming */
+  onJobCreated?: (job: MeetingJob) => void;
+}
+
 export interface HealthResponse {
   status: string;
   environment?: string;
@@ -83,6 +165,45 @@ export interface SupportedFormatsResponse {
   description: string;
 }
 
+/**
+ * Server messages on the live transcription socket (see openLiveTranscription).
+ * `partial` replaces the running guess for the current phrase; `final`
+ * commits text and clears it; `done` follows the client's stop message once
+ * every final has been sent.
+ */
+export type LiveTranscriptMessage =
+  | { type: "ready" }
+  | { type: "partial"; text: string }
+  | { type: "final"; text: string }
+  | { type: "error"; detail: string }
+  | { type: "done" };
+
+/** Rolling transcript built from live messages. */
+export interface LiveTranscript {
+  /** Committed text */
+  text: string;
+  /** Uncommitted guess for the phrase being spoken */
+  partial: string;
+}
+
+export interface LiveTranscriptionOptions {
+  /** Container of the recorded chunks, e.g. "audio/webm;codecs=opus" */
+  mimeType: string;
+  /** Called after every partial or final message */
+  onTranscript: (transcript: LiveTranscript) => void;
+  /** Called once when the session fails: error message, refused connection or unexpected close */
+  onError: (detail: string) => void;
+}
+
+export interface LiveTranscriptionSession {
+  /** Send the next recorded chunk; chunks sent before the socket opens are queued */
+  send: (chunk: Blob) => void;
+  /** Tell the server the recording ended and wait for its last finals (or the timeout) */
+  finish: (timeoutMs?: number) => Promise<LiveTranscript>;
+  /** Drop the connection without waiting */
+  close: () => void;
+}
+
 // ===========================================
 // Core API Functions
 // ===========================================
@@ -101,6 +222,30 @@ function buildUrl(endpoint: string): string {
   return `${cleanBase}/${cleanEndpoint}`;
 }
 
+/**
+ * A non-2xx API response, with its HTTP status.
+ */
+export class ApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = status;
+  }
+}
+
+/**
+ * True for failures worth retrying later: no response, or a 5xx response.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof TypeError) return true; // fetch network failure
+  if (error instanceof ApiRequestError || error instanceof UploadError) {
+    return error.status === 0 || error.status >= 500;
+  }
+  return false;
+}
+
 /**
  * Parse error response from API.
  */
@@ -145,68 +290,32 @@ async function apiFetch<T>(
   if (!response.ok) {
     const text = await response.text();
     const error = parseErrorResponse(text, response.status);
-    throw new Error(error.detail);
+    throw new ApiRequestError(error.detail, error.status);
   }
   
   return response.json() as Promise<T>;
 }
 
 /**
- * Fetch that returns a Blob (for file downloads).
- * Automatically includes auth token if available.
+ * Authorization header for the current user, if signed in.
  */
-async function apiFetchBlob(
-  endpoint: string,
-  options?: RequestInit
-): Promise<Blob> {
-  const url = buildUrl(endpoint);
-  
-  // Build headers with optional auth token
-  const headers: Record<string, string> = {
-    ...(options?.headers as Record<string, string>),
-  };
-  
+function authHeaders(): Record<string, string> {
   const token = getToken();
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
-  
-  const response = await fetch(url, {
-    ...options,
-    headers,
-  });
-  
-  if (!response.ok) {
-    const text = await response.text();
-    const error = parseErrorResponse(text, response.status);
-    throw new Error(error.detail);
-  }
-  
-  return response.blob();
+  return token ? { Authorization: `Bearer ${token}` } : {};
 }
 
 /**
  * Build FormData for audio upload endpoints.
+ * Recording markers go in a `markers` field as a JSON array of `{at, note?}`.
  */
-function buildAudioFormData(file: File, language: string): FormData {
+function buildAudioFormData(file: File, language: string, markers?: RecordingMarker[]): FormData {
   const formData = new FormData();
   formData.append("audio", file);
   formData.append("language", language);
+  if (markers?.length) formData.append("markers", JSON.stringify(markers));
   return formData;
 }
 
-/**
- * Trigger file download in browser.
- */
-function downloadBlob(blob: Blob, filename: string): void {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = filename;
-  link.click();
-  URL.revokeObjectURL(url);
-}
-
 // ===========================================
 // Public API Functions
 // ===========================================
@@ -229,54 +338,528 @@ export async function getSupportedFormats(): Promise<SupportedFormatsResponse> {
 /**
  * Analyze a meeting audio file.
  * Works with both uploaded files and browser recordings.
+ * Uploads with byte progress; network failures and 5xx responses are retried
+ * with backoff (see upload.ts).
  * 
  * @param file - Audio file (File object)
  * @param language - Output language code (en, he, fr, es, ar)
+ * @param options - Abort signal and progress callback
  * @returns Transcript and analysis results
+ * @throws UploadError on failure, or an AbortError DOMException when cancelled
  */
 export async function analyzeMeeting(
   file: File,
-  language: string
+  language: string,
+  options: AnalyzeOptions = {}
 ): Promise<ApiResult> {
-  return apiFetch<ApiResult>("process-meeting", {
-    method: "POST",
-    body: buildAudioFormData(file, language),
+  return uploadWithProgress<ApiResult>(buildUrl("process-meeting"), buildAudioFormData(file, language, options.markers), {
+    headers: authHeaders(),
+    signal: options.signal,
+    onProgress: options.onProgress,
   });
 }
 
+export interface AnalyzeTranscriptOptions {
+  signal?: AbortSignal;
+  /** Timed cues of the transcript (from VTT/SRT), when known */
+  segments?: TranscriptSegment[];
+}
+
 /**
- * Export meeting analysis as Word document.
- * Document headings and content are in the selected language.
- * 
- * @param file - Audio file (File object)
- * @param language - Output language code (en, he, fr, es, ar)
+ * Analyze an existing transcript (pasted or imported) without audio.
+ * Returns the same ApiResult as an audio analysis. When the response has no
+ * raw transcript or segments, the ones sent are filled in.
+ *
+ * @throws ApiRequestError on a non-2xx response, or an AbortError when cancelled
  */
-export async function exportWord(
-  file: File,
-  language: string
-): Promise<void> {
-  const blob = await apiFetchBlob("process-meeting/export-docx", {
+export async function analyzeTranscript(
+  transcript: string,
+  language: string,
+  options: AnalyzeTranscriptOptions = {}
+): Promise<ApiResult> {
+  const { signal, segments } = options;
+  const result = await apiFetch<ApiResult>("analyze-transcript", {
     method: "POST",
-    body: buildAudioFormData(file, language),
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ transcript, language, segments }),
+    signal,
   });
-  downloadBlob(blob, `meeting_summary_${language}.docx`);
+  return {
+    ...result,
+    transcript: result.transcript || transcript,
+    segments: result.segments ?? segments,
+    analysis: {
+      ...result.analysis,
+      raw_transcript: result.analysis.raw_transcript || transcript,
+      raw_segments: result.analysis.raw_segments ?? segments,
+    },
+  };
 }
 
+// ===========================================
+// Job-based processing
+// ===========================================
+
+/** Delay between job status polls */
+const JOB_POLL_INTERVAL_MS = 3000;
+
+/** Consecutive failed polls (network / 5xx) before giving up */
+const JOB_POLL_MAX_FAILURES = 5;
+
+/** Set once the API answers 404/405 for job submission */
+let jobsUnsupported = false;
+
+/** Set once the API answers 404/405 for a job event stream */
+let jobStreamUnsupported = false;
+
 /**
- * Export meeting analysis as PDF document.
- * Document headings and content are in the selected language.
- * RTL support for Hebrew and Arabic.
- * 
- * @param file - Audio file (File object)
- * @param language - Output language code (en, he, fr, es, ar)
+ * Upload a meeting for background analysis.
+ * Returns as soon as the server has accepted the file and created a job.
  */
-export async function exportPdf(
+export async function submitMeetingJob(
   file: File,
-  language: string
-): Promise<void> {
-  const blob = await apiFetchBlob("process-meeting/export-pdf", {
-    method: "POST",
-    body: buildAudioFormData(file, language),
+  language: string,
+  options: AnalyzeOptions = {}
+): Promise<MeetingJob> {
+  return uploadWithProgress<MeetingJob>(buildUrl("jobs"), buildAudioFormData(file, language, options.markers), {
+    headers: authHeaders(),
+    signal: options.signal,
+    onProgress: options.onProgress,
   });
-  downloadBlob(blob, `meeting_summary_${language}.pdf`);
+}
+
+export async function getMeetingJob(jobId: string, signal?: AbortSignal): Promise<MeetingJob> {
+  return apiFetch<MeetingJob>(`jobs/${encodeURIComponent(jobId)}`, { signal });
+}
+
+export async function getMeetingJobResult(jobId: string, signal?: AbortSignal): Promise<ApiResult> {
+  return apiFetch<ApiResult>(`jobs/${encodeURIComponent(jobId)}/result`, { signal });
+}
+
+/**
+ * Ask the server to stop a job. Best effort: errors are ignored.
+ */
+export async function cancelMeetingJob(jobId: string): Promise<void> {
+  try {
+    await apiFetch<unknown>(`jobs/${encodeURIComponent(jobId)}`, { method: "DELETE" });
+  } catch {
+    // The job may already be finished or gone
+  }
+}
+
+/**
+ * Poll a job until it completes, then fetch its result.
+ * Transient poll failures are tolerated up to JOB_POLL_MAX_FAILURES in a row.
+ *
+ * @throws Error with the server's reason when the job failed,
+ *   ApiRequestError when the job is unknown, or an AbortError when cancelled
+ */
+export async function waitForMeetingJob(
+  jobId: string,
+  options: { signal?: AbortSignal; onJobStatus?: (job: MeetingJob) => void } = {}
+): Promise<ApiResult> {
+  const { signal, onJobStatus } = options;
+  let failures = 0;
+
+  for (;;) {
+    let job: MeetingJob;
+    try {
+      job = await getMeetingJob(jobId, signal);
+      failures = 0;
+    } catch (e) {
+      if (!isTransientError(e) || ++failures >= JOB_POLL_MAX_FAILURES) throw e;
+      await sleep(JOB_POLL_INTERVAL_MS * failures, signal);
+      continue;
+    }
+
+    onJobStatus?.(job);
+    if (job.status === "completed") return getMeetingJobResult(jobId, signal);
+    if (job.status === "failed") throw new Error(job.error || "Analysis failed");
+    await sleep(JOB_POLL_INTERVAL_MS, signal);
+  }
+}
+
+// ===========================================
+// Streaming job events
+// ===========================================
+
+export type StreamFormat = "sse" | "ndjson";
+
+/**
+ * Incremental parser for an event stream body. Feed decoded text with `push`;
+ * each call returns the events completed so far. Malformed lines are skipped.
+ *
+ * - SSE: `data:` lines up to a blank line form one JSON event; an `event:`
+ *   field supplies the type when the payload has none. Comments are ignored.
+ * - NDJSON: one JSON event per line.
+ */
+export function createStreamParser(format: StreamFormat) {
+  let buffer = "";
+  let data: string[] = [];
+  let eventName = "";
+
+  const parse = (json: string, type?: string): MeetingStreamEvent | null => {
+    try {
+      const value = JSON.parse(json) as Record<string, unknown>;
+      if (typeof value !== "object" || value === null) return null;
+      if (typeof value.type !== "string" && type) value.type = type;
+      return typeof value.type === "string" ? (value as unknown as MeetingStreamEvent) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const line = (text: string): MeetingStreamEvent | null => {
+    if (format === "ndjson") return text.trim() ? parse(text) : null;
+
+    if (text === "") {
+      const event = data.length > 0 ? parse(data.join("\n"), eventName || undefined) : null;
+      data = [];
+      eventName = "";
+      return event;
+    }
+    if (text.startsWith(":")) return null;
+    const colon = text.indexOf(":");
+    const field = colon === -1 ? text : text.slice(0, colon);
+    const value = colon === -1 ? "" : text.slice(colon + 1).replace(/^ /, "");
+    if (field === "data") data.push(value);
+    else if (field === "event") eventName = value;
+    return null;
+  };
+
+  return {
+    push(chunk: string): MeetingStreamEvent[] {
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? "";
+      return lines.map(line).filter((e): e is MeetingStreamEvent => e !== null);
+    },
+    /** End of stream: parse whatever is left */
+    flush(): MeetingStreamEvent[] {
+      const rest = buffer;
+      buffer = "";
+      return [rest, ""].map(line).filter((e): e is MeetingStreamEvent => e !== null);
+    },
+  };
+}
+
+export const EMPTY_PARTIAL_ANALYSIS: PartialAnalysis = {
+  transcript: "",
+  segments: [],
+  translatedTranscript: "",
+  translatedSegments: [],
+  decisions: [],
+  actionItems: [],
+};
+
+function appendText(text: string, chunk: string): string {
+  if (!text) return chunk.trimStart();
+  return /\s$/.test(text) || /^\s/.test(chunk) ? text + chunk : `${text} ${chunk}`;
+}
+
+/**
+ * Fold one stream event into the partial analysis. Returns a new object.
+ */
+export function applyStreamEvent(partial: PartialAnalysis, event: MeetingStreamEvent): PartialAnalysis {
+  switch (event.type) {
+    case "transcript":
+      return {
+        ...partial,
+        transcript: appendText(partial.transcript, event.text),
+        segments: event.segment ? [...partial.segments, event.segment] : partial.segments,
+      };
+    case "translated_transcript":
+      return {
+        ...partial,
+        translatedTranscript: appendText(partial.translatedTranscript, event.text),
+        translatedSegments: event.segment ? [...partial.translatedSegments, event.segment] : partial.translatedSegments,
+      };
+    case "summary":
+      return { ...partial, summary: event.summary };
+    case "participants":
+      return { ...partial, participants: event.participants };
+    case "decision":
+      return { ...partial, decisions: [...partial.decisions, event.decision] };
+    case "action_item":
+      return { ...partial, actionItems: [...partial.actionItems, event.action_item] };
+    default:
+      return partial;
+  }
+}
+
+/**
+ * ApiResult view of a partial analysis, for rendering the results tabs early.
+ */
+export function partialToResult(partial: PartialAnalysis): ApiResult {
+  return {
+    transcript: partial.transcript,
+    segments: partial.segments.length > 0 ? partial.segments : undefined,
+    analysis: {
+      summary: partial.summary ?? "",
+      participants: partial.participants ?? [],
+      decisions: partial.decisions,
+      action_items: partial.actionItems,
+      translated_transcript: partial.translatedTranscript,
+      raw_transcript: partial.transcript,
+      raw_segments: partial.segments.length > 0 ? partial.segments : undefined,
+      translated_segments: partial.translatedSegments.length > 0 ? partial.translatedSegments : undefined,
+    },
+  };
+}
+
+/**
+ * Read a job's event stream until its result arrives.
+ * Resolves null when the stream ends without a result (the caller then polls).
+ *
+ * @throws ApiRequestError for a non-2xx response, Error when the job failed,
+ *   TypeError when the connection breaks, or an AbortError when cancelled
+ */
+export async function streamMeetingJob(jobId: string, options: FollowJobOptions = {}): Promise<ApiResult | null> {
+  const { signal, onEvent, onJobStatus } = options;
+  const response = await fetch(buildUrl(`jobs/${encodeURIComponent(jobId)}/events`), {
+    headers: { ...authHeaders(), Accept: "text/event-stream, application/x-ndjson" },
+    signal,
+  });
+  if (!response.ok) {
+    const error = parseErrorResponse(await response.text(), response.status);
+    throw new ApiRequestError(error.detail, error.status);
+  }
+  if (!response.body) return null;
+
+  const format: StreamFormat = response.headers.get("Content-Type")?.includes("ndjson") ? "ndjson" : "sse";
+  const parser = createStreamParser(format);
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+
+  const handle = (event: MeetingStreamEvent): ApiResult | null => {
+    onEvent?.(event);
+    switch (event.type) {
+      case "status":
+        onJobStatus?.({ job_id: jobId, status: event.status, progress: event.progress, error: event.error });
+        if (event.status === "failed") throw new Error(event.error || "Analysis failed");
+        return null;
+      case "error":
+        throw new Error(event.detail || "Analysis failed");
+      case "result":
+        return event.result;
+      default:
+        return null;
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      const events = done ? parser.flush() : parser.push(value);
+      for (const event of events) {
+        const result = handle(event);
+        if (result) return result;
+      }
+      if (done) return null;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Wait for a job's result: stream its events when the API supports it,
+ * otherwise (or when the stream drops) poll its status.
+ */
+export async function followMeetingJob(jobId: string, options: FollowJobOptions = {}): Promise<ApiResult> {
+  if (!jobStreamUnsupported) {
+    try {
+      const result = await streamMeetingJob(jobId, options);
+      if (result) return result;
+    } catch (e) {
+      if (e instanceof ApiRequestError && (e.status === 404 || e.status === 405)) {
+        jobStreamUnsupported = true;
+      } else if (!isTransientError(e)) {
+        throw e;
+      }
+    }
+  }
+  return waitForMeetingJob(jobId, options);
+}
+
+/**
+ * Analyze a meeting as a server job: submit, follow its events or status,
+ * fetch the result. The job survives a closed tab or dropped connection;
+ * store the id from `onJobCreated` and resume with followMeetingJob.
+ * Falls back to the blocking process-meeting request when the API has no job endpoints.
+ */
+export async function processMeeting(
+  file: File,
+  language: string,
+  options: ProcessMeetingOptions = {}
+): Promise<ApiResult> {
+  if (jobsUnsupported) return analyzeMeeting(file, language, options);
+
+  let job: MeetingJob;
+  try {
+    job = await submitMeetingJob(file, language, options);
+  } catch (e) {
+    if (e instanceof UploadError && (e.status === 404 || e.status === 405)) {
+      jobsUnsupported = true;
+      return analyzeMeeting(file, language, options);
+    }
+    throw e;
+  }
+
+  options.onJobCreated?.(job);
+  return followMeetingJob(job.job_id, options);
+}
+
+// ===========================================
+// Live transcription
+// ===========================================
+
+/**
+ * WebSocket URL of the streaming transcription endpoint: VITE_LIVE_TRANSCRIPTION_URL
+ * when set (e.g. a local mock server), otherwise `transcribe/live` on the API
+ * base URL with its scheme switched to ws/wss.
+ */
+export function liveTranscriptionUrl(): string {
+  const override = import.meta.env.VITE_LIVE_TRANSCRIPTION_URL;
+  if (override) return override;
+  return buildUrl("transcribe/live").replace(/^http/, "ws");
+}
+
+export const EMPTY_LIVE_TRANSCRIPT: LiveTranscript = { text: "", partial: "" };
+
+/**
+ * Parse one text frame from the live socket. Unknown or malformed frames give null.
+ */
+export function parseLiveMessage(data: string): LiveTranscriptMessage | null {
+  try {
+    const value = JSON.parse(data) as Record<string, unknown>;
+    if (typeof value !== "object" || value === null) return null;
+    switch (value.type) {
+      case "ready":
+      case "done":
+        return { type: value.type };
+      case "partial":
+      case "final":
+        return typeof value.text === "string" ? { type: value.type, text: value.text } : null;
+      case "error":
+        return { type: "error", detail: typeof value.detail === "string" ? value.detail : "" };
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fold one live message into the transcript. Returns a new object.
+ */
+export function applyLiveMessage(transcript: LiveTranscript, message: LiveTranscriptMessage): LiveTranscript {
+  switch (message.type) {
+    case "partial":
+      return { ...transcript, partial: message.text };
+    case "final":
+      return { text: appendText(transcript.text, message.text), partial: "" };
+    default:
+      return transcript;
+  }
+}
+
+/**
+ * Stream a recording to the live transcription endpoint while it records.
+ *
+ * Protocol, in order:
+ * 1. Client sends a JSON text frame
+ *    `{"type":"start","mime_type":"audio/webm;codecs=opus","token":"…"}`;
+ *    `token` is the bearer token when signed in (browsers can't set headers
+ *    on a WebSocket).
+ * 2. Client sends each MediaRecorder chunk as a binary frame, in order. Only
+ *    the first chunk carries the container header, so the server must treat
+ *    them as one continuous file.
+ * 3. Client sends `{"type":"stop"}` after the last chunk.
+ *
+ * The server answers with LiveTranscriptMessage JSON text frames at any time,
+ * ends with `done` after the stop message and then closes. An `error`
+ * message, or a close before `done`, fails the session. The preview is
+ * separate from analysis: the finished recording is still uploaded as usual.
+ */
+export function openLiveTranscription(options: LiveTranscriptionOptions): LiveTranscriptionSession {
+  const { mimeType, onTranscript, onError } = options;
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(liveTranscriptionUrl());
+  } catch (e) {
+    // An insecure, invalid or missing URL throws instead of failing the
+    // connection; report it once the caller holds the session
+    const detail = e instanceof Error ? e.message : "Live transcription unavailable";
+    let closed = false;
+    window.setTimeout(() => {
+      if (!closed) onError(detail);
+    }, 0);
+    return {
+      send: () => {},
+      finish: () => Promise.resolve(EMPTY_LIVE_TRANSCRIPT),
+      close: () => {
+        closed = true;
+      },
+    };
+  }
+  let transcript = EMPTY_LIVE_TRANSCRIPT;
+  const queued: Blob[] = [];
+  let stopRequested = false;
+  let ended = false;
+  let settle: (() => void) | null = null;
+
+  const end = (detail?: string) => {
+    if (ended) return;
+    ended = true;
+    if (detail !== undefined) onError(detail);
+    if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) socket.close();
+    settle?.();
+  };
+
+  socket.onopen = () => {
+    socket.send(JSON.stringify({ type: "start", mime_type: mimeType, token: getToken() ?? undefined }));
+    queued.splice(0).forEach((chunk) => socket.send(chunk));
+    if (stopRequested) socket.send(JSON.stringify({ type: "stop" }));
+  };
+
+  socket.onmessage = (e: MessageEvent) => {
+    if (typeof e.data !== "string") return;
+    const message = parseLiveMessage(e.data);
+    if (!message) return;
+    if (message.type === "error") {
+      end(message.detail || "Live transcription failed");
+    } else if (message.type === "done") {
+      end();
+    } else if (message.type !== "ready") {
+      transcript = applyLiveMessage(transcript, message);
+      onTranscript(transcript);
+    }
+  };
+
+  // onerror is always followed by onclose
+  socket.onclose = () => end("Live transcription connection closed");
+
+  return {
+    send: (chunk) => {
+      if (ended || stopRequested) return;
+      if (socket.readyState === WebSocket.OPEN) socket.send(chunk);
+      else queued.push(chunk);
+    },
+    finish: (timeoutMs = 10_000) => {
+      if (!ended && !stopRequested) {
+        stopRequested = true;
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "stop" }));
+      }
+      return new Promise((resolve) => {
+        const timer = window.setTimeout(() => end(), timeoutMs);
+        settle = () => {
+          window.clearTimeout(timer);
+          resolve(transcript);
+        };
+        if (ended) settle();
+      });
+    },
+    close: () => end(),
+  };
 }
@@ -0,0 +1,187 @@
+/**
+ * Trim and cut audio in the browser before analysis.
+ *
+ * The file is decoded at 16 kHz and mixed to mono, the rate speech
+ * recognition works at, so an hour of audio stays around 230 MB in memory
+ * and the re-encoded WAV around 115 MB. The edit keeps `start`–`end` minus
+ * the cut sections.
+ */
+
+import { computePeaks, decodeAudioFile } from "./audioValidation";
+import type { RecordingMarker } from "./markers";
+
+export const EDIT_SAMPLE_RATE = 16000;
+/** Longer files aren't decoded for editing */
+export const EDIT_MAX_SECONDS = 60 * 60;
+/** Larger files aren't decoded either, for when the length can't be read up front */
+export const EDIT_MAX_BYTES = 150 * 1024 * 1024;
+const WAVEFORM_BARS = 200;
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface TrimEdit {
+  /** Seconds */
+  start: number;
+  end: number;
+  /** Sections removed between start and end */
+  cuts: TimeRange[];
+}
+
+export interface EditableAudio {
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+  /** Waveform bars, normalized to the loudest */
+  peaks: number[];
+}
+
+export function initialEdit(duration: number): TrimEdit {
+  return { start: 0, end: duration, cuts: [] };
+}
+
+/**
+ * Decode `file` for editing; null when Web Audio is unavailable.
+ * @throws when the file can't be decoded
+ */
+export async function loadEditableAudio(file: File): Promise<EditableAudio | null> {
+  const buffer = await decodeAudioFile(file, EDIT_SAMPLE_RATE);
+  if (!buffer) return null;
+
+  const samples = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) samples[i]! += data[i]! / buffer.numberOfChannels;
+  }
+  const peaks = computePeaks(buffer, WAVEFORM_BARS);
+  const max = Math.max(...peaks) || 1;
+  return {
+    samples,
+    sampleRate: buffer.sampleRate,
+    duration: buffer.duration,
+    peaks: peaks.map((p) => p / max),
+  };
+}
+
+/**
+ * Add a cut, merging it with overlapping ones and clamping it to the trim.
+ */
+export function addCut(edit: TrimEdit, cut: TimeRange): TrimEdit {
+  const start = Math.max(edit.start, Math.min(cut.start, cut.end));
+  const end = Math.min(edit.end, Math.max(cut.start, cut.end));
+  if (end <= start) return edit;
+
+  const merged: TimeRange[] = [];
+  for (const range of [...edit.cuts, { start, end }].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return { ...edit, cuts: merged };
+}
+
+/**
+ * Sections that remain after the edit, in order.
+ */
+export function keptRanges(edit: TrimEdit): TimeRange[] {
+  const ranges: TimeRange[] = [];
+  let position = edit.start;
+  for (const cut of [...edit.cuts].sort((a, b) => a.start - b.start)) {
+    if (cut.end <= position || cut.start >= edit.end) continue;
+    if (cut.start > position) ranges.push({ start: position, end: cut.start });
+    position = Math.max(position, cut.end);
+  }
+  if (position < edit.end) ranges.push({ start: position, end: edit.end });
+  return ranges;
+}
+
+/**
+ * Markers moved onto the timeline of trimmed audio. Markers inside a removed
+ * section are dropped.
+ */
+export function markersAfterEdit(markers: RecordingMarker[], edit: TrimEdit): RecordingMarker[] {
+  const ranges = keptRanges(edit);
+  const moved: RecordingMarker[] = [];
+  for (const marker of markers) {
+    let offset = 0;
+    for (const range of ranges) {
+      if (marker.at >= range.start && marker.at <= range.end) {
+        moved.push({ ...marker, at: offset + (marker.at - range.start) });
+        break;
+      }
+      offset += range.end - range.start;
+    }
+  }
+  return moved;
+}
+
+export function editedDuration(edit: TrimEdit): number {
+  return keptRanges(edit).reduce((sum, r) => sum + (r.end - r.start), 0);
+}
+
+export function isUnedited(edit: TrimEdit, duration: number): boolean {
+  return edit.start <= 0 && edit.end >= duration && edit.cuts.length === 0;
+}
+
+/**
+ * Samples of the kept sections joined together.
+ */
+export function renderEdit(audio: EditableAudio, edit: TrimEdit): Float32Array {
+  const parts = keptRanges(edit).map((r) =>
+    audio.samples.subarray(Math.round(r.start * audio.sampleRate), Math.round(r.end * audio.sampleRate))
+  );
+  const out = new Float32Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * 16-bit PCM mono WAV.
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]!));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([view.buffer], { type: "audio/wav" });
+}
+
+/**
+ * "standup.m4a" → "standup (edited).wav"
+ */
+export function editedFileName(name: string): string {
+  const base = name.replace(/\.[^.]+$/, "").replace(/ \(edited\)$/, "");
+  return `${base} (edited).wav`;
+}
+
+export function exportEdit(audio: EditableAudio, edit: TrimEdit, fileName: string): File {
+  return new File([encodeWav(renderEdit(audio, edit), audio.sampleRate)], editedFileName(fileName), {
+    type: "audio/wav",
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Tab/system audio capture mixed with the microphone, for recording online
+ * meetings held in another tab.
+ *
+ * getDisplayMedia() is asked for video too, because Chromium only shares
+ * audio along with a screen or tab; the video track is disabled and stopped
+ * with the rest. Both sources go through their own gain node into one
+ * MediaStream that a single MediaRecorder can record.
+ */
+
+export type MixSource = "mic" | "system";
+
+export type SystemAudioFailure = "unsupported" | "denied" | "noAudio";
+
+/**
+ * Tab or system audio could not be captured.
+ */
+export class SystemAudioError extends Error {
+  reason: SystemAudioFailure;
+
+  constructor(reason: SystemAudioFailure) {
+    super(`System audio capture failed: ${reason}`);
+    this.name = "SystemAudioError";
+    this.reason = reason;
+  }
+}
+
+export function isSystemAudioSupported(): boolean {
+  return typeof navigator !== "undefined" && !!navigator.mediaDevices?.getDisplayMedia;
+}
+
+/**
+ * Ask the user to share a tab, window or screen with audio.
+ * @throws SystemAudioError
+ */
+export async function captureSystemAudio(): Promise<MediaStream> {
+  if (!isSystemAudioSupported()) throw new SystemAudioError("unsupported");
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+  } catch (err) {
+    const name = err instanceof Error ? err.name : "";
+    throw new SystemAudioError(name === "NotAllowedError" || name === "AbortError" ? "denied" : "unsupported");
+  }
+
+  // Shared without audio: the "share audio" box was off, or the source has none
+  if (stream.getAudioTracks().length === 0) {
+    stream.getTracks().forEach((track) => track.stop());
+    throw new SystemAudioError("noAudio");
+  }
+  stream.getVideoTracks().forEach((track) => (track.enabled = false));
+  return stream;
+}
+
+export interface AudioMix {
+  /** Mixed audio to record */
+  stream: MediaStream;
+  /** Gain for one source, 0 (muted) to 2 */
+  setGain: (source: MixSource, gain: number) => void;
+  /** Stop every input track and release the audio graph */
+  close: () => void;
+}
+
+export function createAudioMix(mic: MediaStream, system: MediaStream): AudioMix {
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+  const gains: Record<MixSource, GainNode> = {
+    mic: context.createGain(),
+    system: context.createGain(),
+  };
+
+  const micSource = context.createMediaStreamSource(mic);
+  const systemSource = context.createMediaStreamSource(new MediaStream(system.getAudioTracks()));
+  micSource.connect(gains.mic).connect(destination);
+  systemSource.connect(gains.system).connect(destination);
+
+  return {
+    stream: destination.stream,
+    setGain: (source, gain) => {
+      gains[source].gain.setTargetAtTime(Math.max(0, Math.min(2, gain)), context.currentTime, 0.05);
+    },
+    close: () => {
+      for (const stream of [mic, system, destination.stream]) {
+        stream.getTracks().forEach((track) => track.stop());
+      }
+      micSource.disconnect();
+      systemSource.disconnect();
+      context.close();
+    },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Source audio kept with history entries (opt-in, see getKeepAudio).
+ *
+ * One record per meeting in the IndexedDB "audio" store, keyed by
+ * HistoryItem.id. Writes reject with StorageFullError when the quota is used up.
+ */
+
+import { STORES, withStore } from "./db";
+
+export interface StoredAudio {
+  /** HistoryItem.id */
+  id: string;
+  blob: Blob;
+  fileName: string;
+  size: number;
+  savedAt: string;
+}
+
+export interface AudioUsage {
+  count: number;
+  bytes: number;
+}
+
+export async function saveAudio(id: string, file: File): Promise<void> {
+  const record: StoredAudio = {
+    id,
+    blob: file,
+    fileName: file.name,
+    size: file.size,
+    savedAt: new Date().toISOString(),
+  };
+  await withStore(STORES.audio, "readwrite", (store) => store.put(record));
+}
+
+export async function getAudio(id: string): Promise<StoredAudio | null> {
+  const record = await withStore<StoredAudio | undefined>(STORES.audio, "readonly", (store) => store.get(id));
+  return record ?? null;
+}
+
+export async function deleteAudio(id: string): Promise<void> {
+  await withStore(STORES.audio, "readwrite", (store) => store.delete(id));
+}
+
+export async function clearAudio(): Promise<void> {
+  await withStore(STORES.audio, "readwrite", (store) => store.clear());
+}
+
+/**
+ * Number of stored recordings and their total size in bytes.
+ */
+export async function getAudioUsage(): Promise<AudioUsage> {
+  const records = await withStore<StoredAudio[]>(STORES.audio, "readonly", (store) => store.getAll());
+  return {
+    count: records.length,
+    bytes: records.reduce((sum, r) => sum + r.size, 0),
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Check audio files in the browser before uploading them.
+ *
+ * The format is checked against the backend's supported formats, then the
+ * size and duration limits. The file is decoded with Web Audio to reject
+ * corrupt or silent files and to draw a waveform thumbnail. Long files are
+ * only probed for their duration, since decoding them would need hundreds of
+ * megabytes of memory.
+ */
+
+import { getSupportedFormats } from "./api";
+import { MAX_AUDIO_DURATION_S, MAX_UPLOAD_BYTES, SUPPORTED_AUDIO_EXTENSIONS } from "./constants";
+
+export type AudioValidationCode = "format" | "size" | "duration" | "decode" | "silent";
+
+/**
+ * A file rejected before upload. `actual` and `max` are bytes for "size" and
+ * seconds for "duration".
+ */
+export class AudioValidationError extends Error {
+  code: AudioValidationCode;
+  fileName: string;
+  actual?: number;
+  max?: number;
+
+  constructor(code: AudioValidationCode, fileName: string, actual?: number, max?: number) {
+    super(`${fileName}: ${code}`);
+    this.name = "AudioValidationError";
+    this.code = code;
+    this.fileName = fileName;
+    this.actual = actual;
+    this.max = max;
+  }
+}
+
+export interface AudioInfo {
+  size: number;
+  /** Seconds, null if the browser could not tell */
+  duration: number | null;
+  /** Null when the file was too long to decode */
+  channels: number | null;
+  /** Peak amplitude 0–1 per waveform bar, null when not decoded */
+  peaks: number[] | null;
+}
+
+export interface AudioLimits {
+  maxBytes: number;
+  maxDurationS: number;
+}
+
+export const DEFAULT_AUDIO_LIMITS: AudioLimits = {
+  maxBytes: MAX_UPLOAD_BYTES,
+  maxDurationS: MAX_AUDIO_DURATION_S,
+};
+
+/** Files longer or larger than this are not decoded */
+const DECODE_MAX_SECONDS = 15 * 60;
+const DECODE_MAX_BYTES = 100 * 1024 * 1024;
+/** Low rate keeps decoded buffers small; enough for peaks and silence */
+const DECODE_SAMPLE_RATE = 16000;
+/** Peak below about -60 dBFS counts as silence */
+const SILENCE_PEAK = 0.001;
+const WAVEFORM_BARS = 48;
+const METADATA_TIMEOUT_MS = 15000;
+
+let formatsPromise: Promise<string[]> | null = null;
+
+/**
+ * File extensions the backend accepts, lowercase without the dot.
+ * Falls back to the built-in list when the API can't be reached.
+ */
+export function getAllowedExtensions(): Promise<string[]> {
+  formatsPromise ??= getSupportedFormats()
+    .then(({ formats }) => {
+      const extensions = formats
+        .map((f) => f.trim().toLowerCase().replace(/^\./, ""))
+        .filter((f) => f && !f.includes("/"));
+      return extensions.length > 0 ? extensions : [...SUPPORTED_AUDIO_EXTENSIONS];
+    })
+    .catch(() => {
+      // Ask again next time
+      formatsPromise = null;
+      return [...SUPPORTED_AUDIO_EXTENSIONS];
+    });
+  return formatsPromise;
+}
+
+export function fileExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+/**
+ * Duration from the file's metadata, null if the browser can't read it.
+ */
+export function probeDuration(file: File): Promise<number | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const done = (duration: number | null) => {
+      clearTimeout(timer);
+      audio.removeAttribute("src");
+      audio.load();
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    const timer = setTimeout(() => done(null), METADATA_TIMEOUT_MS);
+    audio.preload = "metadata";
+    // Some recordings report Infinity until fully read
+    audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => done(null);
+    audio.src = url;
+  });
+}
+
+/**
+ * Peak amplitude per bar across all channels.
+ */
+export function computePeaks(buffer: AudioBuffer, bars: number): number[] {
+  const peaks = new Array<number>(bars).fill(0);
+  const size = Math.max(1, Math.ceil(buffer.length / bars));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      const bar = Math.floor(i / size);
+      const value = Math.abs(data[i]!);
+      if (value > peaks[bar]!) peaks[bar] = value;
+    }
+  }
+  return peaks;
+}
+
+/**
+ * Decode `file` resampled to `sampleRate`; null without Web Audio support.
+ */
+export async function decodeAudioFile(file: File, sampleRate = DECODE_SAMPLE_RATE): Promise<AudioBuffer | null> {
+  const Ctx = window.OfflineAudioContext ?? (window as { webkitOfflineAudioContext?: typeof OfflineAudioContext }).webkitOfflineAudioContext;
+  if (!Ctx) return null;
+  const context = new Ctx(1, 1, sampleRate);
+  return context.decodeAudioData(await file.arrayBuffer());
+}
+
+/**
+ * Validate `file` and read its audio properties.
+ * @throws AudioValidationError
+ */
+export async function inspectAudioFile(file: File, limits: AudioLimits = DEFAULT_AUDIO_LIMITS): Promise<AudioInfo> {
+  const allowed = await getAllowedExtensions();
+  if (!allowed.includes(fileExtension(file.name))) {
+    throw new AudioValidationError("format", file.name);
+  }
+  if (file.size > limits.maxBytes) {
+    throw new AudioValidationError("size", file.name, file.size, limits.maxBytes);
+  }
+  if (file.size === 0) {
+    throw new AudioValidationError("decode", file.name);
+  }
+
+  let duration = await probeDuration(file);
+  if (duration !== null && duration > limits.maxDurationS) {
+    throw new AudioValidationError("duration", file.name, duration, limits.maxDurationS);
+  }
+
+  const decodable = (duration === null || duration <= DECODE_MAX_SECONDS) && file.size <= DECODE_MAX_BYTES;
+  if (!decodable) {
+    return { size: file.size, duration, channels: null, peaks: null };
+  }
+
+  let buffer: AudioBuffer | null;
+  try {
+    buffer = await decodeAudioFile(file);
+  } catch {
+    throw new AudioValidationError("decode", file.name);
+  }
+  if (!buffer) {
+    // No Web Audio: readable metadata is the best check available
+    if (duration === null) throw new AudioValidationError("decode", file.name);
+    return { size: file.size, duration, channels: null, peaks: null };
+  }
+
+  duration ??= buffer.duration;
+  if (duration > limits.maxDurationS) {
+    throw new AudioValidationError("duration", file.name, duration, limits.maxDurationS);
+  }
+  const peaks = computePeaks(buffer, WAVEFORM_BARS);
+  const max = Math.max(...peaks);
+  if (buffer.length === 0 || max < SILENCE_PEAK) {
+    throw new AudioValidationError(buffer.length === 0 ? "decode" : "silent", file.name);
+  }
+
+  return {
+    size: file.size,
+    duration,
+    channels: buffer.numberOfChannels,
+    peaks: peaks.map((p) => p / max),
+  };
+}
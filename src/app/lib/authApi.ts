@@ -6,13 +6,15 @@
  * - Login
  * - Get current user
  * - Migrate guest meetings
- * - Get/sync meetings
+ * - Get/sync/update meetings
  * 
  * Token is stored in memory only (not LocalStorage for security).
  * Token is passed to requests via Authorization header.
  */
 
-import type { HistoryItem } from "./storage";
+import type { HistoryExports, HistoryItem, HistoryItemPatch, MeetingSource } from "./storage";
+import type { TranscriptSegment } from "./api";
+import type { RecordingMarker } from "./markers";
 
 // ===========================================
 // Configuration
@@ -69,9 +71,20 @@ export interface MeetingItem {
   transcriptClean: string;
   participants: string[];
   decisions: string[];
-  actionItems: { description: string; owner?: string | null }[];
+  actionItems: { description: string; owner?: string | null; done?: boolean | null; dueDate?: string | null }[];
   createdAt: string;
-  exports: { word: boolean; pdf: boolean };
+  exports: HistoryExports;
+  segmentsRaw?: TranscriptSegment[] | null;
+  segmentsClean?: TranscriptSegment[] | null;
+  speakerMap?: Record<string, string> | null;
+  editedAt?: string | null;
+  markers?: RecordingMarker[] | null;
+  duration?: number | null;
+  source?: MeetingSource | null;
+  title?: string | null;
+  meetingDate?: string | null;
+  tags?: string[] | null;
+  attendees?: string[] | null;
 }
 
 export interface ApiError {
@@ -282,6 +295,85 @@ export async function deleteMeeting(meetingId: string): Promise<{ deleted: boole
   });
 }
 
+/** Set once the API shows it has no meeting update endpoint */
+let meetingUpdatesUnsupported = false;
+
+/**
+ * True for the error updateMeeting throws when the server has no update
+ * endpoint: 405, or a 404 with the framework's bare "Not Found" detail. A 404
+ * with any other detail (e.g. "Meeting not found") is about that one meeting.
+ */
+export function isMeetingUpdateUnsupported(error: unknown): boolean {
+  const { status, detail } = (error as Partial<ApiError> | null) ?? {};
+  if (status === 405) return true;
+  return status === 404 && typeof detail === "string" && detail.trim().toLowerCase() === "not found";
+}
+
+/**
+ * Update user-editable fields of a meeting (and its export flags).
+ * `PATCH auth/meetings/{id}` with the changed fields only; the server merges
+ * them into the stored meeting. A server without the endpoint is not asked
+ * again until the page reloads.
+ */
+export async function updateMeeting(
+  meetingId: string,
+  patch: HistoryItemPatch
+): Promise<{ updated: boolean }> {
+  if (meetingUpdatesUnsupported) {
+    const error: ApiError = { detail: "Editing meetings is not supported by this server", status: 405 };
+    throw error;
+  }
+  try {
+    return await authFetch(`auth/meetings/${meetingId}`, {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    });
+  } catch (e) {
+    if (isMeetingUpdateUnsupported(e)) meetingUpdatesUnsupported = true;
+    throw e;
+  }
+}
+
+/**
+ * Map a server meeting to the HistoryItem shape used by the History UI.
+ * Missing arrays/flags from older server documents default to empty values.
+ */
+export function meetingToHistoryItem(meeting: MeetingItem): HistoryItem {
+  return {
+    id: meeting.id,
+    createdAt: meeting.createdAt,
+    fileName: meeting.fileName,
+    outputLanguage: meeting.outputLanguage,
+    summary: meeting.summary ?? "",
+    transcriptRaw: meeting.transcriptRaw ?? "",
+    transcriptClean: meeting.transcriptClean ?? "",
+    participants: meeting.participants ?? [],
+    decisions: meeting.decisions ?? [],
+    actionItems: (meeting.actionItems ?? []).map((a) => ({
+      description: a.description,
+      owner: a.owner ?? null,
+      done: a.done ?? false,
+      dueDate: a.dueDate ?? null,
+    })),
+    exports: {
+      ...meeting.exports,
+      word: meeting.exports?.word ?? false,
+      pdf: meeting.exports?.pdf ?? false,
+    },
+    segmentsRaw: meeting.segmentsRaw ?? undefined,
+    segmentsClean: meeting.segmentsClean ?? undefined,
+    speakerMap: meeting.speakerMap ?? undefined,
+    editedAt: meeting.editedAt ?? undefined,
+    markers: meeting.markers ?? undefined,
+    duration: meeting.duration ?? undefined,
+    source: meeting.source ?? undefined,
+    title: meeting.title ?? undefined,
+    meetingDate: meeting.meetingDate ?? undefined,
+    tags: meeting.tags ?? undefined,
+    attendees: meeting.attendees ?? undefined,
+  };
+}
+
 /**
  * Check if user is authenticated (has valid token).
  */
@@ -58,6 +58,16 @@ export const AUDIO_FILE_REGEX = /\.(mp3|wav|m4a|aac|ogg|flac|webm|mp4|mpeg|mpg)$
 /** Human-readable format list */
 export const AUDIO_FORMATS_DISPLAY = "MP3, WAV, M4A, AAC, OGG, FLAC, WEBM, MP4, MPEG";
 
+/** Positive number from an optional env var, else the fallback */
+function envNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** Upload limits checked in the browser before sending (VITE_MAX_UPLOAD_MB, VITE_MAX_AUDIO_MINUTES) */
+export const MAX_UPLOAD_BYTES = envNumber(import.meta.env.VITE_MAX_UPLOAD_MB, 200) * 1024 * 1024;
+export const MAX_AUDIO_DURATION_S = envNumber(import.meta.env.VITE_MAX_AUDIO_MINUTES, 180) * 60;
+
 export const OUTPUT_LANGUAGES = [
   { value: "en" as const, label: "English" },
   { value: "he" as const, label: "עברית" },
@@ -70,3 +80,7 @@ export const OUTPUT_LANGUAGES = [
 export const RECORDING_MIME_TYPE = "audio/webm";
 export const RECORDING_FALLBACK_MIME_TYPE = "audio/wav";
 export const MAX_RECORDING_DURATION_MS = 2 * 60 * 60 * 1000; // 2 hours
+/** Warn this long before a recording is stopped at the limit */
+export const RECORDING_LIMIT_WARNING_MS = 5 * 60 * 1000;
+/** Warn when the microphone or shared tab audio has picked up nothing for this long */
+export const NO_AUDIO_WARNING_MS = 5000;
@@ -0,0 +1,134 @@
+/**
+ * IndexedDB access for Speechi.
+ *
+ * One "speechi" database with an object store per kind of record. The
+ * connection is opened lazily and reused; quota failures surface as
+ * StorageFullError so the UI can tell the user instead of losing data.
+ */
+
+const DB_NAME = "speechi";
+const DB_VERSION = 3;
+
+export const STORES = {
+  history: "history",
+  /** Source audio per history entry (v2) */
+  audio: "audio",
+  /** Chunks of in-progress recordings, keyed [recordingId, seq] (v3) */
+  recordingChunks: "recordingChunks",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+/**
+ * Thrown when the browser refuses a write because the storage quota is used up.
+ */
+export class StorageFullError extends Error {
+  constructor() {
+    super("Browser storage is full");
+    this.name = "StorageFullError";
+  }
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === "QuotaExceededError" || error.code === 22);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.history)) {
+        db.createObjectStore(STORES.history, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.audio)) {
+        db.createObjectStore(STORES.audio, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.recordingChunks)) {
+        db.createObjectStore(STORES.recordingChunks, { keyPath: ["recordingId", "seq"] });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade; reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error ?? new Error("Failed to open IndexedDB"));
+    request.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"));
+  });
+
+  // Allow a retry after a failed open
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run `fn` in a transaction on one store and resolve once the transaction
+ * commits. If `fn` returns a request, its result is the resolved value.
+ */
+export async function withStore<T = undefined>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+
+  return new Promise<T>((resolve, reject) => {
+    let tx: IDBTransaction;
+    let request: IDBRequest<T> | void;
+    try {
+      tx = db.transaction(storeName, mode);
+      request = fn(tx.objectStore(storeName));
+    } catch (e) {
+      reject(isQuotaError(e) ? new StorageFullError() : e);
+      return;
+    }
+
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    const fail = () => {
+      const error = tx.error ?? (request ? request.error : null);
+      reject(isQuotaError(error) ? new StorageFullError() : error ?? new Error("IndexedDB transaction failed"));
+    };
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+/**
+ * Origin-wide storage usage and quota in bytes, or null if the browser
+ * doesn't report it.
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    if (usage === undefined || quota === undefined) return null;
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Word (.docx) builder for meeting documents.
+ *
+ * Writes a minimal Office Open XML package by hand (no library). Hebrew and
+ * Arabic documents get bidi paragraphs and RTL runs, so Word lays them out
+ * right-to-left with its own shaping.
+ */
+
+import { createZip } from "./zip";
+import { documentBlocks, isRtlDocument, type DocumentBlock, type MeetingDocument } from "./meetingDocument";
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Arial"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="80"/></w:pPr><w:rPr><w:b/><w:bCs/><w:color w:val="312E81"/><w:sz w:val="40"/><w:szCs w:val="40"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="71717A"/><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="320" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:bCs/><w:color w:val="4F46E5"/><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:start="360" w:hanging="360"/></w:pPr></w:style>
+</w:styles>`;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+function run(text: string, rtl: boolean, extra = ""): string {
+  const props = `${extra}${rtl ? "<w:rtl/>" : ""}`;
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+const TAB = "<w:r><w:tab/></w:r>";
+
+function paragraph(style: string | null, runs: string, rtl: boolean): string {
+  const props = `${style ? `<w:pStyle w:val="${style}"/>` : ""}${rtl ? "<w:bidi/>" : ""}`;
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${runs}</w:p>`;
+}
+
+function blockXml(block: DocumentBlock, rtl: boolean): string {
+  switch (block.type) {
+    case "title":
+      return paragraph("Title", run(block.text, rtl), rtl);
+    case "meta":
+      return paragraph("Subtitle", run(block.text, rtl), rtl);
+    case "heading":
+      return paragraph("Heading1", run(block.text, rtl), rtl);
+    case "paragraph":
+      return paragraph(null, run(block.text, rtl), rtl);
+    case "bullet":
+      return paragraph("ListParagraph", run("•", rtl) + TAB + run(block.text, rtl), rtl);
+    case "numbered":
+      return (
+        paragraph("ListParagraph", run(`${block.index}.`, rtl, "<w:b/><w:bCs/>") + TAB + run(block.text, rtl), rtl) +
+        paragraph("ListParagraph", TAB + run(block.detail, rtl, '<w:i/><w:iCs/><w:color w:val="6D28D9"/>'), rtl)
+      );
+  }
+}
+
+/**
+ * Build a .docx Blob for the meeting document.
+ */
+export function buildDocx(doc: MeetingDocument): Blob {
+  const rtl = isRtlDocument(doc.language);
+  const body = documentBlocks(doc)
+    .map((block) => blockXml(block, rtl))
+    .join("");
+  const sectionProps = `<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/>${rtl ? "<w:bidi/>" : ""}</w:sectPr>`;
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}${sectionProps}</w:body></w:document>`;
+
+  return createZip(
+    [
+      { name: "[Content_Types].xml", data: CONTENT_TYPES },
+      { name: "_rels/.rels", data: ROOT_RELS },
+      { name: "word/_rels/document.xml.rels", data: DOCUMENT_RELS },
+      { name: "word/styles.xml", data: STYLES },
+      { name: "word/document.xml", data: documentXml },
+    ],
+    DOCX_MIME
+  );
+}
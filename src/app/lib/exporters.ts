@@ -0,0 +1,105 @@
+/**
+ * Client-side document export.
+ *
+ * Builds Word, PDF, Markdown, plain-text and JSON files, and SRT/WebVTT
+ * subtitles of either transcript, from an analysis we already hold (fresh
+ * result or history entry) and downloads them.
+ * No audio re-upload, no backend call.
+ */
+
+import { buildDocx } from "./docx";
+import { buildPdf } from "./pdf";
+import { buildJson, buildMarkdown, buildPlainText } from "./textExport";
+import {
+  buildSrt,
+  buildVtt,
+  subtitleCues,
+  validateSubtitles,
+  type SubtitleFormat,
+  type SubtitleTrack,
+} from "./subtitles";
+import { PDF_EXPORT_ENABLED } from "./constants";
+import type { MeetingDocument } from "./meetingDocument";
+import type { ExportFormat } from "./storage";
+
+interface FormatInfo {
+  extension: string;
+  /** Short label for badges (e.g. on history cards) */
+  badge: string;
+  /** `track` only matters for subtitles */
+  build: (doc: MeetingDocument, track: SubtitleTrack) => Blob | Promise<Blob>;
+}
+
+function textBlob(text: string, mimeType: string): Blob {
+  return new Blob([text], { type: `${mimeType};charset=utf-8` });
+}
+
+/**
+ * Subtitle file of one transcript, checked against the format rules so a
+ * broken file is never downloaded.
+ */
+function subtitleBlob(doc: MeetingDocument, track: SubtitleTrack, format: SubtitleFormat): Blob {
+  const cues = subtitleCues(doc, track);
+  if (cues.length === 0) throw new Error("There is no transcript to turn into subtitles");
+  const content = format === "srt" ? buildSrt(cues) : buildVtt(cues);
+  const problems = validateSubtitles(content, format);
+  if (problems.length > 0) throw new Error(`Invalid ${format.toUpperCase()} file: ${problems[0]}`);
+  return textBlob(content, format === "srt" ? "application/x-subrip" : "text/vtt");
+}
+
+const FORMATS: Record<ExportFormat, FormatInfo> = {
+  word: { extension: "docx", badge: "DOCX", build: buildDocx },
+  pdf: { extension: "pdf", badge: "PDF", build: buildPdf },
+  markdown: { extension: "md", badge: "MD", build: (doc) => textBlob(buildMarkdown(doc), "text/markdown") },
+  text: { extension: "txt", badge: "TXT", build: (doc) => textBlob(buildPlainText(doc), "text/plain") },
+  json: { extension: "json", badge: "JSON", build: (doc) => textBlob(buildJson(doc), "application/json") },
+  srt: { extension: "srt", badge: "SRT", build: (doc, track) => subtitleBlob(doc, track, "srt") },
+  vtt: { extension: "vtt", badge: "VTT", build: (doc, track) => subtitleBlob(doc, track, "vtt") },
+};
+
+/** Enabled export formats, in menu order. */
+export const EXPORT_FORMATS: ExportFormat[] = (["word", "pdf", "markdown", "text", "json", "srt", "vtt"] as const).filter(
+  (format) => format !== "pdf" || PDF_EXPORT_ENABLED
+);
+
+/** Formats exported per transcript (translated or original) rather than per meeting */
+export function isSubtitleFormat(format: ExportFormat): format is SubtitleFormat {
+  return format === "srt" || format === "vtt";
+}
+
+export function exportBadge(format: ExportFormat): string {
+  return FORMATS[format].badge;
+}
+
+/**
+ * Trigger file download in browser.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export a meeting document in the given format and start the download.
+ * Headings and content are in the analysis language; Word and PDF use an RTL
+ * layout for Hebrew and Arabic. Subtitles are of the translated transcript
+ * unless the original track is asked for.
+ */
+export async function exportDocument(
+  doc: MeetingDocument,
+  format: ExportFormat,
+  track: SubtitleTrack = "clean"
+): Promise<void> {
+  const info = FORMATS[format];
+  const blob = await info.build(doc, track);
+  const name = !isSubtitleFormat(format)
+    ? `meeting_summary_${doc.language}`
+    : track === "raw"
+      ? "meeting_subtitles_original"
+      : `meeting_subtitles_${doc.language}`;
+  downloadBlob(blob, `${name}.${info.extension}`);
+}
@@ -0,0 +1,193 @@
+/**
+ * Full-text search, filters and sorting for the History page.
+ *
+ * A query is split into whitespace-separated terms; an item matches when every
+ * term appears (case-insensitive) in at least one searchable field.
+ * Speaker labels and owners are searched by the participant names they are
+ * mapped to, as they are shown. Dates are the meeting date when one is set, otherwise the analysis day.
+ */
+
+import type { HistoryItem } from "./storage";
+import { hasTag, meetingTitle } from "./meetingMetadata";
+import { speakerName, transcriptWithSpeakers } from "./speakers";
+
+export type ExportFilter = "all" | "exported" | "not-exported";
+export type HistorySort = "newest" | "oldest" | "name" | "actions";
+
+export interface HistoryFilters {
+  query: string;
+  /** Output language code, or "all" */
+  language: string;
+  /** Inclusive local date range, "YYYY-MM-DD" or "" for open-ended */
+  from: string;
+  to: string;
+  hasActionItems: boolean;
+  exported: ExportFilter;
+  /** Tag, or "" for any */
+  tag: string;
+  sort: HistorySort;
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: "",
+  language: "all",
+  from: "",
+  to: "",
+  hasActionItems: false,
+  exported: "all",
+  tag: "",
+  sort: "newest",
+};
+
+/** Fields searched by the query, in the order matches are reported. */
+export type SearchField =
+  | "title"
+  | "fileName"
+  | "tags"
+  | "summary"
+  | "participants"
+  | "attendees"
+  | "decisions"
+  | "actionItems"
+  | "transcriptClean"
+  | "transcriptRaw";
+
+export function searchTerms(query: string): string[] {
+  return query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Case-insensitive regex matching any of the terms, or null for no terms.
+ */
+export function termsPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+  // Longest first so overlapping terms highlight the widest match
+  const sorted = terms.slice().sort((a, b) => b.length - a.length);
+  return new RegExp(sorted.map(escapeRegExp).join("|"), "giu");
+}
+
+export function searchableFields(item: HistoryItem): Record<SearchField, string> {
+  const map = item.speakerMap;
+  return {
+    title: item.title ?? "",
+    fileName: item.fileName,
+    tags: (item.tags ?? []).join("\n"),
+    summary: item.summary,
+    participants: item.participants.map((p) => speakerName(p, map)).join("\n"),
+    attendees: (item.attendees ?? []).join("\n"),
+    decisions: item.decisions.join("\n"),
+    actionItems: item.actionItems
+      .map((a) => `${a.description}\n${a.owner ? speakerName(a.owner, map) : ""}`)
+      .join("\n"),
+    transcriptClean: transcriptWithSpeakers(item.transcriptClean, item.segmentsClean, map),
+    transcriptRaw: transcriptWithSpeakers(item.transcriptRaw, item.segmentsRaw, map),
+  };
+}
+
+function matchesQuery(item: HistoryItem, terms: string[]): boolean {
+  if (terms.length === 0) return true;
+  const haystack = Object.values(searchableFields(item)).join("\n").toLocaleLowerCase();
+  return terms.every((term) => haystack.includes(term.toLocaleLowerCase()));
+}
+
+/**
+ * First field (in SearchField order) containing any of the terms.
+ */
+export function firstMatch(
+  item: HistoryItem,
+  terms: string[]
+): { field: SearchField; text: string } | null {
+  const pattern = termsPattern(terms);
+  if (!pattern) return null;
+  const fields = searchableFields(item);
+  for (const field of Object.keys(fields) as SearchField[]) {
+    pattern.lastIndex = 0;
+    if (pattern.test(fields[field])) return { field, text: fields[field] };
+  }
+  return null;
+}
+
+/**
+ * Excerpt of `text` around the first match, with ellipses where trimmed.
+ */
+export function matchSnippet(text: string, terms: string[], radius = 60): string {
+  const pattern = termsPattern(terms);
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (!pattern) return flat.slice(0, radius * 2);
+  pattern.lastIndex = 0;
+  const match = pattern.exec(flat);
+  if (!match) return flat.slice(0, radius * 2);
+  const start = Math.max(0, match.index - radius);
+  const end = Math.min(flat.length, match.index + match[0].length + radius);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+/** Local calendar day of a date or ISO timestamp as "YYYY-MM-DD", or "" if invalid. */
+export function localDay(iso: string | Date): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Day the meeting took place: its meeting date, else the day it was analyzed. */
+export function meetingDay(item: HistoryItem): string {
+  return item.meetingDate || localDay(item.createdAt);
+}
+
+function isExported(item: HistoryItem): boolean {
+  return Object.values(item.exports).some(Boolean);
+}
+
+export function hasActiveFilters(filters: HistoryFilters): boolean {
+  return (
+    filters.query.trim() !== "" ||
+    filters.language !== DEFAULT_HISTORY_FILTERS.language ||
+    filters.from !== "" ||
+    filters.to !== "" ||
+    filters.hasActionItems ||
+    filters.exported !== DEFAULT_HISTORY_FILTERS.exported ||
+    filters.tag !== ""
+  );
+}
+
+/**
+ * Apply query, filters and sort order. Returns a new array.
+ */
+export function filterHistory(items: HistoryItem[], filters: HistoryFilters): HistoryItem[] {
+  const terms = searchTerms(filters.query);
+
+  const result = items.filter((item) => {
+    if (filters.language !== "all" && item.outputLanguage !== filters.language) return false;
+    const day = meetingDay(item);
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+    if (filters.hasActionItems && item.actionItems.length === 0) return false;
+    if (filters.exported === "exported" && !isExported(item)) return false;
+    if (filters.exported === "not-exported" && isExported(item)) return false;
+    if (filters.tag && !hasTag(item, filters.tag)) return false;
+    return matchesQuery(item, terms);
+  });
+
+  // Meeting day first, then analysis time within the day
+  const key = (item: HistoryItem) => `${meetingDay(item)}|${item.createdAt}`;
+  const byTime = (a: HistoryItem, b: HistoryItem) => key(a).localeCompare(key(b));
+  switch (filters.sort) {
+    case "oldest":
+      return result.sort(byTime);
+    case "name":
+      return result.sort((a, b) => meetingTitle(a).localeCompare(meetingTitle(b)));
+    case "actions":
+      return result.sort((a, b) => b.actionItems.length - a.actionItems.length || byTime(b, a));
+    case "newest":
+    default:
+      return result.sort((a, b) => byTime(b, a));
+  }
+}
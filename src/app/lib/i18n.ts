@@ -152,8 +152,6 @@ export interface I18nStrings {
   recordingInProgress: string;
   deleteRecording: string;
   useRecording: string;
-  orUploadFile: string;
-  orRecordMeeting: string;
   recordingNotSupported: string;
   microphonePermissionDenied: string;
   // Supported formats
@@ -168,6 +166,256 @@ export interface I18nStrings {
   // Accessibility labels
   selectLanguage: string;
   toggleTheme: string;
+  // History sync
+  historyLoading: string;
+  historyLoadError: string;
+  historyDeleteError: string;
+  retry: string;
+  // Document export
+  exportDocumentTitle: string;
+  exportOwner: string;
+  // Text export formats
+  exportMarkdown: string;
+  exportText: string;
+  exportJson: string;
+  // History search
+  historySearchPlaceholder: string;
+  clearSearch: string;
+  filterLanguage: string;
+  filterAllLanguages: string;
+  filterFrom: string;
+  filterTo: string;
+  filterHasActionItems: string;
+  filterExport: string;
+  filterExportAll: string;
+  filterExported: string;
+  filterNotExported: string;
+  sortBy: string;
+  sortNewest: string;
+  sortOldest: string;
+  sortName: string;
+  sortMostActions: string;
+  clearFilters: string;
+  historyNoMatches: string;
+  historyShowing: string;
+  matchIn: string;
+  // Local storage
+  storageFull: string;
+  historySaveError: string;
+  storageTitle: string;
+  storageDescription: string;
+  storageUsage: string;
+  storageUnavailable: string;
+  storageAlmostFull: string;
+  // Meeting audio
+  audioTitle: string;
+  keepAudio: string;
+  keepAudioDescription: string;
+  audioUsage: string;
+  purgeAudio: string;
+  purgeAudioConfirm: string;
+  purgeAudioConfirmBody: string;
+  originalAudio: string;
+  deleteAudio: string;
+  deleteAudioConfirm: string;
+  deleteAudioConfirmBody: string;
+  audioDeleted: string;
+  audioStorageFull: string;
+  audioSaveError: string;
+  // Transcript segments
+  playFrom: string;
+  // Speakers
+  speakersTitle: string;
+  speakersHint: string;
+  speakerKeepLabel: string;
+  speakersSaveError: string;
+  // Analysis editing
+  editAnalysis: string;
+  saveEdits: string;
+  edited: string;
+  editingHint: string;
+  addDecision: string;
+  addActionItem: string;
+  moveUp: string;
+  moveDown: string;
+  removeItem: string;
+  editsSaved: string;
+  editsSaveError: string;
+  // Tasks
+  tasks: string;
+  tasksTitle: string;
+  tasksSummary: string;
+  tasksEmpty: string;
+  tasksEmptyHint: string;
+  tasksNoMatches: string;
+  tasksStatus: string;
+  tasksStatusOpen: string;
+  tasksStatusDone: string;
+  tasksStatusAll: string;
+  tasksMeeting: string;
+  tasksAllMeetings: string;
+  tasksGroupByOwner: string;
+  tasksDueDate: string;
+  tasksOverdue: string;
+  tasksMarkDone: string;
+  tasksMarkOpen: string;
+  tasksOpenMeeting: string;
+  tasksSaveError: string;
+  // Upload progress
+  uploadingPercent: string;
+  uploadingHint: string;
+  processingOnServer: string;
+  processingOnServerHint: string;
+  retryingUpload: string;
+  cancelAnalysis: string;
+  analysisCancelled: string;
+  // Analysis jobs
+  jobQueued: string;
+  jobProcessingPercent: string;
+  jobSafeToLeave: string;
+  jobResuming: string;
+  jobResumed: string;
+  jobResumedSaved: string;
+  jobFailed: string;
+  jobResumeLater: string;
+  // Streaming results
+  streamSummaryPending: string;
+  streamTranscriptPending: string;
+  streamDecisionsPending: string;
+  // Analysis queue
+  queueTitle: string;
+  queueProgress: string;
+  queueAnalyze: string;
+  queueStatusWaiting: string;
+  queueStatusUploading: string;
+  queueStatusProcessing: string;
+  queueStatusDone: string;
+  queueStatusFailed: string;
+  queueStatusBlocked: string;
+  queueStatusCancelled: string;
+  queueRetry: string;
+  queueRemove: string;
+  queueView: string;
+  queueClearDone: string;
+  queueLimitNote: string;
+  // Audio validation
+  audioChecking: string;
+  audioErrorFormat: string;
+  audioErrorSize: string;
+  audioErrorDuration: string;
+  audioErrorDecode: string;
+  audioErrorSilent: string;
+  audioMono: string;
+  audioStereo: string;
+  audioChannels: string;
+  // Audio trim editor
+  trimAudio: string;
+  trimTitle: string;
+  trimHint: string;
+  trimLoading: string;
+  trimTooLong: string;
+  trimDecodeError: string;
+  trimStart: string;
+  trimEnd: string;
+  trimKeepSelection: string;
+  trimCutSelection: string;
+  trimCuts: string;
+  trimRestoreCut: string;
+  trimReset: string;
+  trimPreview: string;
+  trimResultDuration: string;
+  trimApply: string;
+  // Recorder controls
+  pauseRecording: string;
+  resumeRecording: string;
+  recordingPaused: string;
+  microphoneLabel: string;
+  defaultMicrophone: string;
+  microphoneUnavailable: string;
+  inputLevel: string;
+  noAudioDetected: string;
+  recordingLimitWarning: string;
+  recordingLimitReached: string;
+  // Recording recovery
+  recordingBackupFailed: string;
+  recordingRecoveryFound: string;
+  recordingRecover: string;
+  recordingDownload: string;
+  recordingDiscard: string;
+  recordingRecoveryError: string;
+  // Recording source
+  recordingSourceLabel: string;
+  recordingSourceMic: string;
+  recordingSourceMix: string;
+  systemAudioHint: string;
+  systemAudioUnsupported: string;
+  systemAudioDenied: string;
+  systemAudioMissing: string;
+  systemAudioEnded: string;
+  micVolume: string;
+  systemVolume: string;
+  // Live transcription
+  liveTranscriptToggle: string;
+  liveTranscriptTitle: string;
+  liveTranscriptListening: string;
+  liveTranscriptFinishing: string;
+  liveTranscriptUnavailable: string;
+  liveTranscriptNote: string;
+  // Recording bookmarks and notes
+  markMoment: string;
+  notePlaceholder: string;
+  addNote: string;
+  markersTitle: string;
+  markerBookmark: string;
+  removeMarker: string;
+  // transcript
+  transcriptMode: string;
+  transcriptPlaceholder: string;
+  transcriptChooseFile: string;
+  transcriptFileHint: string;
+  transcriptReading: string;
+  transcriptWords: string;
+  transcriptCues: string;
+  transcriptSpeakers: string;
+  transcriptFormatText: string;
+  transcriptErrorFormat: string;
+  transcriptErrorSize: string;
+  transcriptErrorEmpty: string;
+  transcriptErrorRead: string;
+  pastedTranscript: string;
+  fromTranscript: string;
+  // subtitles
+  exportSrt: string;
+  exportVtt: string;
+  subtitlesTranslated: string;
+  subtitlesOriginal: string;
+  // meeting details
+  meetingDetails: string;
+  meetingDetailsEmpty: string;
+  editMeetingDetails: string;
+  meetingTitleLabel: string;
+  suggestTitle: string;
+  meetingDateLabel: string;
+  meetingTagsLabel: string;
+  meetingTagsPlaceholder: string;
+  meetingAttendeesLabel: string;
+  meetingAttendeesPlaceholder: string;
+  removeListEntry: string;
+  meetingDetailsSaved: string;
+  meetingDetailsSaveError: string;
+  filterTag: string;
+  filterAllTags: string;
+  filterByTag: string;
+  // meeting edits
+  meetingEditsUnsupported: string;
+  // tab audio silence
+  noSystemAudioDetected: string;
+  // Unsaved result
+  notInHistory: string;
+  // Audio purge
+  purgeAudioError: string;
+  // Trim size limit
+  trimTooLarge: string;
 }
 
 const I18N: Record<UiLang, I18nStrings> = {
@@ -314,8 +562,6 @@ const I18N: Record<UiLang, I18nStrings> = {
     recordingInProgress: "Recording in progress...",
     deleteRecording: "Delete recording",
     useRecording: "Use recording",
-    orUploadFile: "or upload a file",
-    orRecordMeeting: "or record a meeting",
     recordingNotSupported: "Recording is not supported in this browser",
     microphonePermissionDenied: "Microphone access denied. Please allow microphone access to record.",
     // Supported formats
@@ -330,6 +576,256 @@ const I18N: Record<UiLang, I18nStrings> = {
     // Accessibility labels
     selectLanguage: "Select language",
     toggleTheme: "Toggle theme",
+    // History sync
+    historyLoading: "Loading your meetings…",
+    historyLoadError: "Couldn't load your meetings.",
+    historyDeleteError: "Couldn't delete the meeting. Please try again.",
+    retry: "Retry",
+    // Document export
+    exportDocumentTitle: "Meeting Summary",
+    exportOwner: "Owner",
+    // Text export formats
+    exportMarkdown: "Export as Markdown (.md)",
+    exportText: "Export as plain text (.txt)",
+    exportJson: "Export as JSON (.json)",
+    // History search
+    historySearchPlaceholder: "Search summaries, transcripts, people, decisions…",
+    clearSearch: "Clear search",
+    filterLanguage: "Language",
+    filterAllLanguages: "All languages",
+    filterFrom: "From",
+    filterTo: "To",
+    filterHasActionItems: "Has action items",
+    filterExport: "Export status",
+    filterExportAll: "Any export status",
+    filterExported: "Exported",
+    filterNotExported: "Not exported",
+    sortBy: "Sort",
+    sortNewest: "Newest first",
+    sortOldest: "Oldest first",
+    sortName: "File name (A–Z)",
+    sortMostActions: "Most action items",
+    clearFilters: "Clear filters",
+    historyNoMatches: "No meetings match your search",
+    historyShowing: "Showing {shown} of {total}",
+    matchIn: "Match in",
+    // Local storage
+    storageFull: "Browser storage is full, so this meeting wasn't saved to History. Delete old meetings to free up space.",
+    historySaveError: "Couldn't save this meeting to History",
+    storageTitle: "Storage",
+    storageDescription: "Space used by Speechi in this browser",
+    storageUsage: "{used} of {quota} used",
+    storageUnavailable: "This browser doesn't report storage usage",
+    storageAlmostFull: "Storage is almost full. Delete old meetings to keep saving new ones.",
+    // Meeting audio
+    audioTitle: "Meeting audio",
+    keepAudio: "Keep meeting audio",
+    keepAudioDescription: "Save the recorded or uploaded audio with each meeting on this device so you can play it back in History",
+    audioUsage: "{count} recordings · {size}",
+    purgeAudio: "Delete all audio",
+    purgeAudioConfirm: "Delete all stored audio?",
+    purgeAudioConfirmBody: "Transcripts and analyses stay in History. Only the audio files are removed from this device.",
+    originalAudio: "Original audio",
+    deleteAudio: "Delete audio",
+    deleteAudioConfirm: "Delete this meeting's audio?",
+    deleteAudioConfirmBody: "The transcript and analysis stay in History.",
+    audioDeleted: "Audio deleted",
+    audioStorageFull: "Storage is full, so the meeting audio wasn't saved. The analysis is still in History.",
+    audioSaveError: "Couldn't save the meeting audio",
+    // Transcript segments
+    playFrom: "Play from",
+    // Speakers
+    speakersTitle: "Speakers",
+    speakersHint: "Match each speaker to a participant",
+    speakerKeepLabel: "Keep label",
+    speakersSaveError: "Couldn't save the speaker names",
+    // Analysis editing
+    editAnalysis: "Edit",
+    saveEdits: "Save changes",
+    edited: "Edited",
+    editingHint: "Changes apply to History and exports",
+    addDecision: "Add decision",
+    addActionItem: "Add action item",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    removeItem: "Remove",
+    editsSaved: "Changes saved",
+    editsSaveError: "Couldn't save your changes to History",
+    // Tasks
+    tasks: "Tasks",
+    tasksTitle: "Action items",
+    tasksSummary: "{open} open · {done} done",
+    tasksEmpty: "No action items yet",
+    tasksEmptyHint: "Action items from your analyzed meetings will appear here",
+    tasksNoMatches: "No action items match these filters",
+    tasksStatus: "Status",
+    tasksStatusOpen: "Open",
+    tasksStatusDone: "Done",
+    tasksStatusAll: "All",
+    tasksMeeting: "Meeting",
+    tasksAllMeetings: "All meetings",
+    tasksGroupByOwner: "Group by owner",
+    tasksDueDate: "Due date",
+    tasksOverdue: "Overdue",
+    tasksMarkDone: "Mark as done",
+    tasksMarkOpen: "Mark as open",
+    tasksOpenMeeting: "Open meeting",
+    tasksSaveError: "Couldn't update the action item. Try again.",
+    // Upload progress
+    uploadingPercent: "Uploading… {percent}%",
+    uploadingHint: "{loaded} of {total}",
+    processingOnServer: "Processing on server…",
+    processingOnServerHint: "Transcribing and analyzing. Long recordings can take several minutes.",
+    retryingUpload: "Connection problem — retrying (attempt {attempt} of {max})…",
+    cancelAnalysis: "Cancel",
+    analysisCancelled: "Analysis cancelled",
+    // Analysis jobs
+    jobQueued: "Waiting in queue…",
+    jobProcessingPercent: "Processing on server… {percent}%",
+    jobSafeToLeave: "You can close this tab — the analysis continues and its result will appear here when you come back.",
+    jobResuming: "Finishing the analysis of {file}…",
+    jobResumed: "The analysis of {file} finished while you were away",
+    jobResumedSaved: "The analysis of {file} finished and was saved to History",
+    jobFailed: "The analysis of {file} failed: {reason}",
+    jobResumeLater: "Couldn't reach the server for {file}. It will be checked again next time.",
+    // Streaming results
+    streamSummaryPending: "The summary will appear here when it's ready…",
+    streamTranscriptPending: "The transcript will fill in here as it's produced…",
+    streamDecisionsPending: "Decisions and action items will appear here as they're found…",
+    // Analysis queue
+    queueTitle: "Queue",
+    queueProgress: "{done} of {total} analyzed",
+    queueAnalyze: "Analyze {count} files",
+    queueStatusWaiting: "Waiting",
+    queueStatusUploading: "Uploading",
+    queueStatusProcessing: "Analyzing",
+    queueStatusDone: "Done",
+    queueStatusFailed: "Failed",
+    queueStatusBlocked: "On hold",
+    queueStatusCancelled: "Cancelled",
+    queueRetry: "Retry",
+    queueRemove: "Remove",
+    queueView: "View",
+    queueClearDone: "Clear finished",
+    queueLimitNote: "{count} files are on hold because the daily limit of {limit} analyses was reached. They stay in the queue so you can analyze them once the limit resets.",
+    // Audio validation
+    audioChecking: "Checking audio…",
+    audioErrorFormat: "{file}: unsupported format. Please use: {formats}",
+    audioErrorSize: "{file} is {size}; files can be up to {max}",
+    audioErrorDuration: "{file} is {duration} long; recordings can be up to {max}",
+    audioErrorDecode: "{file} can't be read as audio. It may be corrupt or use an unsupported codec",
+    audioErrorSilent: "{file} seems to be silent. Check the recording and try again",
+    audioMono: "Mono",
+    audioStereo: "Stereo",
+    audioChannels: "{count} channels",
+    // Audio trim editor
+    trimAudio: "Trim or cut audio",
+    trimTitle: "Edit audio",
+    trimHint: "Drag across the waveform to select a section, then keep only that part or cut it out.",
+    trimLoading: "Preparing the waveform…",
+    trimTooLong: "Recordings longer than {max} can't be edited in the browser",
+    trimDecodeError: "This file couldn't be opened for editing",
+    trimStart: "Start",
+    trimEnd: "End",
+    trimKeepSelection: "Keep selection",
+    trimCutSelection: "Cut selection",
+    trimCuts: "Cut sections",
+    trimRestoreCut: "Restore",
+    trimReset: "Reset",
+    trimPreview: "Preview",
+    trimResultDuration: "Result: {duration} of {original}",
+    trimApply: "Use edited audio",
+    // Recorder controls
+    pauseRecording: "Pause",
+    resumeRecording: "Resume",
+    recordingPaused: "Paused",
+    microphoneLabel: "Microphone",
+    defaultMicrophone: "System default",
+    microphoneUnavailable: "The selected microphone isn't available, so the default one is used",
+    inputLevel: "Input level",
+    noAudioDetected: "No audio detected — check that your microphone isn't muted",
+    recordingLimitWarning: "Recording stops automatically in {time}",
+    recordingLimitReached: "Recording stopped automatically after {minutes} minutes",
+    // Recording recovery
+    recordingBackupFailed: "Browser storage is full, so this recording is only kept in memory — don't close the tab",
+    recordingRecoveryFound: "An unfinished recording from {date} ({duration}) was found",
+    recordingRecover: "Recover",
+    recordingDownload: "Download",
+    recordingDiscard: "Discard",
+    recordingRecoveryError: "The saved recording couldn't be read",
+    // Recording source
+    recordingSourceLabel: "Record from",
+    recordingSourceMic: "Microphone only",
+    recordingSourceMix: "Tab or system audio + microphone",
+    systemAudioHint: "You'll be asked what to share. Pick the meeting tab and turn on “Share tab audio” so the other participants are recorded.",
+    systemAudioUnsupported: "This browser can't capture tab or system audio. Use Chrome or Edge on a computer, or record the microphone only.",
+    systemAudioDenied: "Screen sharing was cancelled, so the recording didn't start",
+    systemAudioMissing: "No audio was shared. Pick a tab and turn on “Share tab audio”, or record the microphone only.",
+    systemAudioEnded: "Tab sharing stopped — the recording continues with the microphone only",
+    micVolume: "Microphone volume",
+    systemVolume: "Tab audio volume",
+    // Live transcription
+    liveTranscriptToggle: "Show a live transcript while recording",
+    liveTranscriptTitle: "Live transcript",
+    liveTranscriptListening: "Listening…",
+    liveTranscriptFinishing: "Finishing the last words…",
+    liveTranscriptUnavailable: "Live transcript unavailable — the recording continues and will be fully analyzed",
+    liveTranscriptNote: "This is a quick preview. Use the recording to get the full transcript and analysis.",
+    // Recording bookmarks and notes
+    markMoment: "Mark this moment",
+    notePlaceholder: "Type a note and press Enter",
+    addNote: "Add note",
+    markersTitle: "Bookmarks & notes",
+    markerBookmark: "Bookmark",
+    removeMarker: "Remove",
+    // transcript
+    transcriptMode: "Paste transcript",
+    transcriptPlaceholder: "Paste a meeting transcript here — plain text, or WebVTT/SRT captions from Zoom or Teams",
+    transcriptChooseFile: "Choose a transcript file",
+    transcriptFileHint: "or drop a .txt, .vtt, .srt or .docx file here",
+    transcriptReading: "Reading transcript…",
+    transcriptWords: "{count} words",
+    transcriptCues: "{count} timed cues",
+    transcriptSpeakers: "{count} speakers",
+    transcriptFormatText: "Text",
+    transcriptErrorFormat: "{file} isn't a supported transcript. Use a .txt, .vtt, .srt or .docx file.",
+    transcriptErrorSize: "{file} is too large for a transcript (over {max}).",
+    transcriptErrorEmpty: "{file} has no text to analyze.",
+    transcriptErrorRead: "{file} couldn't be read.",
+    pastedTranscript: "Pasted transcript",
+    fromTranscript: "Transcript",
+    // subtitles
+    exportSrt: "Export subtitles (.srt)",
+    exportVtt: "Export subtitles (.vtt)",
+    subtitlesTranslated: "Translated",
+    subtitlesOriginal: "Original",
+    // meeting details
+    meetingDetails: "Meeting details",
+    meetingDetailsEmpty: "Add a title, the meeting date, tags and attendees to find this meeting later",
+    editMeetingDetails: "Edit details",
+    meetingTitleLabel: "Title",
+    suggestTitle: "Suggest",
+    meetingDateLabel: "Meeting date",
+    meetingTagsLabel: "Tags",
+    meetingTagsPlaceholder: "Add a tag and press Enter",
+    meetingAttendeesLabel: "Expected attendees",
+    meetingAttendeesPlaceholder: "Add a name and press Enter",
+    removeListEntry: "Remove {value}",
+    meetingDetailsSaved: "Meeting details saved",
+    meetingDetailsSaveError: "Couldn't save the meeting details",
+    filterTag: "Tag",
+    filterAllTags: "All tags",
+    filterByTag: "Show meetings tagged #{tag}",
+    // meeting edits
+    meetingEditsUnsupported: "This server doesn't support editing saved meetings, so the change wasn't saved",
+    // tab audio silence
+    noSystemAudioDetected: "No audio from the shared tab — check that the meeting isn't muted and that “Share tab audio” is on",
+    // Unsaved result
+    notInHistory: "This meeting isn't saved in History, so changes stay on this page only",
+    // Audio purge
+    purgeAudioError: "Couldn't delete the stored audio. Please try again",
+    // Trim size limit
+    trimTooLarge: "Files larger than {max} can't be edited in the browser",
   },
   he: {
     tagline: "Turn conversations into clarity.",
@@ -474,8 +970,6 @@ const I18N: Record<UiLang, I18nStrings> = {
     recordingInProgress: "הקלטה בתהליך...",
     deleteRecording: "מחק הקלטה",
     useRecording: "השתמש בהקלטה",
-    orUploadFile: "או העלה קובץ",
-    orRecordMeeting: "או הקלט פגישה",
     recordingNotSupported: "הקלטה לא נתמכת בדפדפן זה",
     microphonePermissionDenied: "הגישה למיקרופון נדחתה. אנא אשר גישה למיקרופון כדי להקליט.",
     // Supported formats
@@ -490,6 +984,256 @@ const I18N: Record<UiLang, I18nStrings> = {
     // Accessibility labels
     selectLanguage: "בחר שפה",
     toggleTheme: "החלף ערכת נושא",
+    // History sync
+    historyLoading: "טוען את הפגישות שלך…",
+    historyLoadError: "לא ניתן לטעון את הפגישות שלך.",
+    historyDeleteError: "לא ניתן למחוק את הפגישה. נסה שוב.",
+    retry: "נסה שוב",
+    // Document export
+    exportDocumentTitle: "סיכום פגישה",
+    exportOwner: "אחראי",
+    // Text export formats
+    exportMarkdown: "ייצא כ-Markdown (.md)",
+    exportText: "ייצא כטקסט פשוט (.txt)",
+    exportJson: "ייצא כ-JSON (.json)",
+    // History search
+    historySearchPlaceholder: "חיפוש בסיכומים, תמלולים, משתתפים, החלטות…",
+    clearSearch: "ניקוי חיפוש",
+    filterLanguage: "שפה",
+    filterAllLanguages: "כל השפות",
+    filterFrom: "מתאריך",
+    filterTo: "עד תאריך",
+    filterHasActionItems: "עם משימות",
+    filterExport: "סטטוס ייצוא",
+    filterExportAll: "כל סטטוס ייצוא",
+    filterExported: "יוצאו",
+    filterNotExported: "לא יוצאו",
+    sortBy: "מיון",
+    sortNewest: "החדשות ביותר",
+    sortOldest: "הישנות ביותר",
+    sortName: "שם קובץ (א–ת)",
+    sortMostActions: "הכי הרבה משימות",
+    clearFilters: "ניקוי מסננים",
+    historyNoMatches: "אין פגישות שתואמות לחיפוש",
+    historyShowing: "מוצגות {shown} מתוך {total}",
+    matchIn: "התאמה ב",
+    // Local storage
+    storageFull: "אחסון הדפדפן מלא, ולכן הפגישה לא נשמרה בהיסטוריה. מחקו פגישות ישנות כדי לפנות מקום.",
+    historySaveError: "לא ניתן היה לשמור את הפגישה בהיסטוריה",
+    storageTitle: "אחסון",
+    storageDescription: "המקום ש-Speechi תופס בדפדפן זה",
+    storageUsage: "{used} מתוך {quota} בשימוש",
+    storageUnavailable: "הדפדפן אינו מדווח על שימוש באחסון",
+    storageAlmostFull: "האחסון כמעט מלא. מחקו פגישות ישנות כדי להמשיך לשמור חדשות.",
+    // Meeting audio
+    audioTitle: "הקלטות פגישות",
+    keepAudio: "שמירת שמע הפגישה",
+    keepAudioDescription: "שמירת השמע שהוקלט או הועלה יחד עם כל פגישה במכשיר זה, כדי להאזין לו שוב בהיסטוריה",
+    audioUsage: "{count} הקלטות · {size}",
+    purgeAudio: "מחיקת כל השמע",
+    purgeAudioConfirm: "למחוק את כל השמע השמור?",
+    purgeAudioConfirmBody: "התמלולים והניתוחים יישארו בהיסטוריה. רק קובצי השמע יימחקו מהמכשיר.",
+    originalAudio: "שמע מקורי",
+    deleteAudio: "מחיקת שמע",
+    deleteAudioConfirm: "למחוק את השמע של פגישה זו?",
+    deleteAudioConfirmBody: "התמלול והניתוח יישארו בהיסטוריה.",
+    audioDeleted: "השמע נמחק",
+    audioStorageFull: "האחסון מלא, ולכן שמע הפגישה לא נשמר. הניתוח עדיין בהיסטוריה.",
+    audioSaveError: "לא ניתן היה לשמור את שמע הפגישה",
+    // Transcript segments
+    playFrom: "ניגון מ-",
+    // Speakers
+    speakersTitle: "דוברים",
+    speakersHint: "שייכו כל דובר למשתתף",
+    speakerKeepLabel: "השארת התווית",
+    speakersSaveError: "לא ניתן היה לשמור את שמות הדוברים",
+    // Analysis editing
+    editAnalysis: "עריכה",
+    saveEdits: "שמירת שינויים",
+    edited: "נערך",
+    editingHint: "השינויים יחולו על ההיסטוריה ועל הייצוא",
+    addDecision: "הוספת החלטה",
+    addActionItem: "הוספת משימה",
+    moveUp: "הזזה למעלה",
+    moveDown: "הזזה למטה",
+    removeItem: "הסרה",
+    editsSaved: "השינויים נשמרו",
+    editsSaveError: "לא ניתן היה לשמור את השינויים בהיסטוריה",
+    // Tasks
+    tasks: "משימות",
+    tasksTitle: "משימות לביצוע",
+    tasksSummary: "{open} פתוחות · {done} הושלמו",
+    tasksEmpty: "אין עדיין משימות",
+    tasksEmptyHint: "משימות מהפגישות שניתחת יופיעו כאן",
+    tasksNoMatches: "אין משימות שתואמות לסינון",
+    tasksStatus: "סטטוס",
+    tasksStatusOpen: "פתוחות",
+    tasksStatusDone: "הושלמו",
+    tasksStatusAll: "הכול",
+    tasksMeeting: "פגישה",
+    tasksAllMeetings: "כל הפגישות",
+    tasksGroupByOwner: "קיבוץ לפי אחראי",
+    tasksDueDate: "תאריך יעד",
+    tasksOverdue: "באיחור",
+    tasksMarkDone: "סימון כהושלמה",
+    tasksMarkOpen: "סימון כפתוחה",
+    tasksOpenMeeting: "פתיחת הפגישה",
+    tasksSaveError: "לא ניתן לעדכן את המשימה. נסו שוב.",
+    // Upload progress
+    uploadingPercent: "מעלה… {percent}%",
+    uploadingHint: "{loaded} מתוך {total}",
+    processingOnServer: "מעבד בשרת…",
+    processingOnServerHint: "מתמלל ומנתח. הקלטות ארוכות עשויות לקחת כמה דקות.",
+    retryingUpload: "בעיית חיבור — מנסה שוב (ניסיון {attempt} מתוך {max})…",
+    cancelAnalysis: "ביטול",
+    analysisCancelled: "הניתוח בוטל",
+    // Analysis jobs
+    jobQueued: "ממתין בתור…",
+    jobProcessingPercent: "מעבד בשרת… {percent}%",
+    jobSafeToLeave: "אפשר לסגור את הלשונית — הניתוח ממשיך והתוצאה תופיע כאן כשתחזרו.",
+    jobResuming: "משלים את הניתוח של {file}…",
+    jobResumed: "הניתוח של {file} הסתיים בזמן שלא הייתם כאן",
+    jobResumedSaved: "הניתוח של {file} הסתיים ונשמר בהיסטוריה",
+    jobFailed: "הניתוח של {file} נכשל: {reason}",
+    jobResumeLater: "לא ניתן להגיע לשרת עבור {file}. ננסה שוב בפעם הבאה.",
+    // Streaming results
+    streamSummaryPending: "הסיכום יופיע כאן כשיהיה מוכן…",
+    streamTranscriptPending: "התמלול יתמלא כאן תוך כדי עיבוד…",
+    streamDecisionsPending: "החלטות ומשימות יופיעו כאן כשיימצאו…",
+    // Analysis queue
+    queueTitle: "תור",
+    queueProgress: "{done} מתוך {total} נותחו",
+    queueAnalyze: "נתח {count} קבצים",
+    queueStatusWaiting: "ממתין",
+    queueStatusUploading: "מעלה",
+    queueStatusProcessing: "מנתח",
+    queueStatusDone: "הושלם",
+    queueStatusFailed: "נכשל",
+    queueStatusBlocked: "בהמתנה",
+    queueStatusCancelled: "בוטל",
+    queueRetry: "נסה שוב",
+    queueRemove: "הסר",
+    queueView: "צפה",
+    queueClearDone: "נקה שהושלמו",
+    queueLimitNote: "{count} קבצים בהמתנה כי הגעת למגבלה היומית של {limit} ניתוחים. הם יישארו בתור כדי שתוכל לנתח אותם כשהמגבלה תתאפס.",
+    // Audio validation
+    audioChecking: "בודק את האודיו…",
+    audioErrorFormat: "{file}: פורמט לא נתמך. השתמש ב: {formats}",
+    audioErrorSize: "{file} בגודל {size}; הגודל המרבי הוא {max}",
+    audioErrorDuration: "אורך {file} הוא {duration}; האורך המרבי הוא {max}",
+    audioErrorDecode: "לא ניתן לקרוא את {file} כאודיו. ייתכן שהקובץ פגום או משתמש בקידוד לא נתמך",
+    audioErrorSilent: "נראה ש-{file} שקט. בדוק את ההקלטה ונסה שוב",
+    audioMono: "מונו",
+    audioStereo: "סטריאו",
+    audioChannels: "{count} ערוצים",
+    // Audio trim editor
+    trimAudio: "קיצוץ או חיתוך אודיו",
+    trimTitle: "עריכת אודיו",
+    trimHint: "גרור על צורת הגל כדי לבחור קטע, ואז השאר רק אותו או חתוך אותו.",
+    trimLoading: "מכין את צורת הגל…",
+    trimTooLong: "לא ניתן לערוך בדפדפן הקלטות ארוכות מ-{max}",
+    trimDecodeError: "לא ניתן לפתוח את הקובץ לעריכה",
+    trimStart: "התחלה",
+    trimEnd: "סוף",
+    trimKeepSelection: "השאר את הבחירה",
+    trimCutSelection: "חתוך את הבחירה",
+    trimCuts: "קטעים שנחתכו",
+    trimRestoreCut: "שחזר",
+    trimReset: "איפוס",
+    trimPreview: "תצוגה מקדימה",
+    trimResultDuration: "תוצאה: {duration} מתוך {original}",
+    trimApply: "השתמש באודיו הערוך",
+    // Recorder controls
+    pauseRecording: "השהה",
+    resumeRecording: "המשך",
+    recordingPaused: "מושהה",
+    microphoneLabel: "מיקרופון",
+    defaultMicrophone: "ברירת המחדל של המערכת",
+    microphoneUnavailable: "המיקרופון שנבחר אינו זמין, לכן נעשה שימוש בברירת המחדל",
+    inputLevel: "עוצמת קלט",
+    noAudioDetected: "לא זוהה שמע — ודא שהמיקרופון אינו מושתק",
+    recordingLimitWarning: "ההקלטה תיעצר אוטומטית בעוד {time}",
+    recordingLimitReached: "ההקלטה נעצרה אוטומטית לאחר {minutes} דקות",
+    // Recording recovery
+    recordingBackupFailed: "אחסון הדפדפן מלא, לכן ההקלטה נשמרת רק בזיכרון — אל תסגור את הלשונית",
+    recordingRecoveryFound: "נמצאה הקלטה שלא הושלמה מ-{date} ({duration})",
+    recordingRecover: "שחזר",
+    recordingDownload: "הורד",
+    recordingDiscard: "מחק",
+    recordingRecoveryError: "לא ניתן לקרוא את ההקלטה השמורה",
+    // Recording source
+    recordingSourceLabel: "הקלטה מ",
+    recordingSourceMic: "מיקרופון בלבד",
+    recordingSourceMix: "שמע לשונית או מערכת + מיקרופון",
+    systemAudioHint: "תתבקשו לבחור מה לשתף. בחרו את לשונית הפגישה והפעילו את „שיתוף אודיו של הכרטיסייה” כדי שגם שאר המשתתפים יוקלטו.",
+    systemAudioUnsupported: "הדפדפן הזה לא יכול להקליט שמע מלשונית או מהמערכת. השתמשו ב-Chrome או ב-Edge במחשב, או הקליטו מהמיקרופון בלבד.",
+    systemAudioDenied: "שיתוף המסך בוטל ולכן ההקלטה לא התחילה",
+    systemAudioMissing: "לא שותף שמע. בחרו לשונית והפעילו את „שיתוף אודיו של הכרטיסייה”, או הקליטו מהמיקרופון בלבד.",
+    systemAudioEnded: "שיתוף הלשונית הופסק — ההקלטה ממשיכה מהמיקרופון בלבד",
+    micVolume: "עוצמת המיקרופון",
+    systemVolume: "עוצמת שמע הלשונית",
+    // Live transcription
+    liveTranscriptToggle: "הצגת תמלול חי בזמן ההקלטה",
+    liveTranscriptTitle: "תמלול חי",
+    liveTranscriptListening: "מאזין…",
+    liveTranscriptFinishing: "משלים את המילים האחרונות…",
+    liveTranscriptUnavailable: "התמלול החי אינו זמין — ההקלטה ממשיכה ותנותח במלואה",
+    liveTranscriptNote: "זוהי תצוגה מקדימה מהירה. השתמשו בהקלטה כדי לקבל את התמלול והניתוח המלאים.",
+    // Recording bookmarks and notes
+    markMoment: "סימון הרגע הזה",
+    notePlaceholder: "הקלידו הערה והקישו Enter",
+    addNote: "הוספת הערה",
+    markersTitle: "סימניות והערות",
+    markerBookmark: "סימנייה",
+    removeMarker: "הסרה",
+    // transcript
+    transcriptMode: "הדבק תמלול",
+    transcriptPlaceholder: "הדביקו כאן תמלול של פגישה — טקסט רגיל או כתוביות WebVTT/SRT מ-Zoom או Teams",
+    transcriptChooseFile: "בחרו קובץ תמלול",
+    transcriptFileHint: "או גררו לכאן קובץ ‎.txt, .vtt, .srt או ‎.docx",
+    transcriptReading: "קורא את התמלול…",
+    transcriptWords: "{count} מילים",
+    transcriptCues: "{count} קטעים מתוזמנים",
+    transcriptSpeakers: "{count} דוברים",
+    transcriptFormatText: "טקסט",
+    transcriptErrorFormat: "{file} אינו תמלול נתמך. השתמשו בקובץ ‎.txt, .vtt, .srt או ‎.docx.",
+    transcriptErrorSize: "{file} גדול מדי לתמלול (מעל {max}).",
+    transcriptErrorEmpty: "ב-{file} אין טקסט לניתוח.",
+    transcriptErrorRead: "לא ניתן לקרוא את {file}.",
+    pastedTranscript: "תמלול שהודבק",
+    fromTranscript: "תמלול",
+    // subtitles
+    exportSrt: "ייצא כתוביות (.srt)",
+    exportVtt: "ייצא כתוביות (.vtt)",
+    subtitlesTranslated: "מתורגם",
+    subtitlesOriginal: "מקור",
+    // meeting details
+    meetingDetails: "פרטי הפגישה",
+    meetingDetailsEmpty: "הוסיפו כותרת, תאריך פגישה, תגיות ומשתתפים כדי למצוא את הפגישה בהמשך",
+    editMeetingDetails: "עריכת פרטים",
+    meetingTitleLabel: "כותרת",
+    suggestTitle: "הצע",
+    meetingDateLabel: "תאריך הפגישה",
+    meetingTagsLabel: "תגיות",
+    meetingTagsPlaceholder: "הוסיפו תגית והקישו Enter",
+    meetingAttendeesLabel: "משתתפים צפויים",
+    meetingAttendeesPlaceholder: "הוסיפו שם והקישו Enter",
+    removeListEntry: "הסר את {value}",
+    meetingDetailsSaved: "פרטי הפגישה נשמרו",
+    meetingDetailsSaveError: "לא ניתן לשמור את פרטי הפגישה",
+    filterTag: "תגית",
+    filterAllTags: "כל התגיות",
+    filterByTag: "הצג פגישות עם התגית #{tag}",
+    // meeting edits
+    meetingEditsUnsupported: "השרת הזה אינו תומך בעריכת פגישות שמורות, ולכן השינוי לא נשמר",
+    // tab audio silence
+    noSystemAudioDetected: "לא מגיע שמע מהלשונית המשותפת — ודאו שהפגישה אינה מושתקת ושהאפשרות „שיתוף אודיו של הכרטיסייה” פעילה",
+    // Unsaved result
+    notInHistory: "הפגישה לא נשמרה בהיסטוריה, ולכן השינויים יישארו רק בדף הזה",
+    // Audio purge
+    purgeAudioError: "לא ניתן היה למחוק את השמע השמור. נסו שוב",
+    // Trim size limit
+    trimTooLarge: "לא ניתן לערוך בדפדפן קבצים גדולים מ-{max}",
   },
   fr: {
     tagline: "Turn conversations into clarity.",
@@ -634,8 +1378,6 @@ const I18N: Record<UiLang, I18nStrings> = {
     recordingInProgress: "Enregistrement en cours...",
     deleteRecording: "Supprimer l'enregistrement",
     useRecording: "Utiliser l'enregistrement",
-    orUploadFile: "ou téléverser un fichier",
-    orRecordMeeting: "ou enregistrer une réunion",
     recordingNotSupported: "L'enregistrement n'est pas pris en charge dans ce navigateur",
     microphonePermissionDenied: "Accès au microphone refusé. Veuillez autoriser l'accès au microphone pour enregistrer.",
     // Supported formats
@@ -650,6 +1392,256 @@ const I18N: Record<UiLang, I18nStrings> = {
     // Accessibility labels
     selectLanguage: "Sélectionner la langue",
     toggleTheme: "Changer de thème",
+    // History sync
+    historyLoading: "Chargement de vos réunions…",
+    historyLoadError: "Impossible de charger vos réunions.",
+    historyDeleteError: "Impossible de supprimer la réunion. Veuillez réessayer.",
+    retry: "Réessayer",
+    // Document export
+    exportDocumentTitle: "Compte rendu de réunion",
+    exportOwner: "Responsable",
+    // Text export formats
+    exportMarkdown: "Exporter en Markdown (.md)",
+    exportText: "Exporter en texte brut (.txt)",
+    exportJson: "Exporter en JSON (.json)",
+    // History search
+    historySearchPlaceholder: "Rechercher résumés, transcriptions, personnes, décisions…",
+    clearSearch: "Effacer la recherche",
+    filterLanguage: "Langue",
+    filterAllLanguages: "Toutes les langues",
+    filterFrom: "Du",
+    filterTo: "Au",
+    filterHasActionItems: "Avec actions",
+    filterExport: "Statut d'export",
+    filterExportAll: "Tous les statuts",
+    filterExported: "Exportées",
+    filterNotExported: "Non exportées",
+    sortBy: "Trier",
+    sortNewest: "Plus récentes",
+    sortOldest: "Plus anciennes",
+    sortName: "Nom de fichier (A–Z)",
+    sortMostActions: "Le plus d'actions",
+    clearFilters: "Effacer les filtres",
+    historyNoMatches: "Aucune réunion ne correspond à votre recherche",
+    historyShowing: "{shown} sur {total} affichées",
+    matchIn: "Correspondance dans",
+    // Local storage
+    storageFull: "Le stockage du navigateur est plein : cette réunion n'a pas été enregistrée dans l'historique. Supprimez d'anciennes réunions pour libérer de l'espace.",
+    historySaveError: "Impossible d'enregistrer cette réunion dans l'historique",
+    storageTitle: "Stockage",
+    storageDescription: "Espace utilisé par Speechi dans ce navigateur",
+    storageUsage: "{used} utilisés sur {quota}",
+    storageUnavailable: "Ce navigateur n'indique pas l'utilisation du stockage",
+    storageAlmostFull: "Le stockage est presque plein. Supprimez d'anciennes réunions pour continuer à en enregistrer.",
+    // Meeting audio
+    audioTitle: "Audio des réunions",
+    keepAudio: "Conserver l'audio des réunions",
+    keepAudioDescription: "Enregistrer l'audio enregistré ou importé avec chaque réunion sur cet appareil pour le réécouter dans l'historique",
+    audioUsage: "{count} enregistrements · {size}",
+    purgeAudio: "Supprimer tout l'audio",
+    purgeAudioConfirm: "Supprimer tout l'audio enregistré ?",
+    purgeAudioConfirmBody: "Les transcriptions et analyses restent dans l'historique. Seuls les fichiers audio sont supprimés de cet appareil.",
+    originalAudio: "Audio original",
+    deleteAudio: "Supprimer l'audio",
+    deleteAudioConfirm: "Supprimer l'audio de cette réunion ?",
+    deleteAudioConfirmBody: "La transcription et l'analyse restent dans l'historique.",
+    audioDeleted: "Audio supprimé",
+    audioStorageFull: "Le stockage est plein : l'audio n'a pas été enregistré. L'analyse reste dans l'historique.",
+    audioSaveError: "Impossible d'enregistrer l'audio de la réunion",
+    // Transcript segments
+    playFrom: "Lire à partir de",
+    // Speakers
+    speakersTitle: "Intervenants",
+    speakersHint: "Associez chaque intervenant à un participant",
+    speakerKeepLabel: "Garder le libellé",
+    speakersSaveError: "Impossible d'enregistrer les noms des intervenants",
+    // Analysis editing
+    editAnalysis: "Modifier",
+    saveEdits: "Enregistrer",
+    edited: "Modifié",
+    editingHint: "Les modifications s'appliquent à l'historique et aux exports",
+    addDecision: "Ajouter une décision",
+    addActionItem: "Ajouter une action",
+    moveUp: "Monter",
+    moveDown: "Descendre",
+    removeItem: "Supprimer",
+    editsSaved: "Modifications enregistrées",
+    editsSaveError: "Impossible d'enregistrer vos modifications dans l'historique",
+    // Tasks
+    tasks: "Tâches",
+    tasksTitle: "Actions à mener",
+    tasksSummary: "{open} ouvertes · {done} terminées",
+    tasksEmpty: "Aucune action pour l'instant",
+    tasksEmptyHint: "Les actions de vos réunions analysées apparaîtront ici",
+    tasksNoMatches: "Aucune action ne correspond à ces filtres",
+    tasksStatus: "Statut",
+    tasksStatusOpen: "Ouvertes",
+    tasksStatusDone: "Terminées",
+    tasksStatusAll: "Toutes",
+    tasksMeeting: "Réunion",
+    tasksAllMeetings: "Toutes les réunions",
+    tasksGroupByOwner: "Grouper par responsable",
+    tasksDueDate: "Échéance",
+    tasksOverdue: "En retard",
+    tasksMarkDone: "Marquer comme terminée",
+    tasksMarkOpen: "Marquer comme ouverte",
+    tasksOpenMeeting: "Ouvrir la réunion",
+    tasksSaveError: "Impossible de mettre à jour l'action. Réessayez.",
+    // Upload progress
+    uploadingPercent: "Envoi… {percent} %",
+    uploadingHint: "{loaded} sur {total}",
+    processingOnServer: "Traitement sur le serveur…",
+    processingOnServerHint: "Transcription et analyse en cours. Les longs enregistrements peuvent prendre plusieurs minutes.",
+    retryingUpload: "Problème de connexion — nouvelle tentative ({attempt} sur {max})…",
+    cancelAnalysis: "Annuler",
+    analysisCancelled: "Analyse annulée",
+    // Analysis jobs
+    jobQueued: "En file d'attente…",
+    jobProcessingPercent: "Traitement sur le serveur… {percent} %",
+    jobSafeToLeave: "Vous pouvez fermer cet onglet — l'analyse continue et son résultat apparaîtra ici à votre retour.",
+    jobResuming: "Finalisation de l'analyse de {file}…",
+    jobResumed: "L'analyse de {file} s'est terminée pendant votre absence",
+    jobResumedSaved: "L'analyse de {file} est terminée et a été enregistrée dans l'historique",
+    jobFailed: "L'analyse de {file} a échoué : {reason}",
+    jobResumeLater: "Impossible de joindre le serveur pour {file}. Nouvelle vérification la prochaine fois.",
+    // Streaming results
+    streamSummaryPending: "Le résumé apparaîtra ici dès qu'il sera prêt…",
+    streamTranscriptPending: "La transcription s'affichera ici au fur et à mesure…",
+    streamDecisionsPending: "Les décisions et actions apparaîtront ici au fur et à mesure…",
+    // Analysis queue
+    queueTitle: "File d'attente",
+    queueProgress: "{done} sur {total} analysés",
+    queueAnalyze: "Analyser {count} fichiers",
+    queueStatusWaiting: "En attente",
+    queueStatusUploading: "Envoi",
+    queueStatusProcessing: "Analyse",
+    queueStatusDone: "Terminé",
+    queueStatusFailed: "Échec",
+    queueStatusBlocked: "Suspendu",
+    queueStatusCancelled: "Annulé",
+    queueRetry: "Réessayer",
+    queueRemove: "Retirer",
+    queueView: "Voir",
+    queueClearDone: "Retirer les terminés",
+    queueLimitNote: "{count} fichiers sont suspendus car la limite quotidienne de {limit} analyses est atteinte. Ils restent dans la file pour être analysés une fois la limite réinitialisée.",
+    // Audio validation
+    audioChecking: "Vérification de l'audio…",
+    audioErrorFormat: "{file} : format non pris en charge. Utilisez : {formats}",
+    audioErrorSize: "{file} fait {size} ; la taille maximale est {max}",
+    audioErrorDuration: "{file} dure {duration} ; la durée maximale est {max}",
+    audioErrorDecode: "{file} ne peut pas être lu comme audio. Il est peut-être corrompu ou utilise un codec non pris en charge",
+    audioErrorSilent: "{file} semble silencieux. Vérifiez l'enregistrement et réessayez",
+    audioMono: "Mono",
+    audioStereo: "Stéréo",
+    audioChannels: "{count} canaux",
+    // Audio trim editor
+    trimAudio: "Couper l'audio",
+    trimTitle: "Modifier l'audio",
+    trimHint: "Faites glisser sur la forme d'onde pour sélectionner une section, puis gardez-la seule ou supprimez-la.",
+    trimLoading: "Préparation de la forme d'onde…",
+    trimTooLong: "Les enregistrements de plus de {max} ne peuvent pas être modifiés dans le navigateur",
+    trimDecodeError: "Impossible d'ouvrir ce fichier pour le modifier",
+    trimStart: "Début",
+    trimEnd: "Fin",
+    trimKeepSelection: "Garder la sélection",
+    trimCutSelection: "Supprimer la sélection",
+    trimCuts: "Sections supprimées",
+    trimRestoreCut: "Restaurer",
+    trimReset: "Réinitialiser",
+    trimPreview: "Aperçu",
+    trimResultDuration: "Résultat : {duration} sur {original}",
+    trimApply: "Utiliser l'audio modifié",
+    // Recorder controls
+    pauseRecording: "Pause",
+    resumeRecording: "Reprendre",
+    recordingPaused: "En pause",
+    microphoneLabel: "Micro",
+    defaultMicrophone: "Par défaut du système",
+    microphoneUnavailable: "Le micro choisi n'est pas disponible, le micro par défaut est utilisé",
+    inputLevel: "Niveau d'entrée",
+    noAudioDetected: "Aucun son détecté — vérifiez que votre micro n'est pas coupé",
+    recordingLimitWarning: "L'enregistrement s'arrêtera automatiquement dans {time}",
+    recordingLimitReached: "Enregistrement arrêté automatiquement après {minutes} minutes",
+    // Recording recovery
+    recordingBackupFailed: "Le stockage du navigateur est plein : cet enregistrement n'est gardé qu'en mémoire, ne fermez pas l'onglet",
+    recordingRecoveryFound: "Un enregistrement inachevé du {date} ({duration}) a été trouvé",
+    recordingRecover: "Récupérer",
+    recordingDownload: "Télécharger",
+    recordingDiscard: "Supprimer",
+    recordingRecoveryError: "Impossible de lire l'enregistrement sauvegardé",
+    // Recording source
+    recordingSourceLabel: "Enregistrer depuis",
+    recordingSourceMic: "Micro uniquement",
+    recordingSourceMix: "Audio de l'onglet ou du système + micro",
+    systemAudioHint: "On vous demandera quoi partager. Choisissez l'onglet de la réunion et activez « Partager l'audio de l'onglet » pour enregistrer les autres participants.",
+    systemAudioUnsupported: "Ce navigateur ne peut pas capturer l'audio d'un onglet ou du système. Utilisez Chrome ou Edge sur ordinateur, ou enregistrez uniquement le micro.",
+    systemAudioDenied: "Le partage d'écran a été annulé, l'enregistrement n'a donc pas commencé",
+    systemAudioMissing: "Aucun audio n'a été partagé. Choisissez un onglet et activez « Partager l'audio de l'onglet », ou enregistrez uniquement le micro.",
+    systemAudioEnded: "Le partage de l'onglet s'est arrêté — l'enregistrement continue avec le micro uniquement",
+    micVolume: "Volume du micro",
+    systemVolume: "Volume de l'onglet",
+    // Live transcription
+    liveTranscriptToggle: "Afficher une transcription en direct pendant l'enregistrement",
+    liveTranscriptTitle: "Transcription en direct",
+    liveTranscriptListening: "Écoute en cours…",
+    liveTranscriptFinishing: "Finalisation des derniers mots…",
+    liveTranscriptUnavailable: "Transcription en direct indisponible — l'enregistrement continue et sera entièrement analysé",
+    liveTranscriptNote: "Ceci est un aperçu rapide. Utilisez l'enregistrement pour obtenir la transcription et l'analyse complètes.",
+    // Recording bookmarks and notes
+    markMoment: "Marquer ce moment",
+    notePlaceholder: "Saisissez une note et appuyez sur Entrée",
+    addNote: "Ajouter la note",
+    markersTitle: "Signets et notes",
+    markerBookmark: "Signet",
+    removeMarker: "Supprimer",
+    // transcript
+    transcriptMode: "Coller une transcription",
+    transcriptPlaceholder: "Collez ici la transcription d'une réunion — texte brut ou sous-titres WebVTT/SRT de Zoom ou Teams",
+    transcriptChooseFile: "Choisir un fichier de transcription",
+    transcriptFileHint: "ou déposez ici un fichier .txt, .vtt, .srt ou .docx",
+    transcriptReading: "Lecture de la transcription…",
+    transcriptWords: "{count} mots",
+    transcriptCues: "{count} sous-titres horodatés",
+    transcriptSpeakers: "{count} intervenants",
+    transcriptFormatText: "Texte",
+    transcriptErrorFormat: "{file} n'est pas une transcription prise en charge. Utilisez un fichier .txt, .vtt, .srt ou .docx.",
+    transcriptErrorSize: "{file} est trop volumineux pour une transcription (plus de {max}).",
+    transcriptErrorEmpty: "{file} ne contient aucun texte à analyser.",
+    transcriptErrorRead: "Impossible de lire {file}.",
+    pastedTranscript: "Transcription collée",
+    fromTranscript: "Transcription",
+    // subtitles
+    exportSrt: "Exporter les sous-titres (.srt)",
+    exportVtt: "Exporter les sous-titres (.vtt)",
+    subtitlesTranslated: "Traduit",
+    subtitlesOriginal: "Original",
+    // meeting details
+    meetingDetails: "Détails de la réunion",
+    meetingDetailsEmpty: "Ajoutez un titre, la date, des étiquettes et les participants pour retrouver cette réunion",
+    editMeetingDetails: "Modifier les détails",
+    meetingTitleLabel: "Titre",
+    suggestTitle: "Suggérer",
+    meetingDateLabel: "Date de la réunion",
+    meetingTagsLabel: "Étiquettes",
+    meetingTagsPlaceholder: "Ajoutez une étiquette puis appuyez sur Entrée",
+    meetingAttendeesLabel: "Participants attendus",
+    meetingAttendeesPlaceholder: "Ajoutez un nom puis appuyez sur Entrée",
+    removeListEntry: "Retirer {value}",
+    meetingDetailsSaved: "Détails de la réunion enregistrés",
+    meetingDetailsSaveError: "Impossible d'enregistrer les détails de la réunion",
+    filterTag: "Étiquette",
+    filterAllTags: "Toutes les étiquettes",
+    filterByTag: "Afficher les réunions avec l'étiquette #{tag}",
+    // meeting edits
+    meetingEditsUnsupported: "Ce serveur ne permet pas de modifier les réunions enregistrées : la modification n'a pas été enregistrée",
+    // tab audio silence
+    noSystemAudioDetected: "Aucun son de l'onglet partagé — vérifiez que la réunion n'est pas coupée et que « Partager l'audio de l'onglet » est activé",
+    // Unsaved result
+    notInHistory: "Cette réunion n'est pas enregistrée dans l'historique, vos modifications restent donc uniquement sur cette page",
+    // Audio purge
+    purgeAudioError: "Impossible de supprimer l'audio enregistré. Veuillez réessayer",
+    // Trim size limit
+    trimTooLarge: "Les fichiers de plus de {max} ne peuvent pas être modifiés dans le navigateur",
   },
   es: {
     tagline: "Turn conversations into clarity.",
@@ -794,8 +1786,6 @@ const I18N: Record<UiLang, I18nStrings> = {
     recordingInProgress: "Grabación en curso...",
     deleteRecording: "Eliminar grabación",
     useRecording: "Usar grabación",
-    orUploadFile: "o subir un archivo",
-    orRecordMeeting: "o grabar una reunión",
     recordingNotSupported: "La grabación no es compatible con este navegador",
     microphonePermissionDenied: "Acceso al micrófono denegado. Por favor, permita el acceso al micrófono para grabar.",
     // Supported formats
@@ -810,6 +1800,256 @@ const I18N: Record<UiLang, I18nStrings> = {
     // Accessibility labels
     selectLanguage: "Seleccionar idioma",
     toggleTheme: "Cambiar tema",
+    // History sync
+    historyLoading: "Cargando tus reuniones…",
+    historyLoadError: "No se pudieron cargar tus reuniones.",
+    historyDeleteError: "No se pudo eliminar la reunión. Inténtalo de nuevo.",
+    retry: "Reintentar",
+    // Document export
+    exportDocumentTitle: "Resumen de la reunión",
+    exportOwner: "Responsable",
+    // Text export formats
+    exportMarkdown: "Exportar como Markdown (.md)",
+    exportText: "Exportar como texto plano (.txt)",
+    exportJson: "Exportar como JSON (.json)",
+    // History search
+    historySearchPlaceholder: "Buscar resúmenes, transcripciones, personas, decisiones…",
+    clearSearch: "Borrar búsqueda",
+    filterLanguage: "Idioma",
+    filterAllLanguages: "Todos los idiomas",
+    filterFrom: "Desde",
+    filterTo: "Hasta",
+    filterHasActionItems: "Con tareas",
+    filterExport: "Estado de exportación",
+    filterExportAll: "Cualquier estado",
+    filterExported: "Exportadas",
+    filterNotExported: "Sin exportar",
+    sortBy: "Ordenar",
+    sortNewest: "Más recientes",
+    sortOldest: "Más antiguas",
+    sortName: "Nombre de archivo (A–Z)",
+    sortMostActions: "Más tareas",
+    clearFilters: "Borrar filtros",
+    historyNoMatches: "Ninguna reunión coincide con tu búsqueda",
+    historyShowing: "Mostrando {shown} de {total}",
+    matchIn: "Coincidencia en",
+    // Local storage
+    storageFull: "El almacenamiento del navegador está lleno, por lo que esta reunión no se guardó en el historial. Elimina reuniones antiguas para liberar espacio.",
+    historySaveError: "No se pudo guardar esta reunión en el historial",
+    storageTitle: "Almacenamiento",
+    storageDescription: "Espacio que usa Speechi en este navegador",
+    storageUsage: "{used} de {quota} usados",
+    storageUnavailable: "Este navegador no informa del uso de almacenamiento",
+    storageAlmostFull: "El almacenamiento está casi lleno. Elimina reuniones antiguas para seguir guardando nuevas.",
+    // Meeting audio
+    audioTitle: "Audio de reuniones",
+    keepAudio: "Guardar el audio de las reuniones",
+    keepAudioDescription: "Guarda el audio grabado o subido con cada reunión en este dispositivo para reproducirlo en el historial",
+    audioUsage: "{count} grabaciones · {size}",
+    purgeAudio: "Eliminar todo el audio",
+    purgeAudioConfirm: "¿Eliminar todo el audio guardado?",
+    purgeAudioConfirmBody: "Las transcripciones y análisis se mantienen en el historial. Solo se eliminan los archivos de audio de este dispositivo.",
+    originalAudio: "Audio original",
+    deleteAudio: "Eliminar audio",
+    deleteAudioConfirm: "¿Eliminar el audio de esta reunión?",
+    deleteAudioConfirmBody: "La transcripción y el análisis se mantienen en el historial.",
+    audioDeleted: "Audio eliminado",
+    audioStorageFull: "El almacenamiento está lleno, así que el audio no se guardó. El análisis sigue en el historial.",
+    audioSaveError: "No se pudo guardar el audio de la reunión",
+    // Transcript segments
+    playFrom: "Reproducir desde",
+    // Speakers
+    speakersTitle: "Hablantes",
+    speakersHint: "Asigna cada hablante a un participante",
+    speakerKeepLabel: "Mantener etiqueta",
+    speakersSaveError: "No se pudieron guardar los nombres de los hablantes",
+    // Analysis editing
+    editAnalysis: "Editar",
+    saveEdits: "Guardar cambios",
+    edited: "Editado",
+    editingHint: "Los cambios se aplican al historial y a las exportaciones",
+    addDecision: "Añadir decisión",
+    addActionItem: "Añadir tarea",
+    moveUp: "Subir",
+    moveDown: "Bajar",
+    removeItem: "Quitar",
+    editsSaved: "Cambios guardados",
+    editsSaveError: "No se pudieron guardar los cambios en el historial",
+    // Tasks
+    tasks: "Tareas",
+    tasksTitle: "Tareas pendientes",
+    tasksSummary: "{open} abiertas · {done} completadas",
+    tasksEmpty: "Aún no hay tareas",
+    tasksEmptyHint: "Las tareas de tus reuniones analizadas aparecerán aquí",
+    tasksNoMatches: "Ninguna tarea coincide con estos filtros",
+    tasksStatus: "Estado",
+    tasksStatusOpen: "Abiertas",
+    tasksStatusDone: "Completadas",
+    tasksStatusAll: "Todas",
+    tasksMeeting: "Reunión",
+    tasksAllMeetings: "Todas las reuniones",
+    tasksGroupByOwner: "Agrupar por responsable",
+    tasksDueDate: "Fecha límite",
+    tasksOverdue: "Vencida",
+    tasksMarkDone: "Marcar como completada",
+    tasksMarkOpen: "Marcar como abierta",
+    tasksOpenMeeting: "Abrir reunión",
+    tasksSaveError: "No se pudo actualizar la tarea. Inténtalo de nuevo.",
+    // Upload progress
+    uploadingPercent: "Subiendo… {percent}%",
+    uploadingHint: "{loaded} de {total}",
+    processingOnServer: "Procesando en el servidor…",
+    processingOnServerHint: "Transcribiendo y analizando. Las grabaciones largas pueden tardar varios minutos.",
+    retryingUpload: "Problema de conexión — reintentando (intento {attempt} de {max})…",
+    cancelAnalysis: "Cancelar",
+    analysisCancelled: "Análisis cancelado",
+    // Analysis jobs
+    jobQueued: "En cola…",
+    jobProcessingPercent: "Procesando en el servidor… {percent}%",
+    jobSafeToLeave: "Puedes cerrar esta pestaña: el análisis continúa y el resultado aparecerá aquí cuando vuelvas.",
+    jobResuming: "Terminando el análisis de {file}…",
+    jobResumed: "El análisis de {file} terminó mientras no estabas",
+    jobResumedSaved: "El análisis de {file} terminó y se guardó en el historial",
+    jobFailed: "El análisis de {file} falló: {reason}",
+    jobResumeLater: "No se pudo contactar con el servidor para {file}. Se volverá a comprobar la próxima vez.",
+    // Streaming results
+    streamSummaryPending: "El resumen aparecerá aquí cuando esté listo…",
+    streamTranscriptPending: "La transcripción aparecerá aquí a medida que se genere…",
+    streamDecisionsPending: "Las decisiones y tareas aparecerán aquí a medida que se encuentren…",
+    // Analysis queue
+    queueTitle: "Cola",
+    queueProgress: "{done} de {total} analizados",
+    queueAnalyze: "Analizar {count} archivos",
+    queueStatusWaiting: "En espera",
+    queueStatusUploading: "Subiendo",
+    queueStatusProcessing: "Analizando",
+    queueStatusDone: "Listo",
+    queueStatusFailed: "Error",
+    queueStatusBlocked: "En pausa",
+    queueStatusCancelled: "Cancelado",
+    queueRetry: "Reintentar",
+    queueRemove: "Quitar",
+    queueView: "Ver",
+    queueClearDone: "Quitar terminados",
+    queueLimitNote: "{count} archivos están en pausa porque se alcanzó el límite diario de {limit} análisis. Siguen en la cola para analizarlos cuando se restablezca el límite.",
+    // Audio validation
+    audioChecking: "Comprobando el audio…",
+    audioErrorFormat: "{file}: formato no compatible. Usa: {formats}",
+    audioErrorSize: "{file} ocupa {size}; el máximo es {max}",
+    audioErrorDuration: "{file} dura {duration}; la duración máxima es {max}",
+    audioErrorDecode: "{file} no se puede leer como audio. Puede estar dañado o usar un códec no compatible",
+    audioErrorSilent: "{file} parece estar en silencio. Revisa la grabación e inténtalo de nuevo",
+    audioMono: "Mono",
+    audioStereo: "Estéreo",
+    audioChannels: "{count} canales",
+    // Audio trim editor
+    trimAudio: "Recortar audio",
+    trimTitle: "Editar audio",
+    trimHint: "Arrastra sobre la forma de onda para seleccionar una sección y luego conserva solo esa parte o elimínala.",
+    trimLoading: "Preparando la forma de onda…",
+    trimTooLong: "Las grabaciones de más de {max} no se pueden editar en el navegador",
+    trimDecodeError: "No se pudo abrir este archivo para editarlo",
+    trimStart: "Inicio",
+    trimEnd: "Fin",
+    trimKeepSelection: "Conservar selección",
+    trimCutSelection: "Cortar selección",
+    trimCuts: "Secciones cortadas",
+    trimRestoreCut: "Restaurar",
+    trimReset: "Restablecer",
+    trimPreview: "Vista previa",
+    trimResultDuration: "Resultado: {duration} de {original}",
+    trimApply: "Usar audio editado",
+    // Recorder controls
+    pauseRecording: "Pausar",
+    resumeRecording: "Reanudar",
+    recordingPaused: "En pausa",
+    microphoneLabel: "Micrófono",
+    defaultMicrophone: "Predeterminado del sistema",
+    microphoneUnavailable: "El micrófono elegido no está disponible, así que se usa el predeterminado",
+    inputLevel: "Nivel de entrada",
+    noAudioDetected: "No se detecta audio: comprueba que el micrófono no esté silenciado",
+    recordingLimitWarning: "La grabación se detendrá automáticamente en {time}",
+    recordingLimitReached: "La grabación se detuvo automáticamente tras {minutes} minutos",
+    // Recording recovery
+    recordingBackupFailed: "El almacenamiento del navegador está lleno, así que esta grabación solo está en memoria: no cierres la pestaña",
+    recordingRecoveryFound: "Se encontró una grabación sin terminar del {date} ({duration})",
+    recordingRecover: "Recuperar",
+    recordingDownload: "Descargar",
+    recordingDiscard: "Descartar",
+    recordingRecoveryError: "No se pudo leer la grabación guardada",
+    // Recording source
+    recordingSourceLabel: "Grabar desde",
+    recordingSourceMic: "Solo micrófono",
+    recordingSourceMix: "Audio de pestaña o sistema + micrófono",
+    systemAudioHint: "Se te pedirá qué compartir. Elige la pestaña de la reunión y activa «Compartir audio de la pestaña» para grabar al resto de participantes.",
+    systemAudioUnsupported: "Este navegador no puede capturar el audio de una pestaña o del sistema. Usa Chrome o Edge en un ordenador, o graba solo el micrófono.",
+    systemAudioDenied: "Se canceló el uso compartido de pantalla, así que la grabación no empezó",
+    systemAudioMissing: "No se compartió audio. Elige una pestaña y activa «Compartir audio de la pestaña», o graba solo el micrófono.",
+    systemAudioEnded: "Se dejó de compartir la pestaña: la grabación continúa solo con el micrófono",
+    micVolume: "Volumen del micrófono",
+    systemVolume: "Volumen de la pestaña",
+    // Live transcription
+    liveTranscriptToggle: "Mostrar una transcripción en directo mientras se graba",
+    liveTranscriptTitle: "Transcripción en directo",
+    liveTranscriptListening: "Escuchando…",
+    liveTranscriptFinishing: "Completando las últimas palabras…",
+    liveTranscriptUnavailable: "Transcripción en directo no disponible: la grabación continúa y se analizará por completo",
+    liveTranscriptNote: "Es una vista previa rápida. Usa la grabación para obtener la transcripción y el análisis completos.",
+    // Recording bookmarks and notes
+    markMoment: "Marcar este momento",
+    notePlaceholder: "Escribe una nota y pulsa Intro",
+    addNote: "Añadir nota",
+    markersTitle: "Marcadores y notas",
+    markerBookmark: "Marcador",
+    removeMarker: "Quitar",
+    // transcript
+    transcriptMode: "Pegar transcripción",
+    transcriptPlaceholder: "Pega aquí la transcripción de una reunión: texto sin formato o subtítulos WebVTT/SRT de Zoom o Teams",
+    transcriptChooseFile: "Elegir un archivo de transcripción",
+    transcriptFileHint: "o suelta aquí un archivo .txt, .vtt, .srt o .docx",
+    transcriptReading: "Leyendo la transcripción…",
+    transcriptWords: "{count} palabras",
+    transcriptCues: "{count} subtítulos con tiempo",
+    transcriptSpeakers: "{count} hablantes",
+    transcriptFormatText: "Texto",
+    transcriptErrorFormat: "{file} no es una transcripción compatible. Usa un archivo .txt, .vtt, .srt o .docx.",
+    transcriptErrorSize: "{file} es demasiado grande para una transcripción (más de {max}).",
+    transcriptErrorEmpty: "{file} no tiene texto para analizar.",
+    transcriptErrorRead: "No se pudo leer {file}.",
+    pastedTranscript: "Transcripción pegada",
+    fromTranscript: "Transcripción",
+    // subtitles
+    exportSrt: "Exportar subtítulos (.srt)",
+    exportVtt: "Exportar subtítulos (.vtt)",
+    subtitlesTranslated: "Traducido",
+    subtitlesOriginal: "Original",
+    // meeting details
+    meetingDetails: "Detalles de la reunión",
+    meetingDetailsEmpty: "Añade un título, la fecha, etiquetas y asistentes para encontrar esta reunión más tarde",
+    editMeetingDetails: "Editar detalles",
+    meetingTitleLabel: "Título",
+    suggestTitle: "Sugerir",
+    meetingDateLabel: "Fecha de la reunión",
+    meetingTagsLabel: "Etiquetas",
+    meetingTagsPlaceholder: "Añade una etiqueta y pulsa Intro",
+    meetingAttendeesLabel: "Asistentes previstos",
+    meetingAttendeesPlaceholder: "Añade un nombre y pulsa Intro",
+    removeListEntry: "Quitar {value}",
+    meetingDetailsSaved: "Detalles de la reunión guardados",
+    meetingDetailsSaveError: "No se pudieron guardar los detalles de la reunión",
+    filterTag: "Etiqueta",
+    filterAllTags: "Todas las etiquetas",
+    filterByTag: "Mostrar reuniones con la etiqueta #{tag}",
+    // meeting edits
+    meetingEditsUnsupported: "Este servidor no permite editar reuniones guardadas, así que el cambio no se guardó",
+    // tab audio silence
+    noSystemAudioDetected: "No llega audio de la pestaña compartida: comprueba que la reunión no esté silenciada y que «Compartir audio de la pestaña» esté activado",
+    // Unsaved result
+    notInHistory: "Esta reunión no está guardada en el historial, así que los cambios solo se conservan en esta página",
+    // Audio purge
+    purgeAudioError: "No se pudo eliminar el audio guardado. Inténtalo de nuevo",
+    // Trim size limit
+    trimTooLarge: "Los archivos de más de {max} no se pueden editar en el navegador",
   },
   ar: {
     tagline: "Turn conversations into clarity.",
@@ -954,8 +2194,6 @@ const I18N: Record<UiLang, I18nStrings> = {
     recordingInProgress: "التسجيل قيد التنفيذ...",
     deleteRecording: "حذف التسجيل",
     useRecording: "استخدام التسجيل",
-    orUploadFile: "أو ارفع ملفاً",
-    orRecordMeeting: "أو سجل اجتماعاً",
     recordingNotSupported: "التسجيل غير مدعوم في هذا المتصفح",
     microphonePermissionDenied: "تم رفض الوصول إلى الميكروفون. يرجى السماح بالوصول إلى الميكروفون للتسجيل.",
     // Supported formats
@@ -970,6 +2208,256 @@ const I18N: Record<UiLang, I18nStrings> = {
     // Accessibility labels
     selectLanguage: "اختر اللغة",
     toggleTheme: "تبديل المظهر",
+    // History sync
+    historyLoading: "جارٍ تحميل اجتماعاتك…",
+    historyLoadError: "تعذّر تحميل اجتماعاتك.",
+    historyDeleteError: "تعذّر حذف الاجتماع. يرجى المحاولة مرة أخرى.",
+    retry: "إعادة المحاولة",
+    // Document export
+    exportDocumentTitle: "ملخص الاجتماع",
+    exportOwner: "المسؤول",
+    // Text export formats
+    exportMarkdown: "تصدير كـ Markdown (.md)",
+    exportText: "تصدير كنص عادي (.txt)",
+    exportJson: "تصدير كـ JSON (.json)",
+    // History search
+    historySearchPlaceholder: "ابحث في الملخصات والنصوص والأشخاص والقرارات…",
+    clearSearch: "مسح البحث",
+    filterLanguage: "اللغة",
+    filterAllLanguages: "كل اللغات",
+    filterFrom: "من",
+    filterTo: "إلى",
+    filterHasActionItems: "يحتوي على مهام",
+    filterExport: "حالة التصدير",
+    filterExportAll: "أي حالة تصدير",
+    filterExported: "مُصدَّرة",
+    filterNotExported: "غير مُصدَّرة",
+    sortBy: "ترتيب",
+    sortNewest: "الأحدث أولاً",
+    sortOldest: "الأقدم أولاً",
+    sortName: "اسم الملف (أ–ي)",
+    sortMostActions: "الأكثر مهامًا",
+    clearFilters: "مسح عوامل التصفية",
+    historyNoMatches: "لا توجد اجتماعات تطابق بحثك",
+    historyShowing: "عرض {shown} من {total}",
+    matchIn: "تطابق في",
+    // Local storage
+    storageFull: "مساحة تخزين المتصفح ممتلئة، لذلك لم يُحفظ هذا الاجتماع في السجل. احذف اجتماعات قديمة لتحرير مساحة.",
+    historySaveError: "تعذّر حفظ هذا الاجتماع في السجل",
+    storageTitle: "التخزين",
+    storageDescription: "المساحة التي يستخدمها Speechi في هذا المتصفح",
+    storageUsage: "تم استخدام {used} من {quota}",
+    storageUnavailable: "هذا المتصفح لا يعرض استخدام التخزين",
+    storageAlmostFull: "التخزين ممتلئ تقريبًا. احذف اجتماعات قديمة لمواصلة حفظ الجديدة.",
+    // Meeting audio
+    audioTitle: "صوت الاجتماعات",
+    keepAudio: "الاحتفاظ بصوت الاجتماع",
+    keepAudioDescription: "احفظ الصوت المسجّل أو المرفوع مع كل اجتماع على هذا الجهاز لتشغيله لاحقًا من السجل",
+    audioUsage: "{count} تسجيلات · {size}",
+    purgeAudio: "حذف كل الصوت",
+    purgeAudioConfirm: "حذف كل الصوت المخزَّن؟",
+    purgeAudioConfirmBody: "تبقى النصوص والتحليلات في السجل. تُحذف ملفات الصوت فقط من هذا الجهاز.",
+    originalAudio: "الصوت الأصلي",
+    deleteAudio: "حذف الصوت",
+    deleteAudioConfirm: "حذف صوت هذا الاجتماع؟",
+    deleteAudioConfirmBody: "يبقى النص والتحليل في السجل.",
+    audioDeleted: "تم حذف الصوت",
+    audioStorageFull: "التخزين ممتلئ، لذلك لم يُحفظ صوت الاجتماع. التحليل ما زال في السجل.",
+    audioSaveError: "تعذّر حفظ صوت الاجتماع",
+    // Transcript segments
+    playFrom: "تشغيل من",
+    // Speakers
+    speakersTitle: "المتحدثون",
+    speakersHint: "طابق كل متحدث مع مشارك",
+    speakerKeepLabel: "الإبقاء على التسمية",
+    speakersSaveError: "تعذّر حفظ أسماء المتحدثين",
+    // Analysis editing
+    editAnalysis: "تحرير",
+    saveEdits: "حفظ التغييرات",
+    edited: "معدَّل",
+    editingHint: "تُطبَّق التغييرات على السجل والتصدير",
+    addDecision: "إضافة قرار",
+    addActionItem: "إضافة مهمة",
+    moveUp: "نقل لأعلى",
+    moveDown: "نقل لأسفل",
+    removeItem: "إزالة",
+    editsSaved: "تم حفظ التغييرات",
+    editsSaveError: "تعذّر حفظ تغييراتك في السجل",
+    // Tasks
+    tasks: "المهام",
+    tasksTitle: "المهام المطلوبة",
+    tasksSummary: "{open} مفتوحة · {done} منجزة",
+    tasksEmpty: "لا توجد مهام بعد",
+    tasksEmptyHint: "ستظهر هنا المهام من اجتماعاتك التي تم تحليلها",
+    tasksNoMatches: "لا توجد مهام تطابق عوامل التصفية هذه",
+    tasksStatus: "الحالة",
+    tasksStatusOpen: "مفتوحة",
+    tasksStatusDone: "منجزة",
+    tasksStatusAll: "الكل",
+    tasksMeeting: "الاجتماع",
+    tasksAllMeetings: "كل الاجتماعات",
+    tasksGroupByOwner: "التجميع حسب المسؤول",
+    tasksDueDate: "تاريخ الاستحقاق",
+    tasksOverdue: "متأخرة",
+    tasksMarkDone: "وضع علامة كمنجزة",
+    tasksMarkOpen: "وضع علامة كمفتوحة",
+    tasksOpenMeeting: "فتح الاجتماع",
+    tasksSaveError: "تعذر تحديث المهمة. حاول مرة أخرى.",
+    // Upload progress
+    uploadingPercent: "جارٍ الرفع… {percent}%",
+    uploadingHint: "{loaded} من {total}",
+    processingOnServer: "تتم المعالجة على الخادم…",
+    processingOnServerHint: "جارٍ النسخ والتحليل. قد تستغرق التسجيلات الطويلة عدة دقائق.",
+    retryingUpload: "مشكلة في الاتصال — إعادة المحاولة ({attempt} من {max})…",
+    cancelAnalysis: "إلغاء",
+    analysisCancelled: "تم إلغاء التحليل",
+    // Analysis jobs
+    jobQueued: "في قائمة الانتظار…",
+    jobProcessingPercent: "تتم المعالجة على الخادم… {percent}%",
+    jobSafeToLeave: "يمكنك إغلاق علامة التبويب هذه — يستمر التحليل وستظهر النتيجة هنا عند عودتك.",
+    jobResuming: "جارٍ إكمال تحليل {file}…",
+    jobResumed: "انتهى تحليل {file} أثناء غيابك",
+    jobResumedSaved: "انتهى تحليل {file} وتم حفظه في السجل",
+    jobFailed: "فشل تحليل {file}: {reason}",
+    jobResumeLater: "تعذر الوصول إلى الخادم لـ {file}. ستتم المحاولة مرة أخرى لاحقًا.",
+    // Streaming results
+    streamSummaryPending: "سيظهر الملخص هنا عندما يصبح جاهزًا…",
+    streamTranscriptPending: "سيظهر النص هنا تدريجيًا أثناء إنشائه…",
+    streamDecisionsPending: "ستظهر القرارات والمهام هنا فور العثور عليها…",
+    // Analysis queue
+    queueTitle: "قائمة الانتظار",
+    queueProgress: "تم تحليل {done} من {total}",
+    queueAnalyze: "تحليل {count} ملفات",
+    queueStatusWaiting: "في الانتظار",
+    queueStatusUploading: "جارٍ الرفع",
+    queueStatusProcessing: "جارٍ التحليل",
+    queueStatusDone: "تم",
+    queueStatusFailed: "فشل",
+    queueStatusBlocked: "معلّق",
+    queueStatusCancelled: "أُلغي",
+    queueRetry: "إعادة المحاولة",
+    queueRemove: "إزالة",
+    queueView: "عرض",
+    queueClearDone: "مسح المكتملة",
+    queueLimitNote: "{count} ملفات معلّقة لأنه تم بلوغ الحد اليومي البالغ {limit} تحليلات. تبقى في قائمة الانتظار لتحليلها عند إعادة تعيين الحد.",
+    // Audio validation
+    audioChecking: "جارٍ فحص الصوت…",
+    audioErrorFormat: "{file}: تنسيق غير مدعوم. يرجى استخدام: {formats}",
+    audioErrorSize: "حجم {file} هو {size}؛ الحد الأقصى {max}",
+    audioErrorDuration: "مدة {file} هي {duration}؛ الحد الأقصى {max}",
+    audioErrorDecode: "تعذّرت قراءة {file} كملف صوتي. قد يكون تالفًا أو يستخدم ترميزًا غير مدعوم",
+    audioErrorSilent: "يبدو أن {file} صامت. تحقق من التسجيل وحاول مرة أخرى",
+    audioMono: "أحادي",
+    audioStereo: "ستيريو",
+    audioChannels: "{count} قنوات",
+    // Audio trim editor
+    trimAudio: "قص الصوت",
+    trimTitle: "تحرير الصوت",
+    trimHint: "اسحب على الموجة الصوتية لتحديد مقطع، ثم احتفظ به فقط أو احذفه.",
+    trimLoading: "جارٍ تجهيز الموجة الصوتية…",
+    trimTooLong: "لا يمكن تحرير التسجيلات الأطول من {max} في المتصفح",
+    trimDecodeError: "تعذّر فتح هذا الملف للتحرير",
+    trimStart: "البداية",
+    trimEnd: "النهاية",
+    trimKeepSelection: "الاحتفاظ بالتحديد",
+    trimCutSelection: "قص التحديد",
+    trimCuts: "المقاطع المحذوفة",
+    trimRestoreCut: "استعادة",
+    trimReset: "إعادة تعيين",
+    trimPreview: "معاينة",
+    trimResultDuration: "النتيجة: {duration} من {original}",
+    trimApply: "استخدام الصوت المحرَّر",
+    // Recorder controls
+    pauseRecording: "إيقاف مؤقت",
+    resumeRecording: "استئناف",
+    recordingPaused: "متوقف مؤقتًا",
+    microphoneLabel: "الميكروفون",
+    defaultMicrophone: "الافتراضي للنظام",
+    microphoneUnavailable: "الميكروفون المحدد غير متاح، لذا يُستخدم الافتراضي",
+    inputLevel: "مستوى الإدخال",
+    noAudioDetected: "لم يتم اكتشاف صوت — تأكد من أن الميكروفون غير مكتوم",
+    recordingLimitWarning: "سيتوقف التسجيل تلقائيًا بعد {time}",
+    recordingLimitReached: "توقف التسجيل تلقائيًا بعد {minutes} دقيقة",
+    // Recording recovery
+    recordingBackupFailed: "مساحة تخزين المتصفح ممتلئة، لذا يُحفظ هذا التسجيل في الذاكرة فقط — لا تغلق علامة التبويب",
+    recordingRecoveryFound: "تم العثور على تسجيل غير مكتمل من {date} ({duration})",
+    recordingRecover: "استعادة",
+    recordingDownload: "تنزيل",
+    recordingDiscard: "تجاهل",
+    recordingRecoveryError: "تعذّرت قراءة التسجيل المحفوظ",
+    // Recording source
+    recordingSourceLabel: "التسجيل من",
+    recordingSourceMic: "الميكروفون فقط",
+    recordingSourceMix: "صوت علامة التبويب أو النظام + الميكروفون",
+    systemAudioHint: "سيُطلب منك اختيار ما تريد مشاركته. اختر علامة تبويب الاجتماع وفعّل «مشاركة صوت علامة التبويب» لتسجيل المشاركين الآخرين.",
+    systemAudioUnsupported: "لا يمكن لهذا المتصفح التقاط صوت علامة التبويب أو النظام. استخدم Chrome أو Edge على الحاسوب، أو سجّل من الميكروفون فقط.",
+    systemAudioDenied: "أُلغيت مشاركة الشاشة، لذلك لم يبدأ التسجيل",
+    systemAudioMissing: "لم تتم مشاركة أي صوت. اختر علامة تبويب وفعّل «مشاركة صوت علامة التبويب»، أو سجّل من الميكروفون فقط.",
+    systemAudioEnded: "توقفت مشاركة علامة التبويب — يستمر التسجيل من الميكروفون فقط",
+    micVolume: "مستوى صوت الميكروفون",
+    systemVolume: "مستوى صوت علامة التبويب",
+    // Live transcription
+    liveTranscriptToggle: "عرض نص مباشر أثناء التسجيل",
+    liveTranscriptTitle: "النص المباشر",
+    liveTranscriptListening: "جارٍ الاستماع…",
+    liveTranscriptFinishing: "جارٍ إكمال الكلمات الأخيرة…",
+    liveTranscriptUnavailable: "النص المباشر غير متاح — يستمر التسجيل وسيتم تحليله بالكامل",
+    liveTranscriptNote: "هذه معاينة سريعة. استخدم التسجيل للحصول على النص والتحليل الكاملين.",
+    // Recording bookmarks and notes
+    markMoment: "تحديد هذه اللحظة",
+    notePlaceholder: "اكتب ملاحظة واضغط Enter",
+    addNote: "إضافة ملاحظة",
+    markersTitle: "العلامات والملاحظات",
+    markerBookmark: "علامة",
+    removeMarker: "إزالة",
+    // transcript
+    transcriptMode: "لصق نص مفرّغ",
+    transcriptPlaceholder: "الصق هنا نص الاجتماع المفرّغ — نص عادي أو ترجمات WebVTT/SRT من Zoom أو Teams",
+    transcriptChooseFile: "اختر ملف نص مفرّغ",
+    transcriptFileHint: "أو أفلت هنا ملف ‎.txt أو ‎.vtt أو ‎.srt أو ‎.docx",
+    transcriptReading: "جارٍ قراءة النص…",
+    transcriptWords: "{count} كلمة",
+    transcriptCues: "{count} مقطعاً موقّتاً",
+    transcriptSpeakers: "{count} متحدثين",
+    transcriptFormatText: "نص",
+    transcriptErrorFormat: "{file} ليس نصاً مفرّغاً مدعوماً. استخدم ملف ‎.txt أو ‎.vtt أو ‎.srt أو ‎.docx.",
+    transcriptErrorSize: "{file} كبير جداً على أن يكون نصاً مفرّغاً (أكثر من {max}).",
+    transcriptErrorEmpty: "لا يحتوي {file} على نص لتحليله.",
+    transcriptErrorRead: "تعذّرت قراءة {file}.",
+    pastedTranscript: "نص مفرّغ ملصوق",
+    fromTranscript: "نص مفرّغ",
+    // subtitles
+    exportSrt: "تصدير الترجمة (.srt)",
+    exportVtt: "تصدير الترجمة (.vtt)",
+    subtitlesTranslated: "مترجم",
+    subtitlesOriginal: "الأصلي",
+    // meeting details
+    meetingDetails: "تفاصيل الاجتماع",
+    meetingDetailsEmpty: "أضف عنواناً وتاريخ الاجتماع ووسوماً والحضور للعثور على هذا الاجتماع لاحقاً",
+    editMeetingDetails: "تعديل التفاصيل",
+    meetingTitleLabel: "العنوان",
+    suggestTitle: "اقتراح",
+    meetingDateLabel: "تاريخ الاجتماع",
+    meetingTagsLabel: "الوسوم",
+    meetingTagsPlaceholder: "أضف وسماً واضغط Enter",
+    meetingAttendeesLabel: "الحضور المتوقعون",
+    meetingAttendeesPlaceholder: "أضف اسماً واضغط Enter",
+    removeListEntry: "إزالة {value}",
+    meetingDetailsSaved: "تم حفظ تفاصيل الاجتماع",
+    meetingDetailsSaveError: "تعذّر حفظ تفاصيل الاجتماع",
+    filterTag: "الوسم",
+    filterAllTags: "كل الوسوم",
+    filterByTag: "عرض الاجتماعات ذات الوسم #{tag}",
+    // meeting edits
+    meetingEditsUnsupported: "هذا الخادم لا يدعم تعديل الاجتماعات المحفوظة، لذلك لم يُحفظ التغيير",
+    // tab audio silence
+    noSystemAudioDetected: "لا يصل صوت من علامة التبويب المشتركة — تحقّق من أن الاجتماع غير مكتوم ومن تفعيل «مشاركة صوت علامة التبويب»",
+    // Unsaved result
+    notInHistory: "هذا الاجتماع غير محفوظ في السجل، لذا تبقى التغييرات في هذه الصفحة فقط",
+    // Audio purge
+    purgeAudioError: "تعذّر حذف الصوت المحفوظ. يرجى المحاولة مرة أخرى",
+    // Trim size limit
+    trimTooLarge: "لا يمكن تحرير الملفات الأكبر من {max} في المتصفح",
   },
 };
 
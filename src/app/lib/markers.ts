@@ -0,0 +1,24 @@
+/**
+ * Bookmarks and typed notes taken while recording.
+ *
+ * `at` is seconds from the start of the recording, the same clock as
+ * transcript segments, so markers can be placed in the transcript. They are
+ * sent with the upload (see buildAudioFormData), kept on the history entry
+ * and listed in exports.
+ */
+
+export interface RecordingMarker {
+  at: number;
+  /** Typed note; absent for a plain bookmark */
+  note?: string;
+}
+
+export function isRecordingMarker(e: unknown): e is RecordingMarker {
+  if (typeof e !== "object" || e === null) return false;
+  const x = e as Record<string, unknown>;
+  return typeof x.at === "number" && (x.note === undefined || typeof x.note === "string");
+}
+
+export function sortMarkers(markers: RecordingMarker[]): RecordingMarker[] {
+  return [...markers].sort((a, b) => a.at - b.at);
+}
@@ -0,0 +1,250 @@
+/**
+ * Export-ready view of an analyzed meeting.
+ *
+ * Built from a fresh ApiResult or a stored HistoryItem, so documents can be
+ * generated in the browser without re-uploading the audio. Headings come from
+ * the i18n dictionary of the meeting's output language. Speaker labels in
+ * transcripts and action item owners are replaced by mapped participant names.
+ * Bookmarks and notes taken while recording get their own section when present.
+ * Timed segments and the audio length are kept for subtitle export. Meeting
+ * details (title, date, tags, attendees) of a saved meeting head the document.
+ */
+
+import type { ApiResult, TranscriptSegment } from "./api";
+import type { HistoryItem } from "./storage";
+import { getStrings, isRtl, type UiLang } from "./i18n";
+import { speakerName, transcriptWithSpeakers, type SpeakerMap } from "./speakers";
+import { formatTimestamp } from "./format";
+import { sortMarkers, type RecordingMarker } from "./markers";
+import { formatMeetingDay, type MeetingMetadata } from "./meetingMetadata";
+
+export interface MeetingDocument {
+  fileName: string;
+  createdAt: string;
+  /** User-set details; empty when not set */
+  title: string;
+  /** Local "YYYY-MM-DD" */
+  meetingDate: string;
+  tags: string[];
+  attendees: string[];
+  /** Output language code of the analysis (en, he, fr, es, ar) */
+  language: string;
+  summary: string;
+  participants: string[];
+  decisions: string[];
+  actionItems: { description: string; owner?: string | null }[];
+  transcriptClean: string;
+  transcriptRaw: string;
+  markers: RecordingMarker[];
+  /** Timed segments of the transcripts, with mapped speaker names */
+  segmentsClean?: TranscriptSegment[];
+  segmentsRaw?: TranscriptSegment[];
+  /** Audio length in seconds, when known */
+  duration?: number;
+}
+
+export interface DocumentHeadings {
+  title: string;
+  summary: string;
+  participants: string;
+  decisions: string;
+  actionItems: string;
+  owner: string;
+  unassigned: string;
+  cleanTranscript: string;
+  originalTranscript: string;
+  markers: string;
+  bookmark: string;
+  tags: string;
+  attendees: string;
+  none: string;
+}
+
+const DOCUMENT_LANGUAGES: UiLang[] = ["en", "he", "fr", "es", "ar"];
+
+function namedSegments(
+  segments: TranscriptSegment[] | undefined,
+  speakerMap?: SpeakerMap
+): TranscriptSegment[] | undefined {
+  return segments?.map((s) => (s.speaker ? { ...s, speaker: speakerName(s.speaker, speakerMap) } : s));
+}
+
+function toUiLang(language: string): UiLang {
+  return DOCUMENT_LANGUAGES.includes(language as UiLang) ? (language as UiLang) : "en";
+}
+
+export function documentFromResult(
+  result: ApiResult,
+  fileName: string,
+  language: string,
+  createdAt: string = new Date().toISOString(),
+  speakerMap?: SpeakerMap,
+  markers: RecordingMarker[] = [],
+  duration?: number,
+  metadata?: MeetingMetadata
+): MeetingDocument {
+  const { analysis } = result;
+  return {
+    fileName,
+    createdAt,
+    title: metadata?.title ?? "",
+    meetingDate: metadata?.meetingDate ?? "",
+    tags: metadata?.tags ?? [],
+    attendees: metadata?.attendees ?? [],
+    language: analysis.language || language,
+    summary: analysis.summary ?? "",
+    participants: analysis.participants ?? [],
+    decisions: analysis.decisions ?? [],
+    actionItems: (analysis.action_items ?? []).map((a) => ({
+      description: a.description,
+      owner: a.owner ? speakerName(a.owner, speakerMap) : null,
+    })),
+    transcriptClean: transcriptWithSpeakers(
+      analysis.translated_transcript ?? "",
+      analysis.translated_segments,
+      speakerMap
+    ),
+    transcriptRaw: transcriptWithSpeakers(
+      analysis.raw_transcript || result.transcript || "",
+      analysis.raw_segments ?? result.segments,
+      speakerMap
+    ),
+    markers,
+    segmentsClean: namedSegments(analysis.translated_segments, speakerMap),
+    segmentsRaw: namedSegments(analysis.raw_segments ?? result.segments, speakerMap),
+    duration,
+  };
+}
+
+export function documentFromHistory(item: HistoryItem): MeetingDocument {
+  return {
+    fileName: item.fileName,
+    createdAt: item.createdAt,
+    title: item.title ?? "",
+    meetingDate: item.meetingDate ?? "",
+    tags: item.tags ?? [],
+    attendees: item.attendees ?? [],
+    language: item.outputLanguage,
+    summary: item.summary,
+    participants: item.participants,
+    decisions: item.decisions,
+    actionItems: item.actionItems.map((a) => ({
+      description: a.description,
+      owner: a.owner ? speakerName(a.owner, item.speakerMap) : null,
+    })),
+    transcriptClean: transcriptWithSpeakers(item.transcriptClean, item.segmentsClean, item.speakerMap),
+    transcriptRaw: transcriptWithSpeakers(item.transcriptRaw, item.segmentsRaw, item.speakerMap),
+    markers: item.markers ?? [],
+    segmentsClean: namedSegments(item.segmentsClean, item.speakerMap),
+    segmentsRaw: namedSegments(item.segmentsRaw, item.speakerMap),
+    duration: item.duration,
+  };
+}
+
+export function documentHeadings(language: string): DocumentHeadings {
+  const t = getStrings(toUiLang(language));
+  return {
+    title: t.exportDocumentTitle,
+    summary: t.summary,
+    participants: t.participants,
+    decisions: t.decisions,
+    actionItems: t.actionItems,
+    owner: t.exportOwner,
+    unassigned: t.ownerUnassigned,
+    cleanTranscript: t.cleanTranscript,
+    originalTranscript: t.originalTranscript,
+    markers: t.markersTitle,
+    bookmark: t.markerBookmark,
+    tags: t.meetingTagsLabel,
+    attendees: t.meetingAttendeesLabel,
+    none: t.none,
+  };
+}
+
+export function isRtlDocument(language: string): boolean {
+  return isRtl(toUiLang(language));
+}
+
+export function formatDocumentDate(iso: string, language: string): string {
+  try {
+    return new Intl.DateTimeFormat(toUiLang(language), { dateStyle: "long", timeStyle: "short" }).format(
+      new Date(iso)
+    );
+  } catch {
+    return iso;
+  }
+}
+
+/**
+ * Renderer-neutral layout of an exported document, in reading order.
+ * The docx and pdf builders walk these blocks so both formats stay in sync.
+ */
+export type DocumentBlock =
+  | { type: "title"; text: string }
+  | { type: "meta"; text: string }
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "bullet"; text: string }
+  | { type: "numbered"; index: number; text: string; detail: string };
+
+function paragraphs(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function documentBlocks(doc: MeetingDocument): DocumentBlock[] {
+  const h = documentHeadings(doc.language);
+  const date = doc.meetingDate
+    ? formatMeetingDay(doc.meetingDate, toUiLang(doc.language))
+    : formatDocumentDate(doc.createdAt, doc.language);
+  const blocks: DocumentBlock[] = [
+    { type: "title", text: doc.title || h.title },
+    { type: "meta", text: `${doc.fileName} · ${date}` },
+  ];
+  if (doc.attendees.length > 0) blocks.push({ type: "meta", text: `${h.attendees}: ${doc.attendees.join(", ")}` });
+  if (doc.tags.length > 0) {
+    blocks.push({ type: "meta", text: `${h.tags}: ${doc.tags.map((tag) => `#${tag}`).join(" ")}` });
+  }
+
+  const textSection = (heading: string, text: string) => {
+    blocks.push({ type: "heading", text: heading });
+    const lines = paragraphs(text);
+    if (lines.length === 0) blocks.push({ type: "paragraph", text: h.none });
+    for (const line of lines) blocks.push({ type: "paragraph", text: line });
+  };
+
+  const listSection = (heading: string, items: string[]) => {
+    blocks.push({ type: "heading", text: heading });
+    if (items.length === 0) blocks.push({ type: "paragraph", text: h.none });
+    for (const item of items) blocks.push({ type: "bullet", text: item });
+  };
+
+  textSection(h.summary, doc.summary);
+  listSection(h.participants, doc.participants);
+  listSection(h.decisions, doc.decisions);
+
+  blocks.push({ type: "heading", text: h.actionItems });
+  if (doc.actionItems.length === 0) blocks.push({ type: "paragraph", text: h.none });
+  doc.actionItems.forEach((a, i) => {
+    blocks.push({
+      type: "numbered",
+      index: i + 1,
+      text: a.description,
+      detail: `${h.owner}: ${a.owner || h.unassigned}`,
+    });
+  });
+
+  if (doc.markers.length > 0) {
+    listSection(
+      h.markers,
+      sortMarkers(doc.markers).map((m) => `${formatTimestamp(m.at)} — ${m.note || h.bookmark}`)
+    );
+  }
+
+  textSection(h.cleanTranscript, doc.transcriptClean);
+  textSection(h.originalTranscript, doc.transcriptRaw);
+
+  return blocks;
+}
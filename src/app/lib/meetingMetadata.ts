@@ -0,0 +1,79 @@
+/**
+ * User-editable meeting details: title, meeting date, tags and expected
+ * attendees.
+ *
+ * A saved meeting is otherwise known only by its file name and the time it
+ * was analyzed. The meeting date, when set, takes the place of the analysis
+ * time for date filters and sorting. Empty values mean "not set".
+ */
+
+import type { HistoryItem } from "./storage";
+
+export type MeetingMetadata = Required<Pick<HistoryItem, "title" | "meetingDate" | "tags" | "attendees">>;
+
+const TITLE_MAX_CHARS = 60;
+
+export function metadataFromHistory(item: HistoryItem): MeetingMetadata {
+  return {
+    title: item.title ?? "",
+    meetingDate: item.meetingDate ?? "",
+    tags: item.tags ?? [],
+    attendees: item.attendees ?? [],
+  };
+}
+
+/** Title shown for a meeting: the one set by the user, else the file name. */
+export function meetingTitle(item: Pick<HistoryItem, "title" | "fileName">): string {
+  return item.title?.trim() || item.fileName;
+}
+
+/**
+ * Title suggested from the summary: its first sentence, cut at a word
+ * boundary when long.
+ */
+export function suggestTitle(summary: string): string {
+  const first = summary.trim().split(/(?<=[.!?。؟])\s|\n/)[0]?.trim() ?? "";
+  const sentence = first.replace(/[.!?。؟:;,\s]+$/, "");
+  if ([...sentence].length <= TITLE_MAX_CHARS) return sentence;
+  const cut = [...sentence].slice(0, TITLE_MAX_CHARS).join("");
+  const space = cut.lastIndexOf(" ");
+  return `${(space > TITLE_MAX_CHARS / 2 ? cut.slice(0, space) : cut).trim()}…`;
+}
+
+/**
+ * Trimmed, de-duplicated (case-insensitive) entries in the order given.
+ * A leading "#" is dropped from tags.
+ */
+export function normalizeList(values: string[], { tags = false } = {}): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of values) {
+    const value = (tags ? raw.replace(/^#+/, "") : raw).replace(/\s+/g, " ").trim();
+    const key = value.toLocaleLowerCase();
+    if (!value || seen.has(key)) continue;
+    seen.add(key);
+    result.push(value);
+  }
+  return result;
+}
+
+/** Every tag used across meetings, alphabetically. */
+export function allTags(items: HistoryItem[]): string[] {
+  return normalizeList(items.flatMap((item) => item.tags ?? [])).sort((a, b) => a.localeCompare(b));
+}
+
+export function hasTag(item: HistoryItem, tag: string): boolean {
+  const key = tag.toLocaleLowerCase();
+  return (item.tags ?? []).some((t) => t.toLocaleLowerCase() === key);
+}
+
+/** Format a local "YYYY-MM-DD" day, or return it unchanged if invalid. */
+export function formatMeetingDay(day: string, locale?: string): string {
+  const date = new Date(`${day}T00:00`);
+  if (Number.isNaN(date.getTime())) return day;
+  try {
+    return new Intl.DateTimeFormat(locale, { dateStyle: "long" }).format(date);
+  } catch {
+    return day;
+  }
+}
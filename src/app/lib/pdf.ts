@@ -0,0 +1,371 @@
+/**
+ * PDF builder for meeting documents.
+ *
+ * Pages are laid out on a canvas, so the browser's own text engine handles
+ * Hebrew/Arabic shaping and bidi without embedding fonts. Each page is then
+ * embedded as a JPEG image in a small hand-written PDF, with every line also
+ * written as invisible text (render mode 3) at the same position, as OCR tools
+ * do. The text layer uses a glyph-less font whose ToUnicode map passes UTF-16
+ * through, so the text can be selected, searched and read by screen readers.
+ */
+
+import { documentBlocks, isRtlDocument, type DocumentBlock, type MeetingDocument } from "./meetingDocument";
+
+// A4 in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+/** Canvas pixels per PDF point (2 ≈ 144 dpi) */
+const SCALE = 2;
+const JPEG_QUALITY = 0.9;
+
+const FONT_FAMILY =
+  '"Segoe UI", "Helvetica Neue", Arial, "Noto Sans Hebrew", "Noto Sans Arabic", sans-serif';
+
+interface BlockStyle {
+  size: number;
+  weight: 400 | 600 | 700;
+  italic?: boolean;
+  color: string;
+  lineHeight: number;
+  spaceBefore: number;
+  spaceAfter: number;
+  /** Indent of the text column from the start edge (list markers sit in it) */
+  indent: number;
+}
+
+const STYLES: Record<DocumentBlock["type"], BlockStyle> = {
+  title: { size: 22, weight: 700, color: "#312e81", lineHeight: 1.3, spaceBefore: 0, spaceAfter: 4, indent: 0 },
+  meta: { size: 10, weight: 400, color: "#71717a", lineHeight: 1.4, spaceBefore: 0, spaceAfter: 12, indent: 0 },
+  heading: { size: 14, weight: 700, color: "#4f46e5", lineHeight: 1.3, spaceBefore: 16, spaceAfter: 6, indent: 0 },
+  paragraph: { size: 11, weight: 400, color: "#27272a", lineHeight: 1.5, spaceBefore: 0, spaceAfter: 6, indent: 0 },
+  bullet: { size: 11, weight: 400, color: "#27272a", lineHeight: 1.5, spaceBefore: 0, spaceAfter: 4, indent: 18 },
+  numbered: { size: 11, weight: 400, color: "#27272a", lineHeight: 1.5, spaceBefore: 0, spaceAfter: 2, indent: 18 },
+};
+
+const DETAIL_STYLE: BlockStyle = {
+  size: 10,
+  weight: 400,
+  italic: true,
+  color: "#6d28d9",
+  lineHeight: 1.4,
+  spaceBefore: 0,
+  spaceAfter: 6,
+  indent: 18,
+};
+
+/** One line of text drawn on a page, in PDF points from the top-left corner */
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  width: number;
+}
+
+/** Advance width of every glyph of the text layer font, in 1/1000 em */
+const TEXT_LAYER_GLYPH_WIDTH = 500;
+
+const RTL_CHARS = "\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF";
+const LTR_CHAR = "A-Za-z0-9\u00C0-\u024F";
+/** Latin words and numbers, with anything but RTL letters between them */
+const LTR_RUN = new RegExp(`([${LTR_CHAR}](?:[^${RTL_CHARS}]*[${LTR_CHAR}])?)`);
+
+/**
+ * Characters of an RTL line in the order they appear on the page, which is
+ * the order PDF text is stored in: reversed, except Latin words and numbers.
+ */
+function visualOrder(text: string): string {
+  return text
+    .split(LTR_RUN)
+    .reverse()
+    .map((part) => (LTR_RUN.test(part) ? part : Array.from(part).reverse().join("")))
+    .join("");
+}
+
+function fontFor(style: BlockStyle): string {
+  return `${style.italic ? "italic " : ""}${style.weight} ${style.size}px ${FONT_FAMILY}`;
+}
+
+/**
+ * Greedy word wrap. Words longer than a full line are broken by character.
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    if (ctx.measureText(word).width <= maxWidth) {
+      line = word;
+      continue;
+    }
+    let chunk = "";
+    for (const ch of Array.from(word)) {
+      if (chunk && ctx.measureText(chunk + ch).width > maxWidth) {
+        lines.push(chunk);
+        chunk = ch;
+      } else {
+        chunk += ch;
+      }
+    }
+    line = chunk;
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Lays blocks out top-to-bottom across as many page canvases as needed.
+ */
+class PageLayout {
+  readonly pages: HTMLCanvasElement[] = [];
+  /** Text drawn on each page, for the PDF text layer */
+  readonly text: TextRun[][] = [];
+  private ctx!: CanvasRenderingContext2D;
+  private y = MARGIN;
+
+  constructor(private readonly rtl: boolean) {
+    this.newPage();
+  }
+
+  private newPage(): void {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(PAGE_WIDTH * SCALE);
+    canvas.height = Math.round(PAGE_HEIGHT * SCALE);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not supported in this browser");
+    ctx.scale(SCALE, SCALE);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    ctx.textBaseline = "top";
+    ctx.direction = this.rtl ? "rtl" : "ltr";
+    ctx.textAlign = this.rtl ? "right" : "left";
+    this.pages.push(canvas);
+    this.text.push([]);
+    this.ctx = ctx;
+    this.y = MARGIN;
+  }
+
+  /** x coordinate of the start edge, offset by `inset` points toward the end edge */
+  private startX(inset: number): number {
+    return this.rtl ? PAGE_WIDTH - MARGIN - inset : MARGIN + inset;
+  }
+
+  private draw(text: string, inset: number, size: number): void {
+    const x = this.startX(inset);
+    const width = this.ctx.measureText(text).width;
+    this.ctx.fillText(text, x, this.y);
+    this.text[this.text.length - 1]?.push({
+      text: this.rtl ? visualOrder(text) : text,
+      x: this.rtl ? x - width : x,
+      y: this.y,
+      size,
+      width,
+    });
+  }
+
+  write(text: string, style: BlockStyle, marker?: string): void {
+    const ctx = this.ctx;
+    ctx.font = fontFor(style);
+    const lineHeight = style.size * style.lineHeight;
+    const lines = wrapText(ctx, text, CONTENT_WIDTH - style.indent);
+
+    if (this.y > MARGIN) this.y += style.spaceBefore;
+
+    lines.forEach((line, i) => {
+      if (this.y + lineHeight > PAGE_HEIGHT - MARGIN) {
+        this.newPage();
+        this.ctx.font = fontFor(style);
+      }
+      this.ctx.fillStyle = style.color;
+      if (marker && i === 0) this.draw(marker, 0, style.size);
+      this.draw(line, style.indent, style.size);
+      this.y += lineHeight;
+    });
+
+    this.y += style.spaceAfter;
+  }
+}
+
+function layoutPages(doc: MeetingDocument): PageLayout {
+  const layout = new PageLayout(isRtlDocument(doc.language));
+  for (const block of documentBlocks(doc)) {
+    const style = STYLES[block.type];
+    switch (block.type) {
+      case "bullet":
+        layout.write(block.text, style, "•");
+        break;
+      case "numbered":
+        layout.write(block.text, style, `${block.index}.`);
+        layout.write(block.detail, DETAIL_STYLE);
+        break;
+      default:
+        layout.write(block.text, style);
+    }
+  }
+  return layout;
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error("Failed to render PDF page"));
+          return;
+        }
+        blob.arrayBuffer().then((buf) => resolve(new Uint8Array(buf)), reject);
+      },
+      "image/jpeg",
+      JPEG_QUALITY
+    );
+  });
+}
+
+function hex(n: number, digits = 4): string {
+  return n.toString(16).toUpperCase().padStart(digits, "0");
+}
+
+/** ToUnicode CMap mapping every 2-byte code to the same UTF-16 code unit */
+function identityToUnicode(): string {
+  // A bfrange may only vary in its last byte, so one range per high byte
+  const ranges = Array.from({ length: 256 }, (_, high) => `<${hex(high, 2)}00> <${hex(high, 2)}FF> <${hex(high, 2)}00>`);
+  const blocks = [];
+  for (let i = 0; i < ranges.length; i += 100) {
+    const block = ranges.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfrange\n${block.join("\n")}\nendbfrange`);
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+}
+
+/**
+ * Invisible text operators for a page. Each run is stretched horizontally to
+ * the width it was drawn at, so selections line up with the image.
+ */
+function textLayer(runs: TextRun[]): string {
+  const ops = runs.map((run) => {
+    const units = Array.from({ length: run.text.length }, (_, i) => run.text.charCodeAt(i));
+    const natural = (units.length * run.size * TEXT_LAYER_GLYPH_WIDTH) / 1000;
+    const scale = natural > 0 ? (run.width / natural) * 100 : 100;
+    // Canvas y is the top of the line; the PDF origin is the bottom-left baseline
+    const baseline = PAGE_HEIGHT - run.y - run.size * 0.8;
+    const position = `1 0 0 1 ${run.x.toFixed(2)} ${baseline.toFixed(2)} Tm`;
+    return `/F0 ${run.size} Tf ${scale.toFixed(2)} Tz ${position} <${units.map((u) => hex(u)).join("")}> Tj`;
+  });
+  return ops.length ? `\nBT 3 Tr\n${ops.join("\n")}\nET` : "";
+}
+
+/**
+ * Assemble a PDF whose pages each show one full-page JPEG under their
+ * invisible text.
+ */
+function writePdf(pages: { jpeg: Uint8Array; width: number; height: number; text: TextRun[] }[]): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (data: string | Uint8Array) => {
+    const bytes = typeof data === "string" ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  // Object ids: 1 catalog, 2 page tree, 3–6 text layer font, then
+  // (page, content, image) per page
+  const pageId = (i: number) => 7 + i * 3;
+  const size = 7 + pages.length * 3;
+
+  push("%PDF-1.4\n%âãÏÓ\n");
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(
+    2,
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`
+  );
+  object(
+    3,
+    "<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H /DescendantFonts [4 0 R] /ToUnicode 6 0 R >>"
+  );
+  object(
+    4,
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor 5 0 R /DW ${TEXT_LAYER_GLYPH_WIDTH} /CIDToGIDMap /Identity >>`
+  );
+  object(
+    5,
+    `<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 /FontBBox [0 0 ${TEXT_LAYER_GLYPH_WIDTH} 1000] /ItalicAngle 0 /Ascent 1000 /Descent 0 /CapHeight 1000 /StemV 80 >>`
+  );
+  const cmap = identityToUnicode();
+  object(6, `<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream`);
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> /Font << /F0 3 0 R >> >> /Contents ${id + 1} 0 R >>`
+    );
+    const content = `q ${PAGE_WIDTH} 0 0 ${PAGE_HEIGHT} 0 0 cm /Im0 Do Q${textLayer(page.text)}`;
+    object(id + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+    offsets[id + 2] = length;
+    push(
+      `${id + 2} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    push(page.jpeg);
+    push("\nendstream\nendobj\n");
+  });
+
+  const xrefOffset = length;
+  let xref = `xref\n0 ${size}\n0000000000 65535 f \n`;
+  for (let id = 1; id < size; id++) {
+    xref += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  push(xref);
+  push(`trailer\n<< /Size ${size} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" });
+}
+
+/**
+ * Build a PDF Blob for the meeting document.
+ */
+export async function buildPdf(doc: MeetingDocument): Promise<Blob> {
+  // Make sure web fonts are ready before measuring text
+  await document.fonts?.ready;
+
+  const layout = layoutPages(doc);
+  const pages = [];
+  for (const [i, canvas] of layout.pages.entries()) {
+    pages.push({
+      jpeg: await canvasToJpeg(canvas),
+      width: canvas.width,
+      height: canvas.height,
+      text: layout.text[i] ?? [],
+    });
+  }
+  return writePdf(pages);
+}
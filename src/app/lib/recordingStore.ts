@@ -0,0 +1,143 @@
+/**
+ * Recording chunks saved to IndexedDB while recording, so a crash, reload or
+ * navigation away doesn't lose the meeting.
+ *
+ * Each MediaRecorder chunk is one record keyed [recordingId, seq]. A finished
+ * recording is deleted once it's used or discarded; anything left over is an
+ * unfinished recording that can be recovered on the next visit. Writes reject
+ * with StorageFullError when the quota is used up.
+ *
+ * A tab holding a recording (recording, paused or stopped but not yet used)
+ * marks it active in localStorage every few seconds, so other tabs don't offer
+ * it for recovery. The mark expires shortly after the tab is closed or crashes.
+ */
+
+import { STORES, withStore } from "./db";
+import { KEYS } from "./storage";
+
+export interface RecordingChunk {
+  recordingId: string;
+  /** Order within the recording, from 0 */
+  seq: number;
+  blob: Blob;
+  mimeType: string;
+  startedAt: string;
+  /** Seconds recorded when the chunk was saved */
+  elapsed: number;
+  /** Epoch ms of the write */
+  savedAt: number;
+  /** Written after the recorder stopped */
+  final?: boolean;
+}
+
+export interface UnfinishedRecording {
+  id: string;
+  startedAt: string;
+  mimeType: string;
+  /** Seconds recorded up to the last saved chunk */
+  duration: number;
+  chunks: number;
+}
+
+/** How often a tab marks the recording it holds as active */
+export const RECORDING_HEARTBEAT_MS = 5_000;
+/** An active mark older than this was left by a closed or crashed tab */
+const HEARTBEAT_TIMEOUT_MS = 20_000;
+
+export function newRecordingId(): string {
+  return `rec-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function recordingRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound([id, 0], [id, Number.MAX_SAFE_INTEGER]);
+}
+
+/** Recording id → epoch ms of the last active mark, without expired marks */
+function getActiveRecordings(): Record<string, number> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(KEYS.activeRecordings) ?? "{}") as unknown;
+    if (typeof parsed !== "object" || parsed === null) return {};
+    const cutoff = Date.now() - HEARTBEAT_TIMEOUT_MS;
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, at]) => typeof at === "number" && at > cutoff)
+    ) as Record<string, number>;
+  } catch {
+    return {};
+  }
+}
+
+function setActiveRecordings(active: Record<string, number>): void {
+  try {
+    if (Object.keys(active).length === 0) localStorage.removeItem(KEYS.activeRecordings);
+    else localStorage.setItem(KEYS.activeRecordings, JSON.stringify(active));
+  } catch {
+    /* ignore */
+  }
+}
+
+/** Mark a recording as held by this tab; repeat every RECORDING_HEARTBEAT_MS. */
+export function markRecordingActive(id: string): void {
+  setActiveRecordings({ ...getActiveRecordings(), [id]: Date.now() });
+}
+
+export function clearRecordingActive(id: string): void {
+  const active = getActiveRecordings();
+  delete active[id];
+  setActiveRecordings(active);
+}
+
+export async function saveRecordingChunk(chunk: RecordingChunk): Promise<void> {
+  await withStore(STORES.recordingChunks, "readwrite", (store) => store.put(chunk));
+}
+
+/**
+ * Recordings with saved chunks that were never used or discarded and that no
+ * open tab holds, newest first.
+ */
+export async function listUnfinishedRecordings(): Promise<UnfinishedRecording[]> {
+  const keys = await withStore<IDBValidKey[]>(STORES.recordingChunks, "readonly", (store) => store.getAllKeys());
+  const lastSeq = new Map<string, number>();
+  for (const key of keys) {
+    const [id, seq] = key as [string, number];
+    lastSeq.set(id, Math.max(seq, lastSeq.get(id) ?? 0));
+  }
+
+  const active = getActiveRecordings();
+  const recordings: UnfinishedRecording[] = [];
+  for (const [id, seq] of lastSeq) {
+    if (id in active) continue;
+    const last = await withStore<RecordingChunk | undefined>(STORES.recordingChunks, "readonly", (store) =>
+      store.get([id, seq])
+    );
+    if (!last) continue;
+    recordings.push({
+      id,
+      startedAt: last.startedAt,
+      mimeType: last.mimeType,
+      duration: last.elapsed,
+      chunks: seq + 1,
+    });
+  }
+  return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * The saved chunks joined into one file.
+ */
+export async function loadRecording(recording: UnfinishedRecording): Promise<File> {
+  const chunks = await withStore<RecordingChunk[]>(STORES.recordingChunks, "readonly", (store) =>
+    store.getAll(recordingRange(recording.id))
+  );
+  const type = recording.mimeType || "audio/webm";
+  const extension = type.includes("wav") ? "wav" : "webm";
+  const stamp = recording.startedAt.slice(0, 19).replace(/[:-]/g, "");
+  return new File(
+    chunks.sort((a, b) => a.seq - b.seq).map((c) => c.blob),
+    `recording_${stamp}_recovered.${extension}`,
+    { type }
+  );
+}
+
+export async function discardRecording(id: string): Promise<void> {
+  await withStore(STORES.recordingChunks, "readwrite", (store) => store.delete(recordingRange(id)));
+}
@@ -4,11 +4,12 @@
 
 import { useCallback, useSyncExternalStore } from "react";
 
-export type Path = "/" | "/app" | "/app/history" | "/app/settings";
+export type Path = "/" | "/app" | "/app/history" | "/app/tasks" | "/app/settings";
 
 function getPath(): Path {
   const p = typeof window === "undefined" ? "/" : window.location.pathname;
   if (p.startsWith("/app/history")) return "/app/history";
+  if (p.startsWith("/app/tasks")) return "/app/tasks";
   if (p.startsWith("/app/settings")) return "/app/settings";
   if (p.startsWith("/app")) return "/app";
   return "/";
@@ -31,9 +32,17 @@ export function usePathname(): Path {
   return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
 }
 
+/**
+ * Read a query parameter of the current URL, e.g. `?meeting=<id>`.
+ */
+export function getSearchParam(name: string): string | null {
+  if (typeof window === "undefined") return null;
+  return new URLSearchParams(window.location.search).get(name);
+}
+
 export function useNavigate() {
   return useCallback((path: string) => {
-    if (window.location.pathname === path) return;
+    if (window.location.pathname + window.location.search === path) return;
     window.history.pushState(null, "", path);
     window.dispatchEvent(new PopStateEvent("popstate"));
   }, []);
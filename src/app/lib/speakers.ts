@@ -0,0 +1,74 @@
+/**
+ * Speaker labels from diarized transcript segments ("Speaker 1", "SPEAKER_00")
+ * and the user's mapping of those labels to participant names.
+ */
+
+import type { TranscriptSegment } from "./api";
+
+/** Generic speaker label → participant name */
+export type SpeakerMap = Record<string, string>;
+
+export interface SpeakerTurn {
+  speaker: string;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Distinct speaker labels, in order of first appearance.
+ */
+export function speakerLabels(...segmentLists: (TranscriptSegment[] | undefined)[]): string[] {
+  const labels: string[] = [];
+  for (const segments of segmentLists) {
+    for (const segment of segments ?? []) {
+      if (segment.speaker && !labels.includes(segment.speaker)) labels.push(segment.speaker);
+    }
+  }
+  return labels;
+}
+
+export function hasSpeakers(segments: TranscriptSegment[] | undefined): boolean {
+  return !!segments?.some((s) => s.speaker);
+}
+
+/**
+ * Display name for a speaker label or action item owner: the mapped
+ * participant if there is one, otherwise the name unchanged.
+ */
+export function speakerName(label: string, map?: SpeakerMap): string {
+  return map?.[label]?.trim() || label;
+}
+
+/**
+ * Group consecutive segments by the same speaker into turns.
+ * Segments without a speaker continue the previous turn.
+ */
+export function speakerTurns(segments: TranscriptSegment[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && (!segment.speaker || segment.speaker === last.speaker)) {
+      last.segments.push(segment);
+    } else {
+      turns.push({ speaker: segment.speaker ?? "", segments: [segment] });
+    }
+  }
+  return turns;
+}
+
+/**
+ * Transcript text with one "Name: …" paragraph per speaker turn, or `text`
+ * unchanged when the segments carry no speakers.
+ */
+export function transcriptWithSpeakers(
+  text: string,
+  segments: TranscriptSegment[] | undefined,
+  map?: SpeakerMap
+): string {
+  if (!segments || !hasSpeakers(segments)) return text;
+  return speakerTurns(segments)
+    .map((turn) => {
+      const body = turn.segments.map((s) => s.text.trim()).join(" ");
+      return turn.speaker ? `${speakerName(turn.speaker, map)}: ${body}` : body;
+    })
+    .join("\n\n");
+}
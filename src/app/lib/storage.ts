@@ -1,14 +1,29 @@
 /**
- * LocalStorage keys and helpers for Speechi preferences and history.
+ * LocalStorage keys and helpers for Speechi preferences, plus the guest
+ * meeting history (IndexedDB, see db.ts).
  */
 
+import { STORES, withStore } from "./db";
+import type { TranscriptSegment } from "./api";
+import type { SpeakerMap } from "./speakers";
+import { isRecordingMarker, type RecordingMarker } from "./markers";
+
 export type UiLanguage = "en" | "he" | "fr" | "es" | "ar";
 export type Theme = "light" | "dark" | "system";
+/** What the recorder captures: the microphone, or tab/system audio mixed with it */
+export type RecordingSource = "mic" | "mic+system";
 
 export const KEYS = {
   uiLanguage: "speechi.uiLanguage",
   outputLanguage: "speechi.outputLanguage",
   theme: "speechi.theme",
+  keepAudio: "speechi.keepAudio",
+  microphoneId: "speechi.microphoneId",
+  recordingSource: "speechi.recordingSource",
+  liveTranscription: "speechi.liveTranscription",
+  pendingJobs: "speechi.pendingJobs",
+  activeRecordings: "speechi.activeRecordings",
+  /** Legacy history key; migrated to IndexedDB on first read */
   history: "speechi.history",
   user: "speechi_user",
   usage: "speechi_usage",
@@ -45,11 +60,71 @@ export function setTheme(t: Theme): void {
   localStorage.setItem(KEYS.theme, t);
 }
 
+/** Opt-in: store each meeting's source audio locally (off by default). */
+export function getKeepAudio(): boolean {
+  return localStorage.getItem(KEYS.keepAudio) === "true";
+}
+
+export function setKeepAudio(keep: boolean): void {
+  localStorage.setItem(KEYS.keepAudio, String(keep));
+}
+
+/** Preferred recording device (MediaDeviceInfo.deviceId); null for the system default. */
+export function getMicrophoneId(): string | null {
+  return localStorage.getItem(KEYS.microphoneId);
+}
+
+export function setMicrophoneId(deviceId: string | null): void {
+  if (deviceId) localStorage.setItem(KEYS.microphoneId, deviceId);
+  else localStorage.removeItem(KEYS.microphoneId);
+}
+
+export function getRecordingSource(): RecordingSource {
+  return localStorage.getItem(KEYS.recordingSource) === "mic+system" ? "mic+system" : "mic";
+}
+
+export function setRecordingSource(source: RecordingSource): void {
+  localStorage.setItem(KEYS.recordingSource, source);
+}
+
+/** Opt-in: stream recordings for a live transcript preview (off by default). */
+export function getLiveTranscription(): boolean {
+  return localStorage.getItem(KEYS.liveTranscription) === "true";
+}
+
+export function setLiveTranscription(enabled: boolean): void {
+  localStorage.setItem(KEYS.liveTranscription, String(enabled));
+}
+
 export interface HistoryActionItem {
   description: string;
   owner?: string | null;
+  /** Tracked on the Tasks page; absent on items that were never updated */
+  done?: boolean;
+  /** Local date "YYYY-MM-DD" */
+  dueDate?: string | null;
 }
 
+/** Document formats a meeting can be exported to. */
+export type ExportFormat = "word" | "pdf" | "markdown" | "text" | "json" | "srt" | "vtt";
+
+/**
+ * Which formats were produced for a meeting.
+ * Newer formats are optional so entries saved before they existed stay valid.
+ */
+export interface HistoryExports {
+  word: boolean;
+  pdf: boolean;
+  markdown?: boolean;
+  text?: boolean;
+  json?: boolean;
+  srt?: boolean;
+  vtt?: boolean;
+}
+
+/** How a meeting was provided: recorded or uploaded audio, or an existing transcript. */
+export type MeetingSource = "audio" | "transcript";
+
 export interface HistoryItem {
   id: string;
   createdAt: string;
@@ -61,83 +136,204 @@ export interface HistoryItem {
   participants: string[];
   decisions: string[];
   actionItems: HistoryActionItem[];
-  exports: { word: boolean; pdf: boolean };
+  exports: HistoryExports;
+  /** Timed segments of transcriptRaw / transcriptClean, if the analysis had them */
+  segmentsRaw?: TranscriptSegment[];
+  segmentsClean?: TranscriptSegment[];
+  /** Audio length in seconds, when known */
+  duration?: number;
+  /** Speaker label → participant name, set by the user */
+  speakerMap?: SpeakerMap;
+  /** Set when the user has edited the analysis (ISO timestamp) */
+  editedAt?: string;
+  /** Bookmarks and notes taken while recording */
+  markers?: RecordingMarker[];
+  /** Absent for audio, including entries saved before transcripts could be analyzed */
+  source?: MeetingSource;
+  /** Details set by the user (see meetingMetadata.ts); empty or absent when not set */
+  title?: string;
+  /** Local date "YYYY-MM-DD" the meeting took place */
+  meetingDate?: string;
+  tags?: string[];
+  /** People expected at the meeting, as opposed to participants found in the transcript */
+  attendees?: string[];
 }
 
-const MAX_HISTORY = 100;
+/** Fields of a saved meeting that can change after analysis: user edits and export badges. */
+export type HistoryItemPatch = Partial<Omit<HistoryItem, "id" | "createdAt">>;
+
+function isHistoryItem(e: unknown): e is HistoryItem {
+  if (typeof e !== "object" || e === null) return false;
+  const x = e as Record<string, unknown>;
+  return (
+    typeof x.id === "string" &&
+    typeof x.createdAt === "string" &&
+    typeof x.fileName === "string" &&
+    typeof x.outputLanguage === "string" &&
+    typeof x.summary === "string" &&
+    typeof x.transcriptRaw === "string" &&
+    typeof x.transcriptClean === "string" &&
+    Array.isArray(x.participants) &&
+    Array.isArray(x.decisions) &&
+    Array.isArray(x.actionItems) &&
+    typeof x.exports === "object" &&
+    x.exports !== null &&
+    "word" in x.exports &&
+    "pdf" in x.exports
+  );
+}
 
-function loadHistory(): HistoryItem[] {
+/** History saved by earlier versions under one localStorage key. */
+function loadLegacyHistory(): HistoryItem[] {
   try {
     const raw = localStorage.getItem(KEYS.history);
     if (!raw) return [];
     const parsed = JSON.parse(raw) as unknown;
     if (!Array.isArray(parsed)) return [];
-    return parsed.filter((e): e is HistoryItem => {
-      if (typeof e !== "object" || e === null) return false;
-      const x = e as Record<string, unknown>;
-      return (
-        typeof x.id === "string" &&
-        typeof x.createdAt === "string" &&
-        typeof x.fileName === "string" &&
-        typeof x.outputLanguage === "string" &&
-        typeof x.summary === "string" &&
-        typeof x.transcriptRaw === "string" &&
-        typeof x.transcriptClean === "string" &&
-        Array.isArray(x.participants) &&
-        Array.isArray(x.decisions) &&
-        Array.isArray(x.actionItems) &&
-        typeof x.exports === "object" &&
-        x.exports !== null &&
-        "word" in x.exports &&
-        "pdf" in x.exports
-      );
-    });
+    return parsed.filter(isHistoryItem);
   } catch {
     return [];
   }
 }
 
-function saveHistory(items: HistoryItem[]): void {
-  try {
-    localStorage.setItem(KEYS.history, JSON.stringify(items.slice(-MAX_HISTORY)));
-  } catch {
-    /* ignore */
+let migration: Promise<void> | null = null;
+
+/**
+ * One-time move of `speechi.history` into IndexedDB. The key is removed only
+ * after the items are committed, so a failed migration is retried next time.
+ */
+function migrateLegacyHistory(): Promise<void> {
+  if (localStorage.getItem(KEYS.history) === null) return Promise.resolve();
+  if (!migration) {
+    migration = withStore(STORES.history, "readwrite", (store) => {
+      for (const item of loadLegacyHistory()) store.put(item);
+    })
+      .then(() => localStorage.removeItem(KEYS.history))
+      .finally(() => {
+        migration = null;
+      });
   }
+  return migration;
 }
 
-export function getHistory(): HistoryItem[] {
-  return loadHistory().slice().reverse();
+async function loadHistory(): Promise<HistoryItem[]> {
+  await migrateLegacyHistory();
+  const all = await withStore(STORES.history, "readonly", (store) => store.getAll());
+  return all.filter(isHistoryItem);
+}
+
+/**
+ * Guest history, newest first.
+ */
+export async function getHistory(): Promise<HistoryItem[]> {
+  const list = await loadHistory();
+  return list.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 }
 
-export function addHistoryItem(item: Omit<HistoryItem, "id">): HistoryItem {
-  const list = loadHistory();
+/**
+ * Save a meeting. Rejects with StorageFullError when the browser quota is used up.
+ */
+export async function addHistoryItem(item: Omit<HistoryItem, "id">): Promise<HistoryItem> {
+  const list = await loadHistory();
   const existing = list.find(
     (e) => e.fileName === item.fileName && Math.abs(new Date(e.createdAt).getTime() - new Date(item.createdAt).getTime()) < 60_000
   );
-  if (existing) return existing as HistoryItem;
+  if (existing) return existing;
 
   const entry: HistoryItem = { ...item, id: crypto.randomUUID() };
-  list.push(entry);
-  saveHistory(list);
+  await withStore(STORES.history, "readwrite", (store) => store.put(entry));
   return entry;
 }
 
-export function updateHistoryExports(id: string, format: "word" | "pdf"): void {
-  const list = loadHistory();
-  const i = list.findIndex((e) => e.id === id);
-  if (i === -1) return;
-  const e = list[i]!;
-  e.exports = { ...e.exports, [format]: true };
-  saveHistory(list);
+export async function updateHistoryExports(id: string, format: ExportFormat): Promise<void> {
+  await withStore(STORES.history, "readwrite", (store) => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const e = request.result as HistoryItem | undefined;
+      if (!e) return;
+      store.put({ ...e, exports: { ...e.exports, [format]: true } });
+    };
+  });
+}
+
+export async function updateHistoryItem(id: string, patch: HistoryItemPatch): Promise<void> {
+  await withStore(STORES.history, "readwrite", (store) => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const e = request.result as HistoryItem | undefined;
+      if (!e) return;
+      store.put({ ...e, ...patch });
+    };
+  });
+}
+
+export async function deleteHistoryItem(id: string): Promise<void> {
+  await withStore(STORES.history, "readwrite", (store) => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+  localStorage.removeItem(KEYS.history);
+  await withStore(STORES.history, "readwrite", (store) => store.clear());
+}
+
+/* ========================================
+   PENDING ANALYSIS JOBS
+   ======================================== */
+
+/** A submitted analysis job whose result hasn't been received yet. */
+export interface PendingJob {
+  jobId: string;
+  fileName: string;
+  outputLanguage: string;
+  /** When the job was submitted (ISO) */
+  createdAt: string;
+  /** Recording markers, for the history entry once the result arrives */
+  markers?: RecordingMarker[];
+}
+
+/** Jobs older than this are dropped; the server won't keep results forever */
+const PENDING_JOB_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+function isPendingJob(e: unknown): e is PendingJob {
+  if (typeof e !== "object" || e === null) return false;
+  const x = e as Record<string, unknown>;
+  return (
+    typeof x.jobId === "string" &&
+    typeof x.fileName === "string" &&
+    typeof x.outputLanguage === "string" &&
+    typeof x.createdAt === "string" &&
+    (x.markers === undefined || (Array.isArray(x.markers) && x.markers.every(isRecordingMarker)))
+  );
+}
+
+export function getPendingJobs(): PendingJob[] {
+  try {
+    const raw = localStorage.getItem(KEYS.pendingJobs);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    const cutoff = Date.now() - PENDING_JOB_MAX_AGE_MS;
+    return parsed.filter(isPendingJob).filter((job) => new Date(job.createdAt).getTime() > cutoff);
+  } catch {
+    return [];
+  }
+}
+
+function setPendingJobs(jobs: PendingJob[]): void {
+  try {
+    if (jobs.length === 0) localStorage.removeItem(KEYS.pendingJobs);
+    else localStorage.setItem(KEYS.pendingJobs, JSON.stringify(jobs));
+  } catch {
+    /* ignore */
+  }
 }
 
-export function deleteHistoryItem(id: string): void {
-  const list = loadHistory().filter((e) => e.id !== id);
-  saveHistory(list);
+export function addPendingJob(job: PendingJob): void {
+  setPendingJobs([...getPendingJobs().filter((j) => j.jobId !== job.jobId), job]);
 }
 
-export function clearHistory(): void {
-  saveHistory([]);
+export function removePendingJob(jobId: string): void {
+  setPendingJobs(getPendingJobs().filter((j) => j.jobId !== jobId));
 }
 
 /* ========================================
@@ -0,0 +1,225 @@
+/**
+ * SRT and WebVTT subtitles of a meeting transcript.
+ *
+ * Cues come from the timed segments when the analysis has them. Without
+ * segments the text is split into sentences spread over the audio duration in
+ * proportion to their length, which is an estimate but keeps captions roughly
+ * in step. Every cue has at most two lines of 42 characters (the usual
+ * broadcast limit); longer segments are split into several cues. A speaker
+ * name is put in front of the text whenever the speaker changes.
+ */
+
+import type { TranscriptSegment } from "./api";
+import type { MeetingDocument } from "./meetingDocument";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+/** Translated (clean) or original (raw) transcript */
+export type SubtitleTrack = "clean" | "raw";
+
+export interface SubtitleCue {
+  /** Milliseconds */
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export const SUBTITLE_MAX_LINE_CHARS = 42;
+export const SUBTITLE_MAX_LINES = 2;
+
+/** Shortest time a cue stays on screen */
+const MIN_CUE_MS = 700;
+/** Speaking rate used when neither segments nor the audio length are known */
+const CHARS_PER_SECOND = 15;
+
+const SENTENCE_END = /(?<=[.!?…。؟])\s+|\n+/;
+
+function charCount(text: string): number {
+  return [...text].length;
+}
+
+/** Words greedily packed into lines; a word longer than a line is broken. */
+export function wrapSubtitleText(text: string, max = SUBTITLE_MAX_LINE_CHARS): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (let word of text.split(/\s+/).filter(Boolean)) {
+    while (charCount(word) > max) {
+      if (line) lines.push(line);
+      const chars = [...word];
+      lines.push(chars.slice(0, max).join(""));
+      word = chars.slice(max).join("");
+      line = "";
+    }
+    if (!line) line = word;
+    else if (charCount(line) + 1 + charCount(word) <= max) line += ` ${word}`;
+    else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Segments of an untimed transcript: one per sentence, timed in proportion
+ * to its length over `duration` seconds.
+ */
+export function estimateSegments(text: string, duration: number): TranscriptSegment[] {
+  const sentences = text
+    .split(SENTENCE_END)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const total = sentences.reduce((sum, s) => sum + charCount(s), 0);
+  if (total === 0 || duration <= 0) return [];
+  let at = 0;
+  return sentences.map((sentence) => {
+    const start = at;
+    at += (charCount(sentence) / total) * duration;
+    return { start, end: at, text: sentence };
+  });
+}
+
+/**
+ * Cues of timed segments. Each segment's lines are grouped into cues of up to
+ * two lines that share its time span by length. Cues never overlap and are
+ * on screen for at least MIN_CUE_MS.
+ */
+export function cuesFromSegments(segments: TranscriptSegment[]): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let lastSpeaker: string | undefined;
+  for (const segment of [...segments].sort((a, b) => a.start - b.start)) {
+    let text = segment.text.replace(/-->/g, "->").replace(/\s+/g, " ").trim();
+    if (!text) continue;
+    if (segment.speaker && segment.speaker !== lastSpeaker) text = `${segment.speaker}: ${text}`;
+    lastSpeaker = segment.speaker ?? lastSpeaker;
+
+    const lines = wrapSubtitleText(text);
+    const groups: string[][] = [];
+    for (let i = 0; i < lines.length; i += SUBTITLE_MAX_LINES) groups.push(lines.slice(i, i + SUBTITLE_MAX_LINES));
+    const totalChars = lines.reduce((sum, line) => sum + charCount(line), 0);
+    const span = Math.max(0, segment.end - segment.start) * 1000;
+
+    let at = segment.start * 1000;
+    for (const group of groups) {
+      const length = (group.reduce((sum, line) => sum + charCount(line), 0) / totalChars) * span;
+      const prev = cues[cues.length - 1];
+      const start = Math.round(Math.max(at, prev?.end ?? 0));
+      const end = Math.max(Math.round(at + length), start + MIN_CUE_MS);
+      cues.push({ start, end, lines: group });
+      at += length;
+    }
+  }
+  return cues;
+}
+
+function timestamp(ms: number, separator: "," | "."): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor((ms % 3_600_000) / 60_000);
+  const s = Math.floor((ms % 60_000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function buildSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${timestamp(cue.start, ",")} --> ${timestamp(cue.end, ",")}\n${cue.lines.join("\n")}\n`)
+    .join("\n");
+}
+
+export function buildVtt(cues: SubtitleCue[]): string {
+  const body = cues.map(
+    (cue, i) =>
+      `${i + 1}\n${timestamp(cue.start, ".")} --> ${timestamp(cue.end, ".")}\n${cue.lines.map(escapeVtt).join("\n")}\n`
+  );
+  return ["WEBVTT\n", ...body].join("\n");
+}
+
+/** Timed segments of a track, or sentence estimates when it has none. */
+export function subtitleCues(doc: MeetingDocument, track: SubtitleTrack): SubtitleCue[] {
+  const segments = track === "clean" ? doc.segmentsClean : doc.segmentsRaw;
+  if (segments?.length) return cuesFromSegments(segments);
+
+  const text = track === "clean" ? doc.transcriptClean : doc.transcriptRaw;
+  const lastEnd = Math.max(0, ...[...(doc.segmentsRaw ?? []), ...(doc.segmentsClean ?? [])].map((s) => s.end));
+  const duration = doc.duration || lastEnd || charCount(text) / CHARS_PER_SECOND;
+  return cuesFromSegments(estimateSegments(text, duration));
+}
+
+const CUE_TIMING = {
+  srt: /^(\d{2}):(\d{2}):(\d{2}),(\d{3}) --> (\d{2}):(\d{2}):(\d{2}),(\d{3})$/,
+  vtt: /^(\d{2,}):(\d{2}):(\d{2})\.(\d{3}) --> (\d{2,}):(\d{2}):(\d{2})\.(\d{3})(?: .*)?$/,
+};
+
+function timingMs(parts: string[]): number {
+  const [h = 0, m = 0, s = 0, ms = 0] = parts.map(Number);
+  return ((h * 60 + m) * 60 + s) * 1000 + ms;
+}
+
+function decodeVtt(line: string): string {
+  return line
+    .replace(/<[^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Problems of a subtitle file against the format rules: the WEBVTT header,
+ * cue numbering from 1 (SRT), `start --> end` timing with end after start and
+ * no overlap, and one or two lines of at most 42 characters per cue.
+ * Empty when the file is valid.
+ */
+export function validateSubtitles(content: string, format: SubtitleFormat): string[] {
+  const problems: string[] = [];
+  let blocks = content.replace(/\r\n?/g, "\n").trim().split(/\n{2,}/);
+
+  if (format === "vtt") {
+    if (!/^WEBVTT(?:[ \t].*)?$/.test(blocks[0]?.split("\n")[0] ?? "")) problems.push("missing WEBVTT header");
+    blocks = blocks.slice(1);
+  }
+  if (blocks.length === 0 || (blocks.length === 1 && !blocks[0])) return [...problems, "no cues"];
+
+  let previousEnd = 0;
+  blocks.forEach((block, i) => {
+    const cue = `cue ${i + 1}`;
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) {
+      problems.push(`${cue}: no timing line`);
+      return;
+    }
+    if (format === "srt" && (timingIndex !== 1 || lines[0] !== String(i + 1))) {
+      problems.push(`${cue}: not numbered ${i + 1}`);
+    }
+    if (format === "vtt" && timingIndex > 1) problems.push(`${cue}: more than one identifier line`);
+
+    const timing = lines[timingIndex] ?? "";
+    const match = timing.match(CUE_TIMING[format]);
+    if (!match) {
+      problems.push(`${cue}: malformed timing "${timing}"`);
+      return;
+    }
+    const start = timingMs(match.slice(1, 5));
+    const end = timingMs(match.slice(5, 9));
+    if (end <= start) problems.push(`${cue}: ends before it starts`);
+    if (start < previousEnd) problems.push(`${cue}: overlaps the previous cue`);
+    previousEnd = end;
+
+    const text = lines.slice(timingIndex + 1);
+    if (text.length === 0 || text.every((line) => !line.trim())) problems.push(`${cue}: no text`);
+    if (text.length > SUBTITLE_MAX_LINES) problems.push(`${cue}: more than ${SUBTITLE_MAX_LINES} lines`);
+    for (const line of text) {
+      if (line.includes("-->")) problems.push(`${cue}: "-->" in the text`);
+      const visible = format === "vtt" ? decodeVtt(line) : line;
+      if (charCount(visible) > SUBTITLE_MAX_LINE_CHARS) {
+        problems.push(`${cue}: line longer than ${SUBTITLE_MAX_LINE_CHARS} characters`);
+      }
+    }
+  });
+  return problems;
+}
@@ -0,0 +1,113 @@
+/**
+ * Action items from every saved meeting, for the Tasks page.
+ *
+ * Items stay inside their HistoryItem; a task is a reference to one of them
+ * (meeting id + index), so status changes are saved as a history patch.
+ */
+
+import { localDay } from "./historySearch";
+import { speakerName } from "./speakers";
+import type { HistoryActionItem, HistoryItem } from "./storage";
+
+export type TaskStatusFilter = "open" | "done" | "all";
+
+export interface TaskFilters {
+  status: TaskStatusFilter;
+  /** Meeting id, or "all" */
+  meeting: string;
+  groupByOwner: boolean;
+}
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = {
+  status: "open",
+  meeting: "all",
+  groupByOwner: true,
+};
+
+export interface Task {
+  meeting: HistoryItem;
+  /** Position in meeting.actionItems */
+  index: number;
+  item: HistoryActionItem;
+  /** Owner with the meeting's speaker mapping applied, "" if unassigned */
+  owner: string;
+}
+
+export interface TaskGroup {
+  /** "" for unassigned */
+  owner: string;
+  tasks: Task[];
+}
+
+export function collectTasks(items: HistoryItem[]): Task[] {
+  return items.flatMap((meeting) =>
+    meeting.actionItems.map((item, index) => ({
+      meeting,
+      index,
+      item,
+      owner: item.owner?.trim() ? speakerName(item.owner.trim(), meeting.speakerMap) : "",
+    }))
+  );
+}
+
+export function isOverdue(item: HistoryActionItem, today = localDay(new Date())): boolean {
+  return !item.done && !!item.dueDate && item.dueDate < today;
+}
+
+// Sorts after any real "YYYY-MM-DD"
+const NO_DUE_DATE = "9999-99-99";
+
+/**
+ * Open before done, then by due date (undated last), then newest meeting first.
+ */
+function compareTasks(a: Task, b: Task): number {
+  if (!!a.item.done !== !!b.item.done) return a.item.done ? 1 : -1;
+  const dueA = a.item.dueDate || NO_DUE_DATE;
+  const dueB = b.item.dueDate || NO_DUE_DATE;
+  if (dueA !== dueB) return dueA < dueB ? -1 : 1;
+  const time = new Date(b.meeting.createdAt).getTime() - new Date(a.meeting.createdAt).getTime();
+  return time || a.index - b.index;
+}
+
+export function filterTasks(tasks: Task[], filters: TaskFilters): Task[] {
+  return tasks
+    .filter((task) => {
+      if (filters.meeting !== "all" && task.meeting.id !== filters.meeting) return false;
+      if (filters.status === "open" && task.item.done) return false;
+      if (filters.status === "done" && !task.item.done) return false;
+      return true;
+    })
+    .sort(compareTasks);
+}
+
+/**
+ * Group sorted tasks by owner, owners alphabetically and unassigned last.
+ */
+export function groupTasksByOwner(tasks: Task[]): TaskGroup[] {
+  const groups = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const key = task.owner.toLocaleLowerCase();
+    const group = groups.get(key);
+    if (group) group.push(task);
+    else groups.set(key, [task]);
+  }
+  return Array.from(groups.values())
+    .map((group) => ({ owner: group[0]!.owner, tasks: group }))
+    .sort((a, b) => {
+      if (!a.owner || !b.owner) return a.owner ? -1 : b.owner ? 1 : 0;
+      return a.owner.localeCompare(b.owner);
+    });
+}
+
+/**
+ * A meeting's action items with the task's item changed, ready for
+ * `update(id, { actionItems })`. Pass the latest copy of the meeting so
+ * changes made since the task was collected are kept.
+ */
+export function patchTask(
+  meeting: HistoryItem,
+  task: Task,
+  patch: Pick<HistoryActionItem, "done" | "dueDate">
+): HistoryActionItem[] {
+  return meeting.actionItems.map((item, i) => (i === task.index ? { ...item, ...patch } : item));
+}
@@ -0,0 +1,96 @@
+/**
+ * Text-based export formats: Markdown, plain text and structured JSON.
+ * Markdown and plain text follow the same block layout as the Word/PDF export.
+ */
+
+import { documentBlocks, type DocumentBlock, type MeetingDocument } from "./meetingDocument";
+import { sortMarkers } from "./markers";
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>|])/g, "\\$1").replace(/^(#|\d+\.|[-+])(\s)/, "\\$1$2");
+}
+
+function isListItem(block: DocumentBlock): boolean {
+  return block.type === "bullet" || block.type === "numbered";
+}
+
+/**
+ * Join rendered blocks: list items stay tight, everything else is separated
+ * by a blank line.
+ */
+function joinBlocks(blocks: DocumentBlock[], render: (block: DocumentBlock) => string): string {
+  let out = "";
+  blocks.forEach((block, i) => {
+    const prev = blocks[i - 1];
+    if (prev) out += isListItem(prev) && isListItem(block) ? "\n" : "\n\n";
+    out += render(block);
+  });
+  return `${out}\n`;
+}
+
+export function buildMarkdown(doc: MeetingDocument): string {
+  return joinBlocks(documentBlocks(doc), (block) => {
+    switch (block.type) {
+      case "title":
+        return `# ${escapeMarkdown(block.text)}`;
+      case "meta":
+        return `_${escapeMarkdown(block.text)}_`;
+      case "heading":
+        return `## ${escapeMarkdown(block.text)}`;
+      case "paragraph":
+        return escapeMarkdown(block.text);
+      case "bullet":
+        return `- ${escapeMarkdown(block.text)}`;
+      case "numbered":
+        return `${block.index}. ${escapeMarkdown(block.text)}\n   - _${escapeMarkdown(block.detail)}_`;
+    }
+  });
+}
+
+export function buildPlainText(doc: MeetingDocument): string {
+  return joinBlocks(documentBlocks(doc), (block) => {
+    switch (block.type) {
+      case "title":
+        return `${block.text}\n${"=".repeat(Math.max(block.text.length, 3))}`;
+      case "heading":
+        return `${block.text}\n${"-".repeat(Math.max(block.text.length, 3))}`;
+      case "meta":
+      case "paragraph":
+        return block.text;
+      case "bullet":
+        return `• ${block.text}`;
+      case "numbered":
+        return `${block.index}. ${block.text}\n   ${block.detail}`;
+    }
+  });
+}
+
+/**
+ * Structured export mirroring the API's Analysis fields, plus the file name
+ * and creation date for context.
+ */
+export function buildJson(doc: MeetingDocument): string {
+  return JSON.stringify(
+    {
+      file_name: doc.fileName,
+      created_at: doc.createdAt,
+      title: doc.title || null,
+      meeting_date: doc.meetingDate || null,
+      tags: doc.tags,
+      attendees: doc.attendees,
+      language: doc.language,
+      summary: doc.summary,
+      participants: doc.participants,
+      decisions: doc.decisions,
+      action_items: doc.actionItems.map((a) => ({
+        description: a.description,
+        owner: a.owner ?? null,
+      })),
+      translated_transcript: doc.transcriptClean,
+      raw_transcript: doc.transcriptRaw,
+      markers: sortMarkers(doc.markers).map((m) => ({ at: m.at, note: m.note ?? null })),
+    },
+    null,
+    2
+  );
+}
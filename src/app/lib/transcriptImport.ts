@@ -0,0 +1,200 @@
+/**
+ * Existing meeting transcripts (Zoom, Teams, …) read for analysis without audio.
+ *
+ * Accepts plain text, WebVTT, SRT and Word (.docx) files, or pasted text.
+ * Subtitle cues become timed segments; a speaker comes from a WebVTT voice
+ * tag (`<v Name>`) or a "Name: " prefix on the cue text, which is how Zoom
+ * and Teams label speakers. Prefixes are only read as speakers when the file
+ * is labelled that way throughout, so a stray "Note:" or "Q:" stays text.
+ * Pasted text is checked for VTT/SRT cues too.
+ */
+
+import type { TranscriptSegment } from "./api";
+import { transcriptWithSpeakers } from "./speakers";
+import { readZipEntry } from "./zip";
+
+export type TranscriptFormat = "text" | "vtt" | "srt" | "docx";
+
+export type TranscriptImportCode = "format" | "size" | "empty" | "read";
+
+export interface ImportedTranscript {
+  /** File name, or empty for pasted text */
+  name: string;
+  format: TranscriptFormat;
+  /** Full text; "Name: …" paragraphs when the cues have speakers */
+  text: string;
+  /** Timed cues of VTT/SRT input */
+  segments?: TranscriptSegment[];
+}
+
+/**
+ * A transcript file that could not be used.
+ */
+export class TranscriptImportError extends Error {
+  code: TranscriptImportCode;
+  fileName: string;
+
+  constructor(code: TranscriptImportCode, fileName: string) {
+    super(`${fileName}: ${code}`);
+    this.name = "TranscriptImportError";
+    this.code = code;
+    this.fileName = fileName;
+  }
+}
+
+export const TRANSCRIPT_EXTENSIONS = ["txt", "vtt", "srt", "docx"] as const;
+
+/** Accept string for transcript file inputs */
+export const ACCEPT_TRANSCRIPT = [
+  ...TRANSCRIPT_EXTENSIONS.map((ext) => `.${ext}`),
+  "text/plain",
+  "text/vtt",
+  "application/x-subrip",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+].join(",");
+
+/** Transcripts are text; anything bigger is almost certainly the wrong file */
+export const TRANSCRIPT_MAX_BYTES = 10 * 1024 * 1024;
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const SPEAKER_PREFIX = /^([^:\n]{1,40}):\s+(.+)$/s;
+/** Share of cues that must start with a repeated "Name: " prefix */
+const SPEAKER_PREFIX_MIN_SHARE = 0.5;
+
+/** Seconds of "hh:mm:ss.mmm", "mm:ss.mmm" or the SRT form with a comma */
+export function parseCueTime(value: string): number {
+  const [clock = "", fraction = "0"] = value.trim().split(/[.,]/);
+  const parts = clock.split(":").map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code: string) => {
+      // Numbers past the last code point are kept as written
+      const point = Number(code);
+      return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    })
+    .replace(/&amp;/g, "&");
+}
+
+/** A cue's text, with the speaker of its voice tag if it has one */
+function cueSegment(start: number, end: number, lines: string[]): TranscriptSegment | null {
+  let raw = lines.join(" ");
+  const voice = raw.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+  raw = decodeEntities(raw.replace(/<[^>]+>/g, "")).replace(/\s+/g, " ").trim();
+  if (!raw) return null;
+  const speaker = voice?.[1]?.trim();
+  return speaker ? { start, end, text: raw, speaker } : { start, end, text: raw };
+}
+
+/**
+ * Cues without a voice tag, split into "Name: text" when the prefixes are
+ * speaker labels: names that start more than one cue, together starting at
+ * least half of all cues. Then every prefixed cue's name is its speaker.
+ */
+function withPrefixSpeakers(segments: TranscriptSegment[]): TranscriptSegment[] {
+  const prefixes = segments.map((s) => (s.speaker ? null : s.text.match(SPEAKER_PREFIX)));
+  const counts = new Map<string, number>();
+  for (const prefix of prefixes) {
+    const name = prefix?.[1]?.trim();
+    if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  const labelled = prefixes.filter((prefix) => (counts.get(prefix?.[1]?.trim() ?? "") ?? 0) > 1).length;
+  if (labelled === 0 || labelled < segments.length * SPEAKER_PREFIX_MIN_SHARE) return segments;
+
+  return segments.map((segment, i) => {
+    const [, name = "", text = ""] = prefixes[i] ?? [];
+    return name.trim() ? { ...segment, speaker: name.trim(), text: text.trim() } : segment;
+  });
+}
+
+/**
+ * Timed cues of a WebVTT or SRT document. Header, NOTE and STYLE blocks and
+ * cue numbers are skipped. Empty when the text has no cues.
+ */
+export function parseCues(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (const block of text.replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue;
+    const [, start = "", end = ""] = lines[timingIndex]!.match(CUE_TIMING) ?? [];
+    const segment = cueSegment(parseCueTime(start), parseCueTime(end), lines.slice(timingIndex + 1));
+    if (segment) segments.push(segment);
+  }
+  return withPrefixSpeakers(segments);
+}
+
+/** VTT/SRT when the text starts like one, otherwise plain text */
+export function detectTranscriptFormat(text: string): Exclude<TranscriptFormat, "docx"> {
+  const head = text.replace(/^\uFEFF/, "").trimStart();
+  if (head.startsWith("WEBVTT")) return "vtt";
+  if (/^\d+\s*\n/.test(head) && CUE_TIMING.test(head.split("\n")[1] ?? "")) return "srt";
+  return "text";
+}
+
+/**
+ * Transcript from pasted or file text. VTT/SRT input is detected when no
+ * format is given.
+ */
+export function parseTranscriptText(text: string, name = "", format?: TranscriptFormat): ImportedTranscript {
+  const detected = format ?? detectTranscriptFormat(text);
+  if (detected === "vtt" || detected === "srt") {
+    const segments = parseCues(text);
+    if (segments.length > 0) {
+      const joined = segments.map((s) => s.text).join("\n");
+      return { name, format: detected, text: transcriptWithSpeakers(joined, segments), segments };
+    }
+  }
+  return { name, format: detected, text: text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").trim() };
+}
+
+/** Paragraph text of a Word document's main part */
+function docxText(xml: string): string {
+  const paragraphs = xml.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) ?? [];
+  return paragraphs
+    .map((p) => {
+      const runs = p.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\/>/g);
+      return decodeEntities([...runs].map((m) => m[1] ?? (m[0] === "<w:tab/>" ? "\t" : "\n")).join(""));
+    })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Read and parse a transcript file.
+ * @throws TranscriptImportError
+ */
+export async function readTranscriptFile(file: File): Promise<ImportedTranscript> {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  if (!(TRANSCRIPT_EXTENSIONS as readonly string[]).includes(extension)) {
+    throw new TranscriptImportError("format", file.name);
+  }
+  if (file.size > TRANSCRIPT_MAX_BYTES) throw new TranscriptImportError("size", file.name);
+
+  let transcript: ImportedTranscript;
+  try {
+    if (extension === "docx") {
+      const xml = await readZipEntry(await file.arrayBuffer(), "word/document.xml");
+      if (!xml) throw new TranscriptImportError("read", file.name);
+      transcript = { name: file.name, format: "docx", text: docxText(new TextDecoder().decode(xml)) };
+    } else {
+      // A .txt file may still hold VTT/SRT cues
+      const format = extension === "txt" ? undefined : (extension as TranscriptFormat);
+      transcript = parseTranscriptText(await file.text(), file.name, format);
+    }
+  } catch (e) {
+    throw e instanceof TranscriptImportError ? e : new TranscriptImportError("read", file.name);
+  }
+
+  if (!transcript.text) throw new TranscriptImportError("empty", file.name);
+  return transcript;
+}
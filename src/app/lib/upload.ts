@@ -0,0 +1,177 @@
+/**
+ * Upload transport for large request bodies (meeting audio).
+ *
+ * fetch() cannot report upload progress, so this uses XMLHttpRequest: byte
+ * progress while the body is sent, then a "processing" phase while the server
+ * works on it. Requests can be cancelled with an AbortSignal, and network
+ * failures and 5xx responses are retried with exponential backoff.
+ */
+
+export type UploadPhase = "uploading" | "processing" | "retrying";
+
+export interface UploadProgress {
+  phase: UploadPhase;
+  /** Bytes sent and total bytes; total is 0 when unknown */
+  loaded: number;
+  total: number;
+  /** 1-based attempt number */
+  attempt: number;
+  maxAttempts: number;
+}
+
+export interface UploadOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Total attempts including the first (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each further one (default 1000) */
+  retryDelayMs?: number;
+}
+
+/**
+ * A failed upload request. `status` is 0 when no response was received.
+ */
+export class UploadError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "UploadError";
+    this.status = status;
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function abortError(): DOMException {
+  return new DOMException("The request was cancelled", "AbortError");
+}
+
+function isRetryable(error: unknown): boolean {
+  return error instanceof UploadError && (error.status === 0 || error.status >= 500);
+}
+
+/**
+ * Parse an error response body: the API's `{ detail }` or the raw text.
+ */
+function errorDetail(text: string, status: number): string {
+  try {
+    const json = JSON.parse(text) as { detail?: unknown };
+    if (typeof json.detail === "string") return json.detail;
+  } catch {
+    // Not JSON
+  }
+  return text || `Request failed with status ${status}`;
+}
+
+/**
+ * Wait `ms` milliseconds; rejects with an AbortError if `signal` aborts first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function sendOnce<T>(
+  url: string,
+  body: XMLHttpRequestBodyInit,
+  options: UploadOptions,
+  attempt: number,
+  maxAttempts: number
+): Promise<T> {
+  const { headers, signal, onProgress } = options;
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.open("POST", url);
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    xhr.upload.onprogress = (e) => {
+      onProgress?.({
+        phase: "uploading",
+        loaded: e.loaded,
+        total: e.lengthComputable ? e.total : 0,
+        attempt,
+        maxAttempts,
+      });
+    };
+    // Body fully sent; the server is transcribing and analyzing
+    xhr.upload.onload = (e) => {
+      onProgress?.({ phase: "processing", loaded: e.loaded, total: e.loaded, attempt, maxAttempts });
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new UploadError(errorDetail(xhr.responseText, xhr.status), xhr.status));
+        return;
+      }
+      try {
+        resolve(JSON.parse(xhr.responseText) as T);
+      } catch {
+        reject(new UploadError("Invalid response from server", xhr.status));
+      }
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new UploadError("Network error — check your connection", 0));
+    };
+    xhr.ontimeout = xhr.onerror;
+    xhr.onabort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(body);
+  });
+}
+
+/**
+ * POST `body` to `url` and parse the JSON response.
+ * Rejects with UploadError on failure, or an AbortError DOMException when cancelled.
+ */
+export async function uploadWithProgress<T>(
+  url: string,
+  body: XMLHttpRequestBodyInit,
+  options: UploadOptions = {}
+): Promise<T> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendOnce<T>(url, body, options, attempt, maxAttempts);
+    } catch (e) {
+      if (attempt >= maxAttempts || !isRetryable(e)) throw e;
+      options.onProgress?.({ phase: "retrying", loaded: 0, total: 0, attempt: attempt + 1, maxAttempts });
+      await sleep(retryDelayMs * 2 ** (attempt - 1), options.signal);
+    }
+  }
+}
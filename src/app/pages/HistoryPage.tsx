@@ -1,14 +1,25 @@
 /**
- * History: Premium list with GSAP animations, view/delete with modal.
+ * History: Premium list with GSAP animations, search/filter/sort,
+ * view (with stored audio playback and meeting details)/export/delete with modal.
  */
 
-import { useCallback, useState, useRef, useEffect } from "react";
+import { useCallback, useMemo, useState, useRef, useEffect } from "react";
 import gsap from "gsap";
 import { useHistory } from "../hooks/useHistory";
+import { useStoredAudio } from "../hooks/useStoredAudio";
+import { useAudioPlayer } from "../hooks/useAudioPlayer";
 import { useI18n } from "../hooks/useI18n";
 import { Modal } from "../components/Modal";
 import { Tabs, type TabItem } from "../components/Tabs";
 import { SummaryCard } from "../components/SummaryCard";
+import { TranscriptView } from "../components/TranscriptView";
+import { SpeakerMapping } from "../components/SpeakerMapping";
+import { DecisionsEditor, EditToolbar, SummaryEditor, TranscriptEditor } from "../components/AnalysisEditor";
+import { Toast } from "../components/Toast";
+import { ExportDropdown } from "../components/ExportDropdown";
+import { HistoryFilterBar } from "../components/HistoryFilterBar";
+import { Highlight } from "../components/Highlight";
+import { MeetingDetails } from "../components/MeetingDetails";
 import { 
   HiClock, 
   HiTrash, 
@@ -19,9 +30,35 @@ import {
   HiUsers,
   HiCheckCircle,
   HiFolder,
+  HiExclamationCircle,
+  HiArrowPath,
+  HiMagnifyingGlass,
+  HiSpeakerWave,
+  HiPencilSquare,
+  HiCalendarDays,
+  HiUserGroup,
 } from "react-icons/hi2";
-import type { HistoryItem } from "../lib/storage";
-import { PDF_EXPORT_ENABLED } from "../lib/constants";
+import type { ExportFormat, HistoryItem } from "../lib/storage";
+import { EXPORT_FORMATS, exportBadge, exportDocument } from "../lib/exporters";
+import { documentFromHistory } from "../lib/meetingDocument";
+import { allTags, formatMeetingDay, meetingTitle, type MeetingMetadata } from "../lib/meetingMetadata";
+import type { SubtitleTrack } from "../lib/subtitles";
+import { getSearchParam } from "../lib/router";
+import {
+  DEFAULT_HISTORY_FILTERS,
+  filterHistory,
+  firstMatch,
+  hasActiveFilters,
+  matchSnippet,
+  searchTerms,
+  type HistoryFilters,
+  type SearchField,
+} from "../lib/historySearch";
+import type { I18nStrings } from "../lib/i18n";
+import type { StoredAudio } from "../lib/audioStore";
+import { formatBytes } from "../lib/format";
+import { speakerLabels, speakerName, type SpeakerMap } from "../lib/speakers";
+import { draftFromHistory, finalizeDraft, type AnalysisDraft } from "../lib/analysisDraft";
 
 const FLAGS: Record<string, string> = {
   en: "🇺🇸",
@@ -31,6 +68,29 @@ const FLAGS: Record<string, string> = {
   ar: "🇸🇦",
 };
 
+const EXPORT_BADGE_CLASSES: Record<ExportFormat, string> = {
+  word: "bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400",
+  pdf: "bg-red-50 text-red-600 dark:bg-red-900/30 dark:text-red-400",
+  markdown: "bg-emerald-50 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400",
+  text: "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-300",
+  json: "bg-amber-50 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400",
+  srt: "bg-violet-50 text-violet-600 dark:bg-violet-900/30 dark:text-violet-400",
+  vtt: "bg-cyan-50 text-cyan-600 dark:bg-cyan-900/30 dark:text-cyan-400",
+};
+
+/**
+ * Label for the field a search matched in. Title, file name, tags and summary
+ * matches are already visible on the card.
+ */
+const MATCH_FIELD_LABELS: Partial<Record<SearchField, keyof I18nStrings>> = {
+  participants: "participants",
+  attendees: "meetingAttendeesLabel",
+  decisions: "decisions",
+  actionItems: "actionItems",
+  transcriptClean: "cleanTranscript",
+  transcriptRaw: "originalTranscript",
+};
+
 function formatDate(iso: string): string {
   try {
     return new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" }).format(new Date(iso));
@@ -39,10 +99,127 @@ function formatDate(iso: string): string {
   }
 }
 
-function HistoryDetail({ item, onClose }: { item: HistoryItem; onClose: () => void }) {
+type ToastState = { type: "success" | "error"; message: string };
+
+/**
+ * Player for the meeting's stored source audio.
+ */
+function HistoryAudio({
+  audio,
+  url,
+  audioProps,
+  onRemove,
+  onToast,
+}: {
+  audio: StoredAudio;
+  url: string;
+  audioProps: ReturnType<typeof useAudioPlayer>["audioProps"];
+  onRemove: () => Promise<void>;
+  onToast: (toast: ToastState) => void;
+}) {
+  const { t } = useI18n();
+  const [confirming, setConfirming] = useState(false);
+
+  const handleDelete = useCallback(async () => {
+    setConfirming(false);
+    try {
+      await onRemove();
+      onToast({ type: "success", message: t.audioDeleted });
+    } catch (e) {
+      onToast({ type: "error", message: e instanceof Error ? e.message : t.error });
+    }
+  }, [onRemove, onToast, t.audioDeleted, t.error]);
+
+  return (
+    <div className="rounded-2xl border border-zinc-200/60 bg-white/80 px-6 py-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <p className="flex min-w-0 items-center gap-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          <HiSpeakerWave className="h-5 w-5 shrink-0 text-indigo-500" />
+          {t.originalAudio}
+          <span className="truncate font-normal text-zinc-500 dark:text-zinc-400">
+            {audio.fileName} · {formatBytes(audio.size)}
+          </span>
+        </p>
+        <button
+          type="button"
+          onClick={() => setConfirming(true)}
+          className="inline-flex cursor-pointer items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-sm font-medium text-zinc-500 transition-colors hover:bg-red-50 hover:text-red-600 dark:text-zinc-400 dark:hover:bg-red-950/30 dark:hover:text-red-400"
+        >
+          <HiTrash className="h-4 w-4" />
+          {t.deleteAudio}
+        </button>
+      </div>
+      <audio {...audioProps} controls preload="metadata" src={url} className="w-full" />
+
+      {confirming && (
+        <Modal
+          title={t.deleteAudioConfirm}
+          cancelLabel={t.cancel}
+          confirmLabel={t.confirm}
+          confirmDanger
+          onCancel={() => setConfirming(false)}
+          onConfirm={handleDelete}
+        >
+          {t.deleteAudioConfirmBody}
+        </Modal>
+      )}
+    </div>
+  );
+}
+
+function HistoryDetail({
+  item,
+  onClose,
+  onExport,
+  exportLoading,
+  terms,
+  onToast,
+  onSpeakerMapChange,
+  onSaveEdits,
+  onSaveMetadata,
+}: {
+  item: HistoryItem;
+  onClose: () => void;
+  onExport: (format: ExportFormat, track?: SubtitleTrack) => void;
+  exportLoading: boolean;
+  /** Active search terms, highlighted in every tab */
+  terms: string[];
+  onToast: (toast: ToastState) => void;
+  onSpeakerMapChange: (map: SpeakerMap) => void;
+  /** Persist edited content; resolves false if saving failed */
+  onSaveEdits: (draft: AnalysisDraft) => Promise<boolean>;
+  onSaveMetadata: (metadata: MeetingMetadata) => Promise<boolean>;
+}) {
   const { t } = useI18n();
   const [activeTab, setActiveTab] = useState("summary");
   const detailRef = useRef<HTMLDivElement>(null);
+  const storedAudio = useStoredAudio(item.id);
+  const { audioProps, currentTime, seek } = useAudioPlayer();
+  const onSeek = storedAudio.url ? seek : undefined;
+  const [draft, setDraft] = useState<AnalysisDraft | null>(null);
+  const [savingEdits, setSavingEdits] = useState(false);
+
+  const updateDraft = useCallback((patch: Partial<AnalysisDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  }, []);
+
+  const handleSaveEdits = useCallback(async () => {
+    if (!draft) return;
+    setSavingEdits(true);
+    const ok = await onSaveEdits(finalizeDraft(draft, draftFromHistory(item)));
+    setSavingEdits(false);
+    if (ok) setDraft(null);
+  }, [draft, item, onSaveEdits]);
+
+  const speakerMapping = (
+    <SpeakerMapping
+      labels={speakerLabels(item.segmentsRaw, item.segmentsClean)}
+      participants={item.participants}
+      map={item.speakerMap ?? {}}
+      onChange={onSpeakerMapChange}
+      t={t}
+    />
+  );
 
   useEffect(() => {
     const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
@@ -63,32 +240,93 @@ function HistoryDetail({ item, onClose }: { item: HistoryItem; onClose: () => vo
       id: "summary",
       label: t.summary,
       icon: HiSparkles,
-      panel: <SummaryCard summary={item.summary || t.none} t={t} bare />,
+      panel: draft ? (
+        <SummaryEditor value={draft.summary} onChange={(summary) => updateDraft({ summary })} />
+      ) : (
+        <SummaryCard summary={item.summary || t.none} t={t} bare highlightTerms={terms} />
+      ),
     },
     {
       id: "clean",
       label: t.cleanTranscript,
       icon: HiDocumentText,
       panel: (
-        <div className="max-h-[400px] overflow-auto whitespace-pre-wrap rounded-xl border border-zinc-200/60 bg-zinc-50/50 px-5 py-4 text-base leading-relaxed text-zinc-700 dark:border-zinc-700/60 dark:bg-zinc-800/50 dark:text-zinc-300">
-          {item.transcriptClean || t.none}
-        </div>
+        <>
+          {speakerMapping}
+          {draft ? (
+            <TranscriptEditor
+              text={draft.transcriptClean}
+              segments={draft.segmentsClean}
+              speakerMap={item.speakerMap}
+              onChange={({ text, segments }) =>
+                updateDraft(segments ? { segmentsClean: segments } : { transcriptClean: text ?? "" })
+              }
+            />
+          ) : (
+            <TranscriptView
+              text={item.transcriptClean}
+              segments={item.segmentsClean}
+              speakerMap={item.speakerMap}
+              onSeek={onSeek}
+              currentTime={currentTime}
+              emptyLabel={t.none}
+              seekLabel={t.playFrom}
+              highlightTerms={terms}
+              markers={item.markers}
+              bookmarkLabel={t.markerBookmark}
+              className="max-h-[400px]"
+            />
+          )}
+        </>
       ),
     },
     {
       id: "original",
       label: t.originalTranscript,
       panel: (
-        <pre className="max-h-[400px] overflow-auto whitespace-pre-wrap rounded-xl border border-zinc-200/60 bg-zinc-100/80 px-5 py-4 text-sm text-zinc-600 dark:border-zinc-700/60 dark:bg-zinc-800/80 dark:text-zinc-400">
-          {item.transcriptRaw || t.none}
-        </pre>
+        <>
+          {speakerMapping}
+          {draft ? (
+            <TranscriptEditor
+              text={draft.transcriptRaw}
+              segments={draft.segmentsRaw}
+              speakerMap={item.speakerMap}
+              onChange={({ text, segments }) =>
+                updateDraft(segments ? { segmentsRaw: segments } : { transcriptRaw: text ?? "" })
+              }
+            />
+          ) : (
+            <TranscriptView
+              text={item.transcriptRaw}
+              segments={item.segmentsRaw}
+              speakerMap={item.speakerMap}
+              onSeek={onSeek}
+              currentTime={currentTime}
+              emptyLabel={t.none}
+              seekLabel={t.playFrom}
+              highlightTerms={terms}
+              markers={item.markers}
+              bookmarkLabel={t.markerBookmark}
+              variant="raw"
+              className="max-h-[400px]"
+            />
+          )}
+        </>
       ),
     },
     {
       id: "decisions",
       label: t.decisionsActions,
       icon: HiClipboardDocumentList,
-      panel: (
+      panel: draft ? (
+        <DecisionsEditor
+          draft={draft}
+          participants={item.participants}
+          speakerMap={item.speakerMap}
+          onChange={updateDraft}
+          t={t}
+        />
+      ) : (
         <div className="space-y-6">
           {!item.participants?.length && !item.decisions?.length && !item.actionItems?.length ? (
             <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -108,7 +346,7 @@ function HistoryDetail({ item, onClose }: { item: HistoryItem; onClose: () => vo
                   <div className="flex flex-wrap gap-2">
                     {item.participants.map((p, i) => (
                       <span key={i} className="rounded-lg bg-white px-3 py-1.5 text-sm font-medium text-zinc-700 shadow-sm dark:bg-zinc-800 dark:text-zinc-300">
-                        {p}
+                        <Highlight text={p} terms={terms} />
                       </span>
                     ))}
                   </div>
@@ -127,7 +365,9 @@ function HistoryDetail({ item, onClose }: { item: HistoryItem; onClose: () => vo
                         <span className="mt-0.5 flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-emerald-100 text-emerald-600 dark:bg-emerald-900/50 dark:text-emerald-400">
                           <HiCheckCircle className="h-3 w-3" />
                         </span>
-                        <span className="text-sm text-zinc-700 dark:text-zinc-300">{d}</span>
+                        <span className="text-sm text-zinc-700 dark:text-zinc-300">
+                          <Highlight text={d} terms={terms} />
+                        </span>
                       </li>
                     ))}
                   </ul>
@@ -147,11 +387,13 @@ function HistoryDetail({ item, onClose }: { item: HistoryItem; onClose: () => vo
                           {i + 1}
                         </span>
                         <div className="flex-1">
-                          <p className="text-sm text-zinc-700 dark:text-zinc-300">{a.description}</p>
+                          <p className="text-sm text-zinc-700 dark:text-zinc-300">
+                            <Highlight text={a.description} terms={terms} />
+                          </p>
                           {a.owner ? (
                             <span className="mt-1 inline-flex items-center gap-1 rounded-md bg-violet-100 px-2 py-0.5 text-xs font-medium text-violet-700 dark:bg-violet-900/50 dark:text-violet-300">
                               <HiUsers className="h-3 w-3" />
-                              {a.owner}
+                              <Highlight text={speakerName(a.owner, item.speakerMap)} terms={terms} />
                             </span>
                           ) : (
                             <span className="mt-1 inline-flex text-xs text-zinc-500 dark:text-zinc-400">
@@ -174,29 +416,73 @@ function HistoryDetail({ item, onClose }: { item: HistoryItem; onClose: () => vo
   return (
     <div ref={detailRef} className="space-y-4">
       {/* Header */}
-      <div className="flex items-center justify-between rounded-2xl border border-zinc-200/60 bg-white/80 px-6 py-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+      <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-zinc-200/60 bg-white/80 px-6 py-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
         <div className="flex items-center gap-4">
           <span className="flex h-12 w-12 items-center justify-center rounded-xl bg-linear-to-br from-indigo-500 to-violet-600 text-white">
             <HiDocumentText className="h-6 w-6" />
           </span>
           <div>
-            <p className="font-semibold text-zinc-900 dark:text-zinc-100">{item.fileName}</p>
-            <p className="flex items-center gap-2 text-sm text-zinc-500 dark:text-zinc-400">
+            <p className="font-semibold text-zinc-900 dark:text-zinc-100">
+              <Highlight text={meetingTitle(item)} terms={terms} />
+            </p>
+            <p className="flex flex-wrap items-center gap-2 text-sm text-zinc-500 dark:text-zinc-400">
+              {item.title && (
+                <span className="truncate">
+                  <Highlight text={item.fileName} terms={terms} /> ·
+                </span>
+              )}
               <HiClock className="h-4 w-4" />
               {formatDate(item.createdAt)}
               <span className="text-base">{FLAGS[item.outputLanguage] || ""}</span>
             </p>
           </div>
         </div>
-        <button
-          type="button"
-          onClick={onClose}
-          className="cursor-pointer rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:bg-zinc-700"
-        >
-          {t.backToList}
-        </button>
+        <div className="flex shrink-0 items-center gap-2">
+          <div className="relative">
+            <ExportDropdown
+              disabled={exportLoading || !!draft}
+              t={t}
+              onExport={onExport}
+            />
+            {exportLoading && (
+              <span className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-xl bg-white/60 dark:bg-zinc-900/60" aria-hidden="true">
+                <span className="h-5 w-5 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />
+              </span>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="cursor-pointer rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:bg-zinc-700"
+          >
+            {t.backToList}
+          </button>
+        </div>
       </div>
 
+      <MeetingDetails item={item} onSave={onSaveMetadata} disabled={!!draft} terms={terms} t={t} />
+
+      {storedAudio.audio && storedAudio.url && (
+        <HistoryAudio
+          audio={storedAudio.audio}
+          url={storedAudio.url}
+          audioProps={audioProps}
+          onRemove={storedAudio.remove}
+          onToast={onToast}
+        />
+      )}
+
+      <EditToolbar
+        editing={!!draft}
+        edited={!!item.editedAt}
+        saving={savingEdits}
+        disabled={exportLoading}
+        onEdit={() => setDraft(draftFromHistory(item))}
+        onSave={handleSaveEdits}
+        onCancel={() => setDraft(null)}
+        t={t}
+      />
+
       {/* Tabs */}
       <Tabs tabs={tabs} activeId={activeTab} onChange={setActiveTab} aria-label="History detail tabs" />
     </div>
@@ -206,13 +492,18 @@ function HistoryDetail({ item, onClose }: { item: HistoryItem; onClose: () => vo
 function HistoryCard({ 
   item, 
   index,
+  terms,
   onView, 
-  onDelete 
+  onDelete,
+  onTag,
 }: { 
   item: HistoryItem; 
   index: number;
+  terms: string[];
   onView: () => void; 
   onDelete: () => void;
+  /** Filter the list by a tag */
+  onTag: (tag: string) => void;
 }) {
   const { t } = useI18n();
   const cardRef = useRef<HTMLLIElement>(null);
@@ -237,6 +528,11 @@ function HistoryCard({
     return text.slice(0, max) + "…";
   };
 
+  // Show the matching excerpt when the match is outside the title
+  const match = firstMatch(item, terms);
+  const summaryText = match?.field === "summary" ? matchSnippet(item.summary, terms, 75) : preview(item.summary, 150);
+  const matchLabel = match ? MATCH_FIELD_LABELS[match.field] : undefined;
+
   return (
     <li
       ref={cardRef}
@@ -253,30 +549,83 @@ function HistoryCard({
           </span>
 
           <div className="min-w-0 flex-1">
-            <p className="truncate font-semibold text-zinc-800 dark:text-zinc-200">{item.fileName}</p>
+            <p className="truncate font-semibold text-zinc-800 dark:text-zinc-200">
+              <Highlight text={meetingTitle(item)} terms={terms} />
+            </p>
+            {item.title && (
+              <p className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+                <Highlight text={item.fileName} terms={terms} />
+              </p>
+            )}
             <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-zinc-500 dark:text-zinc-400">
-              <span className="flex items-center gap-1">
-                <HiClock className="h-4 w-4" />
-                {formatDate(item.createdAt)}
-              </span>
+              {item.meetingDate ? (
+                <span className="flex items-center gap-1">
+                  <HiCalendarDays className="h-4 w-4" />
+                  {formatMeetingDay(item.meetingDate)}
+                </span>
+              ) : (
+                <span className="flex items-center gap-1">
+                  <HiClock className="h-4 w-4" />
+                  {formatDate(item.createdAt)}
+                </span>
+              )}
               <span className="flex items-center gap-1 rounded-md bg-zinc-100 px-2 py-0.5 text-xs font-medium dark:bg-zinc-800">
                 <span>{FLAGS[item.outputLanguage] || ""}</span>
                 {item.outputLanguage.toUpperCase()}
               </span>
-              {item.exports.word && (
-                <span className="rounded-md bg-blue-50 px-2 py-0.5 text-xs font-medium text-blue-600 dark:bg-blue-900/30 dark:text-blue-400">
-                  DOCX
+              {EXPORT_FORMATS.filter((format) => item.exports[format]).map((format) => (
+                <span
+                  key={format}
+                  className={`rounded-md px-2 py-0.5 text-xs font-medium ${EXPORT_BADGE_CLASSES[format]}`}
+                >
+                  {exportBadge(format)}
+                </span>
+              ))}
+              {item.editedAt && (
+                <span className="inline-flex items-center gap-1 rounded-md bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                  <HiPencilSquare className="h-3 w-3" />
+                  {t.edited}
                 </span>
               )}
-              {PDF_EXPORT_ENABLED && item.exports.pdf && (
-                <span className="rounded-md bg-red-50 px-2 py-0.5 text-xs font-medium text-red-600 dark:bg-red-900/30 dark:text-red-400">
-                  PDF
+              {item.source === "transcript" && (
+                <span className="inline-flex items-center gap-1 rounded-md bg-emerald-50 px-2 py-0.5 text-xs font-medium text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300">
+                  <HiDocumentText className="h-3 w-3" />
+                  {t.fromTranscript}
                 </span>
               )}
             </div>
+            {((item.tags?.length ?? 0) > 0 || (item.attendees?.length ?? 0) > 0) && (
+              <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+                {item.tags?.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => onTag(tag)}
+                    className="cursor-pointer rounded-md bg-indigo-50 px-2 py-0.5 font-medium text-indigo-700 transition-colors hover:bg-indigo-100 dark:bg-indigo-900/40 dark:text-indigo-300 dark:hover:bg-indigo-900/60"
+                    title={t.filterByTag.replace("{tag}", tag)}
+                  >
+                    #<Highlight text={tag} terms={terms} />
+                  </button>
+                ))}
+                {(item.attendees?.length ?? 0) > 0 && (
+                  <span className="inline-flex min-w-0 items-center gap-1 text-zinc-500 dark:text-zinc-400">
+                    <HiUserGroup className="h-3.5 w-3.5 shrink-0" />
+                    <span className="truncate">{item.attendees?.join(", ")}</span>
+                  </span>
+                )}
+              </div>
+            )}
             <p className="mt-2 line-clamp-2 text-sm leading-relaxed text-zinc-600 dark:text-zinc-400">
-              {preview(item.summary, 150)}
+              <Highlight text={summaryText} terms={terms} />
             </p>
+            {match && matchLabel && (
+              <p className="mt-2 line-clamp-2 rounded-lg bg-zinc-50 px-3 py-2 text-sm text-zinc-600 dark:bg-zinc-800/60 dark:text-zinc-400">
+                <span className="font-medium text-zinc-700 dark:text-zinc-300">
+                  {t.matchIn} {t[matchLabel]}:
+                </span>{" "}
+                <Highlight text={matchSnippet(match.text, terms)} terms={terms} />
+              </p>
+            )}
           </div>
         </div>
 
@@ -337,18 +686,144 @@ function EmptyHistory({ t }: { t: ReturnType<typeof useI18n>["t"] }) {
   );
 }
 
+function NoMatches({ t }: { t: ReturnType<typeof useI18n>["t"] }) {
+  return (
+    <div className="flex flex-col items-center justify-center rounded-2xl border border-zinc-200/60 bg-white/80 py-16 text-center shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+      <span className="flex h-16 w-16 items-center justify-center rounded-2xl bg-zinc-100 text-zinc-300 dark:bg-zinc-800 dark:text-zinc-600">
+        <HiMagnifyingGlass className="h-8 w-8" />
+      </span>
+      <p className="mt-4 text-base font-medium text-zinc-600 dark:text-zinc-400">{t.historyNoMatches}</p>
+    </div>
+  );
+}
+
+function HistoryLoading({ t }: { t: ReturnType<typeof useI18n>["t"] }) {
+  return (
+    <div className="flex flex-col items-center justify-center rounded-2xl border border-zinc-200/60 bg-white/80 py-20 text-center shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+      <span className="h-8 w-8 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />
+      <p className="mt-4 text-sm text-zinc-500 dark:text-zinc-400">{t.historyLoading}</p>
+    </div>
+  );
+}
+
+function HistoryLoadError({
+  detail,
+  onRetry,
+  t,
+}: {
+  detail: string;
+  onRetry: () => void;
+  t: ReturnType<typeof useI18n>["t"];
+}) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-900/50 dark:bg-red-950/30">
+      <div className="flex items-center gap-3">
+        <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-red-100 text-red-600 dark:bg-red-900/50 dark:text-red-400">
+          <HiExclamationCircle className="h-5 w-5" />
+        </span>
+        <div>
+          <p className="text-sm font-medium text-red-700 dark:text-red-300">{t.historyLoadError}</p>
+          {detail && <p className="text-xs text-red-600/80 dark:text-red-400/80">{detail}</p>}
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={onRetry}
+        className="inline-flex cursor-pointer items-center gap-2 rounded-xl border border-red-200 bg-white px-4 py-2 text-sm font-medium text-red-700 transition-colors hover:bg-red-100 dark:border-red-900/50 dark:bg-red-950/40 dark:text-red-300 dark:hover:bg-red-900/40"
+      >
+        <HiArrowPath className="h-4 w-4" />
+        {t.retry}
+      </button>
+    </div>
+  );
+}
+
 export function HistoryPage() {
   const { t } = useI18n();
-  const { items, remove } = useHistory();
-  const [viewing, setViewing] = useState<HistoryItem | null>(null);
+  const { items, loading, loadError, remove, refresh, markExport, update } = useHistory();
+  // Tasks link to a meeting with ?meeting=<id>
+  const [viewingId, setViewingId] = useState<string | null>(() => getSearchParam("meeting"));
   const [deleting, setDeleting] = useState<HistoryItem | null>(null);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const [exportLoading, setExportLoading] = useState(false);
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
 
-  const handleDelete = useCallback(() => {
-    if (deleting) {
-      remove(deleting.id);
-      setDeleting(null);
-    }
-  }, [deleting, remove]);
+  const terms = useMemo(() => searchTerms(filters.query), [filters.query]);
+  const visible = useMemo(() => filterHistory(items, filters), [items, filters]);
+  const tags = useMemo(() => allTags(items), [items]);
+
+  // Look the item up on every render so export badges stay current
+  const viewing = viewingId ? items.find((e) => e.id === viewingId) ?? null : null;
+
+  const handleExport = useCallback(
+    async (format: ExportFormat, track?: SubtitleTrack) => {
+      if (!viewing) return;
+      setExportLoading(true);
+      setToast({ type: "success", message: t.exportingDocument });
+      try {
+        await exportDocument(documentFromHistory(viewing), format, track);
+        setToast({ type: "success", message: t.downloadStarted });
+        markExport(viewing.id, format);
+      } catch (e) {
+        setToast({ type: "error", message: e instanceof Error ? e.message : t.error });
+      } finally {
+        setExportLoading(false);
+      }
+    },
+    [viewing, markExport, t.exportingDocument, t.downloadStarted, t.error]
+  );
+
+  const handleSaveEdits = useCallback(
+    async (draft: AnalysisDraft) => {
+      if (!viewing) return false;
+      const result = await update(viewing.id, { ...draft, editedAt: new Date().toISOString() });
+      setToast(
+        result === "saved"
+          ? { type: "success", message: t.editsSaved }
+          : { type: "error", message: result === "unsupported" ? t.meetingEditsUnsupported : t.editsSaveError }
+      );
+      return result === "saved";
+    },
+    [viewing, update, t.editsSaved, t.editsSaveError, t.meetingEditsUnsupported]
+  );
+
+  const handleSaveMetadata = useCallback(
+    async (metadata: MeetingMetadata) => {
+      if (!viewing) return false;
+      const result = await update(viewing.id, metadata);
+      setToast(
+        result === "saved"
+          ? { type: "success", message: t.meetingDetailsSaved }
+          : { type: "error", message: result === "unsupported" ? t.meetingEditsUnsupported : t.meetingDetailsSaveError }
+      );
+      return result === "saved";
+    },
+    [viewing, update, t.meetingDetailsSaved, t.meetingDetailsSaveError, t.meetingEditsUnsupported]
+  );
+
+  const handleSpeakerMap = useCallback(
+    async (speakerMap: SpeakerMap) => {
+      if (!viewing) return;
+      const result = await update(viewing.id, { speakerMap });
+      if (result !== "saved") {
+        setToast({ type: "error", message: result === "unsupported" ? t.meetingEditsUnsupported : t.speakersSaveError });
+      }
+    },
+    [viewing, update, t.speakersSaveError, t.meetingEditsUnsupported]
+  );
+
+  const handleClose = useCallback(() => {
+    setViewingId(null);
+    if (getSearchParam("meeting")) window.history.replaceState(null, "", "/app/history");
+  }, []);
+
+  const handleDelete = useCallback(async () => {
+    if (!deleting) return;
+    const id = deleting.id;
+    setDeleting(null);
+    const ok = await remove(id);
+    if (!ok) setToast({ type: "error", message: t.historyDeleteError });
+  }, [deleting, remove, t.historyDeleteError]);
 
   return (
     <div className="space-y-6">
@@ -365,24 +840,52 @@ export function HistoryPage() {
         </div>
       </div>
 
+      {loadError !== null && <HistoryLoadError detail={loadError} onRetry={refresh} t={t} />}
+
       {viewing ? (
-        <HistoryDetail item={viewing} onClose={() => setViewing(null)} />
+        <HistoryDetail
+          item={viewing}
+          onClose={handleClose}
+          onExport={handleExport}
+          exportLoading={exportLoading}
+          terms={terms}
+          onToast={setToast}
+          onSpeakerMapChange={handleSpeakerMap}
+          onSaveEdits={handleSaveEdits}
+          onSaveMetadata={handleSaveMetadata}
+        />
       ) : (
         <>
-          {items.length === 0 ? (
-            <EmptyHistory t={t} />
+          {loading && items.length === 0 ? (
+            <HistoryLoading t={t} />
+          ) : items.length === 0 ? (
+            loadError === null && <EmptyHistory t={t} />
           ) : (
-            <ul className="space-y-4">
-              {items.map((item, index) => (
-                <HistoryCard
-                  key={item.id}
-                  item={item}
-                  index={index}
-                  onView={() => setViewing(item)}
-                  onDelete={() => setDeleting(item)}
-                />
-              ))}
-            </ul>
+            <>
+              <HistoryFilterBar filters={filters} onChange={setFilters} tags={tags} t={t} />
+              {hasActiveFilters(filters) && (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  {t.historyShowing.replace("{shown}", String(visible.length)).replace("{total}", String(items.length))}
+                </p>
+              )}
+              {visible.length === 0 ? (
+                <NoMatches t={t} />
+              ) : (
+                <ul className="space-y-4">
+                  {visible.map((item, index) => (
+                    <HistoryCard
+                      key={item.id}
+                      item={item}
+                      index={index}
+                      terms={terms}
+                      onView={() => setViewingId(item.id)}
+                      onDelete={() => setDeleting(item)}
+                      onTag={(tag) => setFilters((prev) => ({ ...prev, tag }))}
+                    />
+                  ))}
+                </ul>
+              )}
+            </>
           )}
         </>
       )}
@@ -400,6 +903,11 @@ export function HistoryPage() {
           {t.deleteConfirmBody}
         </Modal>
       )}
+
+      {/* Toast */}
+      {toast && (
+        <Toast type={toast.type} message={toast.message} onDismiss={() => setToast(null)} />
+      )}
     </div>
   );
 }
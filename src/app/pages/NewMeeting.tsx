@@ -4,19 +4,70 @@
  * Includes usage limit checking and registration prompts.
  */
 
-import { useCallback, useState, useRef, useEffect } from "react";
+import { type ReactNode, useCallback, useState, useRef, useEffect } from "react";
 import gsap from "gsap";
-import { analyzeMeeting, exportPdf, exportWord, type ApiResult } from "../lib/api";
+import {
+  EMPTY_PARTIAL_ANALYSIS,
+  analyzeTranscript,
+  applyStreamEvent,
+  cancelMeetingJob,
+  isTransientError,
+  partialToResult,
+  processMeeting,
+  type ApiResult,
+  type MeetingJob,
+  type PartialAnalysis,
+} from "../lib/api";
+import { isAbortError, type UploadProgress } from "../lib/upload";
+import { formatBytes } from "../lib/format";
+import { exportDocument } from "../lib/exporters";
+import { documentFromResult } from "../lib/meetingDocument";
+import { metadataFromHistory, type MeetingMetadata } from "../lib/meetingMetadata";
 import { OUTPUT_LANGUAGES } from "../lib/constants";
-import { getOutputLanguage, setOutputLanguage } from "../lib/storage";
+import {
+  addPendingJob,
+  getKeepAudio,
+  getOutputLanguage,
+  removePendingJob,
+  setOutputLanguage,
+  type ExportFormat,
+  type HistoryItem,
+  type PendingJob,
+} from "../lib/storage";
+import type { RecordingMarker } from "../lib/markers";
+import type { ImportedTranscript } from "../lib/transcriptImport";
+import type { SubtitleTrack } from "../lib/subtitles";
+import { probeDuration } from "../lib/audioValidation";
+import { markersAfterEdit } from "../lib/audioEdit";
+import { StorageFullError } from "../lib/db";
+import { saveAudio } from "../lib/audioStore";
 import { useHistory } from "../hooks/useHistory";
+import { usePendingJobs } from "../hooks/usePendingJobs";
+import { useAnalysisQueue } from "../hooks/useAnalysisQueue";
 import { useI18n } from "../hooks/useI18n";
 import { useAuthContext } from "../context/AuthContext";
 import { SummaryCard } from "../components/SummaryCard";
 import { ExportDropdown } from "../components/ExportDropdown";
 import { UploadZone } from "../components/UploadZone";
+import { AnalysisQueue } from "../components/AnalysisQueue";
+import { AudioTrimEditor } from "../components/AudioTrimEditor";
+import { RecordingRecovery } from "../components/RecordingRecovery";
 import { AudioRecorder } from "../components/AudioRecorder";
+import { TranscriptInput } from "../components/TranscriptInput";
+import { MeetingDetails } from "../components/MeetingDetails";
 import { Tabs, type TabItem } from "../components/Tabs";
+import { TranscriptView } from "../components/TranscriptView";
+import { SpeakerMapping } from "../components/SpeakerMapping";
+import { speakerLabels, speakerName, type SpeakerMap } from "../lib/speakers";
+import { DecisionsEditor, EditToolbar, SummaryEditor, TranscriptEditor } from "../components/AnalysisEditor";
+import {
+  applyDraftToResult,
+  draftFromResult,
+  finalizeDraft,
+  type AnalysisDraft,
+} from "../lib/analysisDraft";
+import { useAudioPlayer } from "../hooks/useAudioPlayer";
+import { useNavigate } from "../lib/router";
 import { Toast } from "../components/Toast";
 import { AuthModal } from "../components/AuthModal";
 import {
@@ -32,10 +83,59 @@ import {
   HiMicrophone,
   HiCloudArrowUp,
   HiMusicalNote,
+  HiScissors,
+  HiSpeakerWave,
+  HiXMark,
 } from "react-icons/hi2";
 
-// Animated loading component
-function AnalyzingLoader({ message, hint }: { message: string; hint: string }) {
+/**
+ * History entry for an analysis result.
+ */
+function historyItemFromResult(
+  data: ApiResult,
+  fileName: string,
+  outputLanguage: string,
+  createdAt: string,
+  extras: Pick<HistoryItem, "markers" | "source" | "duration"> = {}
+): Omit<HistoryItem, "id"> {
+  return {
+    createdAt,
+    fileName,
+    outputLanguage,
+    summary: data.analysis.summary,
+    // Use raw_transcript from analysis if available, fall back to top-level transcript
+    transcriptRaw: data.analysis.raw_transcript || data.transcript,
+    transcriptClean: data.analysis.translated_transcript,
+    participants: data.analysis.participants ?? [],
+    decisions: data.analysis.decisions ?? [],
+    actionItems: (data.analysis.action_items ?? []).map((a) => ({
+      description: a.description,
+      owner: a.owner ?? null,
+    })),
+    exports: { word: false, pdf: false },
+    segmentsRaw: data.analysis.raw_segments ?? data.segments,
+    segmentsClean: data.analysis.translated_segments,
+    markers: extras.markers?.length ? extras.markers : undefined,
+    source: extras.source,
+    duration: extras.duration,
+  };
+}
+
+// Animated loading component; shows a progress bar while uploading
+function AnalyzingLoader({
+  message,
+  hint,
+  progress,
+  onCancel,
+  cancelLabel,
+}: {
+  message: string;
+  hint: string;
+  /** Upload fraction 0–1, or null when not uploading */
+  progress?: number | null;
+  onCancel?: () => void;
+  cancelLabel?: string;
+}) {
   const dotsRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -79,12 +179,139 @@ function AnalyzingLoader({ message, hint }: { message: string; hint: string }) {
         <div className="dot h-2 w-2 rounded-full bg-indigo-500" />
       </div>
 
-      <p className="text-lg font-medium text-zinc-700 dark:text-zinc-300">{message}</p>
+      <p className="text-lg font-medium text-zinc-700 dark:text-zinc-300" aria-live="polite">{message}</p>
+      {progress != null && (
+        <div
+          className="mt-4 h-2 w-full max-w-sm overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-800"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(progress * 100)}
+        >
+          <div
+            className="h-full rounded-full bg-linear-to-r from-indigo-500 to-violet-500 transition-[width] duration-300"
+            style={{ width: `${Math.round(progress * 100)}%` }}
+          />
+        </div>
+      )}
       <p className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">{hint}</p>
+      {onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="mt-6 inline-flex cursor-pointer items-center gap-2 rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:border-red-300 hover:bg-red-50 hover:text-red-600 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:border-red-800 dark:hover:bg-red-950/30 dark:hover:text-red-400"
+        >
+          <HiXMark className="h-4 w-4" />
+          {cancelLabel}
+        </button>
+      )}
     </div>
   );
 }
 
+// Fades streamed content in when it first appears
+function PopIn({ children }: { children: ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    if (prefersReducedMotion) return;
+
+    const el = ref.current;
+    if (el) {
+      gsap.fromTo(el, { opacity: 0, y: 8 }, { opacity: 1, y: 0, duration: 0.4, ease: "power2.out" });
+    }
+  }, []);
+
+  return <div ref={ref}>{children}</div>;
+}
+
+// Placeholder for a section the stream hasn't produced yet
+function StreamPending({ label }: { label: string }) {
+  return (
+    <div className="flex items-center gap-3 rounded-xl border border-dashed border-zinc-300 px-5 py-8 text-sm text-zinc-500 dark:border-zinc-700 dark:text-zinc-400">
+      <span className="h-4 w-4 shrink-0 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />
+      {label}
+    </div>
+  );
+}
+
+// Progress line shown above the tabs while results stream in
+function StreamingStatus({
+  message,
+  progress,
+  onCancel,
+  cancelLabel,
+}: {
+  message: string;
+  progress: number | null;
+  onCancel: () => void;
+  cancelLabel: string;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-4 rounded-2xl border border-zinc-200/60 bg-white/80 px-5 py-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+      <span className="h-5 w-5 shrink-0 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300" aria-live="polite">
+          {message}
+        </p>
+        {progress !== null && (
+          <div className="mt-2 h-1.5 w-full overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-800">
+            <div
+              className="h-full rounded-full bg-linear-to-r from-indigo-500 to-violet-500 transition-[width] duration-300"
+              style={{ width: `${Math.round(progress * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="inline-flex cursor-pointer items-center gap-2 rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:border-red-300 hover:bg-red-50 hover:text-red-600 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:border-red-800 dark:hover:bg-red-950/30 dark:hover:text-red-400"
+      >
+        <HiXMark className="h-4 w-4" />
+        {cancelLabel}
+      </button>
+    </div>
+  );
+}
+
+// Jobs from an earlier visit that are still being analyzed on the server
+function ResumingJobsBanner({
+  jobs,
+  onCancel,
+  t,
+}: {
+  jobs: PendingJob[];
+  onCancel: (jobId: string) => void;
+  t: ReturnType<typeof useI18n>["t"];
+}) {
+  return (
+    <ul className="space-y-2">
+      {jobs.map((job) => (
+        <li
+          key={job.jobId}
+          className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-indigo-200 bg-indigo-50/80 p-4 dark:border-indigo-900/50 dark:bg-indigo-950/30"
+        >
+          <div className="flex min-w-0 items-center gap-3">
+            <span className="h-5 w-5 shrink-0 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />
+            <p className="truncate text-sm font-medium text-indigo-700 dark:text-indigo-300">
+              {t.jobResuming.replace("{file}", job.fileName)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onCancel(job.jobId)}
+            className="cursor-pointer rounded-lg px-3 py-1.5 text-sm font-medium text-indigo-700 transition-colors hover:bg-indigo-100 dark:text-indigo-300 dark:hover:bg-indigo-900/40"
+          >
+            {t.cancelAnalysis}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 // Usage limit banner - uses i18n strings
 function UsageLimitBanner({ 
   isRegistered, 
@@ -257,21 +484,22 @@ function ActionButtons({
   canExport,
   exportLoading,
   onAnalyze,
-  onExportWord,
-  onExportPdf,
+  onExport,
   t,
   used,
   limit,
+  analyzeLabel,
 }: {
   canAnalyze: boolean;
   canExport: boolean;
   exportLoading: boolean;
   onAnalyze: () => void;
-  onExportWord: () => void;
-  onExportPdf: () => void;
+  onExport: (format: ExportFormat, track?: SubtitleTrack) => void;
   t: ReturnType<typeof useI18n>["t"];
   used: number;
   limit: number;
+  /** Replaces the default label, e.g. when analyzing a queue */
+  analyzeLabel?: string;
 }) {
   const buttonsRef = useRef<HTMLDivElement>(null);
 
@@ -299,15 +527,14 @@ function ActionButtons({
           className="group inline-flex cursor-pointer items-center gap-2 rounded-xl bg-linear-to-r from-indigo-500 to-violet-600 px-6 py-3 text-base font-semibold text-white shadow-lg shadow-indigo-500/25 transition-all duration-300 hover:shadow-xl hover:shadow-indigo-500/30 hover:-translate-y-0.5 focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-offset-2 disabled:opacity-60 disabled:cursor-not-allowed disabled:hover:translate-y-0 disabled:hover:shadow-lg dark:focus:ring-offset-zinc-950"
         >
           <HiSparkles className="h-5 w-5 transition-transform duration-300 group-hover:scale-110" />
-          {t.analyze}
+          {analyzeLabel ?? t.analyze}
         </button>
         
         <div className="export-dropdown relative">
           <ExportDropdown
             disabled={!canExport || exportLoading}
             t={t}
-            onExportWord={onExportWord}
-            onExportPdf={onExportPdf}
+            onExport={onExport}
           />
           {exportLoading && (
             <span className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-xl bg-white/60 dark:bg-zinc-900/60" aria-hidden="true">
@@ -361,15 +588,17 @@ function DecisionsPanel({
     const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
     if (prefersReducedMotion) return;
 
-    const items = listRef.current?.querySelectorAll("[data-list-item]");
-    if (items) {
+    // Only items not shown yet, so streamed decisions pop in one by one
+    const items = listRef.current?.querySelectorAll<HTMLElement>("[data-list-item]:not([data-shown])");
+    if (items?.length) {
+      items.forEach((item) => (item.dataset.shown = ""));
       gsap.fromTo(
         items,
         { opacity: 0, x: -10 },
         { opacity: 1, x: 0, duration: 0.3, ease: "power2.out", stagger: 0.05 }
       );
     }
-  }, []);
+  }, [participants.length, decisions.length, actionItems.length]);
 
   if (!participants?.length && !decisions?.length && !actionItems?.length) {
     return <EmptyDecisions t={t} />;
@@ -460,20 +689,25 @@ function DecisionsPanel({
   );
 }
 
-// Input mode toggle (Upload vs Record)
+type InputMode = "upload" | "record" | "transcript";
+
+/** No search highlighting in the result view */
+const NO_TERMS: string[] = [];
+
+// Input mode toggle (Upload, Record or Transcript)
 function InputModeToggle({
   mode,
   onChange,
   disabled,
   t,
 }: {
-  mode: "upload" | "record";
-  onChange: (mode: "upload" | "record") => void;
+  mode: InputMode;
+  onChange: (mode: InputMode) => void;
   disabled?: boolean;
   t: ReturnType<typeof useI18n>["t"];
 }) {
   return (
-    <div className="mb-4 flex items-center justify-center gap-2">
+    <div className="mb-4 flex flex-wrap items-center justify-center gap-2">
       <button
         type="button"
         onClick={() => onChange("upload")}
@@ -487,9 +721,6 @@ function InputModeToggle({
         <HiCloudArrowUp className="h-4 w-4" />
         {t.uploadLabel}
       </button>
-      <span className="text-sm text-zinc-400 dark:text-zinc-500">
-        {mode === "upload" ? t.orRecordMeeting : t.orUploadFile}
-      </span>
       <button
         type="button"
         onClick={() => onChange("record")}
@@ -503,27 +734,74 @@ function InputModeToggle({
         <HiMicrophone className="h-4 w-4" />
         {t.recordMeeting}
       </button>
+      <button
+        type="button"
+        onClick={() => onChange("transcript")}
+        disabled={disabled}
+        className={`inline-flex items-center gap-2 cursor-pointer rounded-xl px-4 py-2.5 text-sm font-medium transition-all duration-200 ${
+          mode === "transcript"
+            ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300"
+            : "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-400 dark:hover:bg-zinc-700"
+        } ${disabled ? "opacity-50 cursor-not-allowed" : ""}`}
+      >
+        <HiDocumentText className="h-4 w-4" />
+        {t.transcriptMode}
+      </button>
     </div>
   );
 }
 
 export function NewMeeting() {
   const { t } = useI18n();
-  const { add, markExport } = useHistory();
+  const { items: historyItems, add, markExport, update } = useHistory();
   const { checkLimit, incrementUsage, usage, isAuthenticated } = useAuthContext();
+  const navigate = useNavigate();
   
   // Destructure usage for display
   const used = usage.usedToday;
   const limit = usage.dailyLimit;
   
   const [file, setFile] = useState<File | null>(null);
-  const [inputMode, setInputMode] = useState<"upload" | "record">("upload");
+  /** Bookmarks and notes of a recording; only apply while that file is selected */
+  const [recordingMarkers, setRecordingMarkers] = useState<{ file: File; markers: RecordingMarker[] } | null>(null);
+  const markers = recordingMarkers?.file === file ? recordingMarkers.markers : undefined;
+  /** Length the recorder measured; WebM recordings often can't be probed for it */
+  const [recordedDuration, setRecordedDuration] = useState<{ file: File; seconds: number } | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>("upload");
+  /** Pasted or imported transcript, analyzed instead of audio in transcript mode */
+  const [transcriptInput, setTranscriptInput] = useState<ImportedTranscript | null>(null);
+  /** Waveform editor open for the selected file */
+  const [trimming, setTrimming] = useState(false);
   const [outputLang, setOutputLangState] = useState<string>(() => getOutputLanguage());
   const [loading, setLoading] = useState(false);
+  const [upload, setUpload] = useState<UploadProgress | null>(null);
+  const [job, setJob] = useState<MeetingJob | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  /** Server job of the running analysis, once the upload was accepted */
+  const jobIdRef = useRef<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [status, setStatus] = useState<string>("");
   const [result, setResult] = useState<ApiResult | null>(null);
+  /** Content streamed so far while the analysis runs */
+  const [partial, setPartial] = useState<PartialAnalysis | null>(null);
+  const [resultMeta, setResultMeta] = useState<{
+    fileName: string;
+    language: string;
+    createdAt: string;
+    markers?: RecordingMarker[];
+    /** Audio length in seconds, for subtitle timing */
+    duration?: number;
+  } | null>(null);
   const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+  // True until the shown result has its history entry; edits wait for it
+  const [historySaving, setHistorySaving] = useState(false);
+  const historySaveRunRef = useRef(0);
+  // History entry of the result, for its meeting details
+  const savedItem = currentHistoryId ? historyItems.find((e) => e.id === currentHistoryId) : undefined;
+  const [speakerMap, setSpeakerMap] = useState<SpeakerMap>({});
+  /** Non-null while the results are in edit mode */
+  const [draft, setDraft] = useState<AnalysisDraft | null>(null);
+  const [editedAt, setEditedAt] = useState<string | null>(null);
   const [toast, setToast] = useState<{ type: "success" | "error"; message: string } | null>(null);
   const [exportLoading, setExportLoading] = useState(false);
   const [activeTab, setActiveTab] = useState("summary");
@@ -531,18 +809,87 @@ export function NewMeeting() {
   const [showAuthModal, setShowAuthModal] = useState(false);
   
   const resultsRef = useRef<HTMLDivElement>(null);
+  const { audioProps, currentTime, seek } = useAudioPlayer();
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+
+  // Object URL for playing the selected file next to the transcript
+  useEffect(() => {
+    if (!file) {
+      setAudioUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Close the editor when the file is removed
+  useEffect(() => {
+    if (!file) setTrimming(false);
+  }, [file]);
+
+  // Stop waiting when leaving the page; a server job stays pending and resumes on return
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const analyzed = !!result;
-  const canAnalyze = !!file && !loading && !limitReached;
-  const canExport = !!file && !loading && analyzed && !exportLoading;
+  const canAnalyze =
+    inputMode === "transcript"
+      ? !!transcriptInput?.text && !loading && !limitReached
+      : !!file && !loading && !limitReached && !trimming;
+  const canExport = !loading && analyzed && !exportLoading && !draft;
 
   const handleOutputLang = useCallback((value: string) => {
     setOutputLangState(value);
     setOutputLanguage(value as "en" | "he" | "fr" | "es" | "ar");
   }, []);
 
+  // Saved separately from the analysis so a full store doesn't hide the result
+  const saveToHistory = useCallback(
+    async (item: Omit<HistoryItem, "id">, audio: File | null, meetingId?: string): Promise<HistoryItem | null> => {
+      let entry: HistoryItem;
+      try {
+        entry = await add(meetingId ? { ...item, id: meetingId } : item);
+      } catch (e) {
+        setToast({ type: "error", message: e instanceof StorageFullError ? t.storageFull : t.historySaveError });
+        return null;
+      }
+
+      // Audio is keyed by the history id (the server meeting id when signed in)
+      if (!audio || !getKeepAudio()) return entry;
+      try {
+        await saveAudio(entry.id, audio);
+      } catch (e) {
+        setToast({ type: "error", message: e instanceof StorageFullError ? t.audioStorageFull : t.audioSaveError });
+      }
+      return entry;
+    },
+    [add, t.storageFull, t.historySaveError, t.audioStorageFull, t.audioSaveError]
+  );
+
+  /** Link the shown result to its history entry once the save settles. */
+  const trackHistorySave = useCallback((saving: Promise<HistoryItem | null>) => {
+    const run = ++historySaveRunRef.current;
+    setHistorySaving(true);
+    setCurrentHistoryId(null);
+    saving.then((entry) => {
+      if (run !== historySaveRunRef.current) return;
+      setHistorySaving(false);
+      if (entry) setCurrentHistoryId(entry.id);
+    });
+  }, []);
+
+  /** The shown result is gone; a save still in flight no longer applies to it. */
+  const forgetHistoryEntry = useCallback(() => {
+    historySaveRunRef.current++;
+    setHistorySaving(false);
+    setCurrentHistoryId(null);
+  }, []);
+
   const handleAnalyze = useCallback(async () => {
-    if (!file) return;
+    const pasted = inputMode === "transcript" ? transcriptInput : null;
+    const audio = pasted ? null : file;
+    if (!pasted && !audio) return;
+    const fileName = pasted ? pasted.name || t.pastedTranscript : audio?.name ?? "";
 
     // Check usage limit before proceeding
     const limitStatus = checkLimit();
@@ -553,62 +900,285 @@ export function NewMeeting() {
 
     setError(null);
     setResult(null);
+    setSpeakerMap({});
+    setDraft(null);
+    setEditedAt(null);
     setLimitReached(null);
     setLoading(true);
+    setUpload(null);
+    setJob(null);
+    setPartial(null);
     setStatus(t.loading);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    jobIdRef.current = null;
+    const submittedAt = new Date().toISOString();
+    let streamed = false;
+    // Read alongside the upload; subtitles without segments are spread over it
+    const durationProbe = audio ? probeDuration(audio) : Promise.resolve(null);
     
     try {
-      const data = await analyzeMeeting(file, outputLang);
+      let data: ApiResult;
+      if (pasted) {
+        data = await analyzeTranscript(pasted.text, outputLang, {
+          signal: controller.signal,
+          segments: pasted.segments,
+        });
+      } else if (audio) {
+        data = await processMeeting(audio, outputLang, {
+          markers,
+          signal: controller.signal,
+          onProgress: setUpload,
+          // Remember the job so a reload or closed tab can pick up its result
+          onJobCreated: (created) => {
+            jobIdRef.current = created.job_id;
+            addPendingJob({
+              jobId: created.job_id,
+              fileName: audio.name,
+              outputLanguage: outputLang,
+              createdAt: submittedAt,
+              markers,
+            });
+            setJob(created);
+          },
+          onJobStatus: setJob,
+          onEvent: (event) => {
+            if (event.type === "status" || event.type === "result" || event.type === "error") return;
+            streamed = true;
+            setPartial((prev) => applyStreamEvent(prev ?? EMPTY_PARTIAL_ANALYSIS, event));
+          },
+        });
+      } else {
+        return;
+      }
+      if (jobIdRef.current) removePendingJob(jobIdRef.current);
       
       // Usage increments only on successful analysis; export does not count toward limit.
       incrementUsage();
       
+      const createdAt = new Date().toISOString();
+      const itemMarkers = pasted ? undefined : markers;
+      const duration = (await durationProbe) ?? undefined;
       setResult(data);
+      setResultMeta({ fileName, language: outputLang, createdAt, markers: itemMarkers, duration });
       setStatus(t.done);
-      // Use raw_transcript from analysis if available, fall back to top-level transcript
-      const rawTranscriptForHistory = data.analysis.raw_transcript || data.transcript;
-      const entry = add({
-        createdAt: new Date().toISOString(),
-        fileName: file.name,
-        outputLanguage: outputLang,
-        summary: data.analysis.summary,
-        transcriptRaw: rawTranscriptForHistory,
-        transcriptClean: data.analysis.translated_transcript,
-        participants: data.analysis.participants ?? [],
-        decisions: data.analysis.decisions ?? [],
-        actionItems: (data.analysis.action_items ?? []).map((a) => ({
-          description: a.description,
-          owner: a.owner ?? null,
-        })),
-        exports: { word: false, pdf: false },
+      const item = historyItemFromResult(data, fileName, outputLang, createdAt, {
+        markers: itemMarkers,
+        source: pasted ? "transcript" : undefined,
+        duration,
       });
-      setCurrentHistoryId(entry.id);
-
-      // Scroll to results
-      setTimeout(() => {
-        const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
-        resultsRef.current?.scrollIntoView({ 
-          behavior: prefersReducedMotion ? "auto" : "smooth",
-          block: "start"
-        });
-      }, 100);
+      trackHistorySave(saveToHistory(item, audio, data.meeting_id));
+
+      // Scroll to results, unless they were already on screen while streaming
+      if (!streamed) {
+        setTimeout(() => {
+          const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+          resultsRef.current?.scrollIntoView({ 
+            behavior: prefersReducedMotion ? "auto" : "smooth",
+            block: "start"
+          });
+        }, 100);
+      }
     } catch (e) {
-      setError(e instanceof Error ? e.message : t.error);
+      if (isAbortError(e)) {
+        setToast({ type: "success", message: t.analysisCancelled });
+      } else {
+        // A job the server still has is kept pending and resumed on the next visit
+        if (jobIdRef.current && !isTransientError(e)) removePendingJob(jobIdRef.current);
+        setError(e instanceof Error ? e.message : t.error);
+      }
       setStatus("");
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setUpload(null);
+      setJob(null);
+      setPartial(null);
       setLoading(false);
     }
-  }, [file, outputLang, t.loading, t.done, t.error, add, checkLimit, incrementUsage]);
+  }, [
+    inputMode,
+    transcriptInput,
+    file,
+    markers,
+    outputLang,
+    t.loading,
+    t.done,
+    t.error,
+    t.analysisCancelled,
+    t.pastedTranscript,
+    saveToHistory,
+    trackHistorySave,
+    checkLimit,
+    incrementUsage,
+  ]);
+
+  const handleCancelAnalysis = useCallback(() => {
+    abortRef.current?.abort();
+    const jobId = jobIdRef.current;
+    if (jobId) {
+      jobIdRef.current = null;
+      removePendingJob(jobId);
+      cancelMeetingJob(jobId);
+    }
+  }, []);
+
+  // Results of jobs that finished while the page was closed
+  const handleResumedJob = useCallback(
+    (pending: PendingJob, data: ApiResult) => {
+      incrementUsage();
+      const item = historyItemFromResult(
+        data,
+        pending.fileName,
+        pending.outputLanguage,
+        pending.createdAt,
+        { markers: pending.markers }
+      );
+      // Show it unless the user has since started on another meeting
+      const show = !file && !result && !loading;
+      const saving = saveToHistory(item, null, data.meeting_id);
+      if (show) {
+        trackHistorySave(saving);
+        setResult(data);
+        setResultMeta({
+          fileName: pending.fileName,
+          language: pending.outputLanguage,
+          createdAt: pending.createdAt,
+          markers: pending.markers,
+        });
+        setSpeakerMap({});
+        setDraft(null);
+        setEditedAt(null);
+      }
+      setToast({
+        type: "success",
+        message: (show ? t.jobResumed : t.jobResumedSaved).replace("{file}", pending.fileName),
+      });
+    },
+    [file, result, loading, incrementUsage, saveToHistory, trackHistorySave, t.jobResumed, t.jobResumedSaved]
+  );
+
+  const handleResumedJobFailed = useCallback(
+    (pending: PendingJob, e: unknown, kept: boolean) => {
+      const message = kept
+        ? t.jobResumeLater.replace("{file}", pending.fileName)
+        : t.jobFailed
+            .replace("{file}", pending.fileName)
+            .replace("{reason}", e instanceof Error ? e.message : t.error);
+      setToast({ type: "error", message });
+    },
+    [t.jobResumeLater, t.jobFailed, t.error]
+  );
+
+  const { jobs: resumingJobs, cancel: cancelResumingJob } = usePendingJobs({
+    onComplete: handleResumedJob,
+    onFail: handleResumedJobFailed,
+  });
+
+  // Several files are analyzed one by one, each saved as its own history entry
+  const queue = useAnalysisQueue({
+    checkLimit,
+    onComplete: async (queued, language, data) => {
+      incrementUsage();
+      const duration = (await probeDuration(queued)) ?? undefined;
+      const item = historyItemFromResult(data, queued.name, language, new Date().toISOString(), { duration });
+      const entry = await saveToHistory(item, queued, data.meeting_id);
+      return entry?.id ?? null;
+    },
+    onLimitReached: (limitStatus) =>
+      setLimitReached({ isRegistered: limitStatus.isRegistered, limit: limitStatus.limit }),
+  });
+  const queueMode = queue.items.length > 0;
+  const queuePending = queue.items.filter((item) => item.status === "waiting" || item.status === "blocked").length;
+
+  // A recording saved before a crash or reload replaces the current selection
+  const handleRecoveredRecording = useCallback(
+    (recovered: File) => {
+      if (queueMode) {
+        queue.add([recovered]);
+        return;
+      }
+      setFile(recovered);
+      setResult(null);
+      setError(null);
+      forgetHistoryEntry();
+    },
+    [queueMode, queue.add, forgetHistoryEntry]
+  );
+
+  // A file picked but not yet analyzed joins the queue with the new ones
+  const handleSelectMany = useCallback(
+    (files: File[]) => {
+      queue.add(file && !result ? [file, ...files] : files);
+      setFile(null);
+      setResult(null);
+      setError(null);
+      forgetHistoryEntry();
+    },
+    [queue.add, file, result, forgetHistoryEntry]
+  );
+
+  // Loader text for the current upload or job phase
+  const loaderState = (() => {
+    if (job) {
+      if (job.status === "queued") return { message: t.jobQueued, hint: t.jobSafeToLeave, progress: null };
+      const progress = job.progress ?? null;
+      return {
+        message:
+          progress !== null
+            ? t.jobProcessingPercent.replace("{percent}", String(Math.round(progress * 100)))
+            : t.processingOnServer,
+        hint: t.jobSafeToLeave,
+        progress,
+      };
+    }
+    if (!upload) return { message: status || t.loading, hint: t.processingAudio, progress: null };
+    switch (upload.phase) {
+      case "uploading": {
+        const fraction = upload.total > 0 ? upload.loaded / upload.total : 0;
+        return {
+          message: t.uploadingPercent.replace("{percent}", String(Math.round(fraction * 100))),
+          hint:
+            upload.total > 0
+              ? t.uploadingHint.replace("{loaded}", formatBytes(upload.loaded)).replace("{total}", formatBytes(upload.total))
+              : t.processingAudio,
+          progress: fraction,
+        };
+      }
+      case "processing":
+        return { message: t.processingOnServer, hint: t.processingOnServerHint, progress: null };
+      case "retrying":
+        return {
+          message: t.retryingUpload
+            .replace("{attempt}", String(upload.attempt))
+            .replace("{max}", String(upload.maxAttempts)),
+          hint: t.processingAudio,
+          progress: null,
+        };
+    }
+  })();
 
   const runExport = useCallback(
-    async (format: "word" | "pdf") => {
-      if (!file) return;
+    async (format: ExportFormat, track?: SubtitleTrack) => {
+      if (!result || !resultMeta) return;
       setError(null);
       setExportLoading(true);
       setToast({ type: "success", message: t.exportingDocument });
-      const fn = format === "word" ? exportWord : exportPdf;
       try {
-        await fn(file, outputLang);
+        // Built in the browser from the analysis we already have - no re-upload
+        await exportDocument(
+          documentFromResult(
+            result,
+            resultMeta.fileName,
+            resultMeta.language,
+            resultMeta.createdAt,
+            speakerMap,
+            resultMeta.markers,
+            resultMeta.duration,
+            savedItem && metadataFromHistory(savedItem)
+          ),
+          format,
+          track
+        );
         setToast({ type: "success", message: t.downloadStarted });
         if (currentHistoryId) markExport(currentHistoryId, format);
       } catch (e) {
@@ -617,7 +1187,72 @@ export function NewMeeting() {
         setExportLoading(false);
       }
     },
-    [file, outputLang, currentHistoryId, t.exportingDocument, t.downloadStarted, t.error, markExport]
+    [
+      result,
+      resultMeta,
+      speakerMap,
+      currentHistoryId,
+      savedItem,
+      t.exportingDocument,
+      t.downloadStarted,
+      t.error,
+      markExport,
+    ]
+  );
+
+  const handleSaveEdits = useCallback(async () => {
+    if (!result || !draft) return;
+    const final = finalizeDraft(draft, draftFromResult(result));
+    const at = new Date().toISOString();
+    setResult(applyDraftToResult(result, final));
+    setEditedAt(at);
+    setDraft(null);
+    if (!currentHistoryId) {
+      setToast({ type: "error", message: t.notInHistory });
+      return;
+    }
+    const saved = await update(currentHistoryId, { ...final, editedAt: at });
+    setToast(
+      saved === "saved"
+        ? { type: "success", message: t.editsSaved }
+        : { type: "error", message: saved === "unsupported" ? t.meetingEditsUnsupported : t.editsSaveError }
+    );
+  }, [result, draft, currentHistoryId, update, t.editsSaved, t.editsSaveError, t.meetingEditsUnsupported, t.notInHistory]);
+
+  const updateDraft = useCallback((patch: Partial<AnalysisDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  }, []);
+
+  const handleSpeakerMap = useCallback(
+    async (next: SpeakerMap) => {
+      setSpeakerMap(next);
+      if (!currentHistoryId) {
+        setToast({ type: "error", message: t.notInHistory });
+        return;
+      }
+      const saved = await update(currentHistoryId, { speakerMap: next });
+      if (saved !== "saved") {
+        setToast({ type: "error", message: saved === "unsupported" ? t.meetingEditsUnsupported : t.speakersSaveError });
+      }
+    },
+    [currentHistoryId, update, t.speakersSaveError, t.meetingEditsUnsupported, t.notInHistory]
+  );
+
+  const handleSaveMetadata = useCallback(
+    async (metadata: MeetingMetadata) => {
+      if (!currentHistoryId) {
+        setToast({ type: "error", message: t.notInHistory });
+        return false;
+      }
+      const saved = await update(currentHistoryId, metadata);
+      setToast(
+        saved === "saved"
+          ? { type: "success", message: t.meetingDetailsSaved }
+          : { type: "error", message: saved === "unsupported" ? t.meetingEditsUnsupported : t.meetingDetailsSaveError }
+      );
+      return saved === "saved";
+    },
+    [currentHistoryId, update, t.meetingDetailsSaved, t.meetingDetailsSaveError, t.meetingEditsUnsupported, t.notInHistory]
   );
 
   // Clear limit message when user registers
@@ -627,17 +1262,42 @@ export function NewMeeting() {
     }
   }, [isAuthenticated, limitReached]);
 
+  // Streamed content stands in for the result until the analysis completes
+  const streaming = !result && !!partial;
+  const view = result ?? (partial ? partialToResult(partial) : null);
+
   // Get raw transcript - prefer analysis.raw_transcript if available, fall back to top-level transcript
-  const rawTranscript = result?.analysis?.raw_transcript || result?.transcript || "";
-  const isCondensed = result?.analysis?.is_condensed ?? false;
+  const rawTranscript = view?.analysis?.raw_transcript || view?.transcript || "";
+  const isCondensed = view?.analysis?.is_condensed ?? false;
+  const rawSegments = view?.analysis?.raw_segments ?? view?.segments;
+  const cleanSegments = view?.analysis?.translated_segments;
+  const onSeek = audioUrl ? seek : undefined;
+  const speakerMapping = result ? (
+    <SpeakerMapping
+      labels={speakerLabels(rawSegments, cleanSegments)}
+      participants={result.analysis.participants ?? []}
+      map={speakerMap}
+      onChange={handleSpeakerMap}
+      disabled={historySaving}
+      t={t}
+    />
+  ) : null;
 
-  const tabs: TabItem[] = result
+  const tabs: TabItem[] = view
     ? [
         {
           id: "summary",
           label: t.summary,
           icon: HiSparkles,
-          panel: <SummaryCard summary={result.analysis.summary || t.none} t={t} bare />,
+          panel: draft ? (
+            <SummaryEditor value={draft.summary} onChange={(summary) => updateDraft({ summary })} />
+          ) : streaming && partial?.summary === undefined ? (
+            <StreamPending label={t.streamSummaryPending} />
+          ) : (
+            <PopIn>
+              <SummaryCard summary={view.analysis.summary || t.none} t={t} bare />
+            </PopIn>
+          ),
         },
         {
           id: "clean",
@@ -662,9 +1322,31 @@ export function NewMeeting() {
                   {t.condensedTranscriptNote}
                 </p>
               )}
-              <div className="max-h-[500px] space-y-3 overflow-auto whitespace-pre-wrap rounded-xl border border-zinc-200/60 bg-zinc-50/50 px-5 py-5 text-base leading-relaxed text-zinc-700 dark:border-zinc-700/60 dark:bg-zinc-800/50 dark:text-zinc-300">
-                {result.analysis.translated_transcript?.trim() || t.none}
-              </div>
+              {speakerMapping}
+              {draft ? (
+                <TranscriptEditor
+                  text={draft.transcriptClean}
+                  segments={draft.segmentsClean}
+                  speakerMap={speakerMap}
+                  onChange={({ text, segments }) =>
+                    updateDraft(segments ? { segmentsClean: segments } : { transcriptClean: text ?? "" })
+                  }
+                />
+              ) : streaming && !view.analysis.translated_transcript ? (
+                <StreamPending label={t.streamTranscriptPending} />
+              ) : (
+                <TranscriptView
+                  text={view.analysis.translated_transcript ?? ""}
+                  segments={cleanSegments}
+                  speakerMap={speakerMap}
+                  onSeek={onSeek}
+                  currentTime={currentTime}
+                  emptyLabel={t.none}
+                  seekLabel={t.playFrom}
+                  markers={resultMeta?.markers}
+                  bookmarkLabel={t.markerBookmark}
+                />
+              )}
             </div>
           ),
         },
@@ -681,12 +1363,33 @@ export function NewMeeting() {
                 {t.originalTranscript}
                 <span className="text-xs text-zinc-400 dark:text-zinc-500">— {t.rawTranscriptionNote}</span>
               </p>
-              <pre
-                className="max-h-[500px] overflow-auto whitespace-pre-wrap rounded-xl border border-zinc-200/60 bg-zinc-100/80 px-5 py-4 text-sm leading-relaxed text-zinc-600 dark:border-zinc-700/60 dark:bg-zinc-800/80 dark:text-zinc-400"
-                title={t.originalTranscriptTooltip}
-              >
-                {rawTranscript.trim() || t.none}
-              </pre>
+              {speakerMapping}
+              {draft ? (
+                <TranscriptEditor
+                  text={draft.transcriptRaw}
+                  segments={draft.segmentsRaw}
+                  speakerMap={speakerMap}
+                  onChange={({ text, segments }) =>
+                    updateDraft(segments ? { segmentsRaw: segments } : { transcriptRaw: text ?? "" })
+                  }
+                />
+              ) : streaming && !rawTranscript ? (
+                <StreamPending label={t.streamTranscriptPending} />
+              ) : (
+                <TranscriptView
+                  text={rawTranscript}
+                  segments={rawSegments}
+                  speakerMap={speakerMap}
+                  onSeek={onSeek}
+                  currentTime={currentTime}
+                  emptyLabel={t.none}
+                  seekLabel={t.playFrom}
+                  markers={resultMeta?.markers}
+                  bookmarkLabel={t.markerBookmark}
+                  variant="raw"
+                  title={t.originalTranscriptTooltip}
+                />
+              )}
             </div>
           ),
         },
@@ -694,13 +1397,26 @@ export function NewMeeting() {
           id: "decisions",
           label: t.decisionsActions,
           icon: HiClipboardDocumentList,
-          panel: (
+          panel: draft ? (
+            <DecisionsEditor
+              draft={draft}
+              participants={view.analysis.participants ?? []}
+              speakerMap={speakerMap}
+              onChange={updateDraft}
+              t={t}
+            />
+          ) : streaming &&
+            !view.analysis.participants.length &&
+            !view.analysis.decisions.length &&
+            !view.analysis.action_items.length ? (
+            <StreamPending label={t.streamDecisionsPending} />
+          ) : (
             <DecisionsPanel
-              participants={result.analysis.participants ?? []}
-              decisions={result.analysis.decisions ?? []}
-              actionItems={(result.analysis.action_items ?? []).map((a) => ({
+              participants={view.analysis.participants ?? []}
+              decisions={view.analysis.decisions ?? []}
+              actionItems={(view.analysis.action_items ?? []).map((a) => ({
                 description: a.description,
-                owner: a.owner ?? null,
+                owner: a.owner ? speakerName(a.owner, speakerMap) : null,
               }))}
               t={t}
             />
@@ -711,6 +1427,16 @@ export function NewMeeting() {
 
   return (
     <div className="space-y-8">
+      {resumingJobs.length > 0 && (
+        <ResumingJobsBanner jobs={resumingJobs} onCancel={cancelResumingJob} t={t} />
+      )}
+
+      <RecordingRecovery
+        onRecover={handleRecoveredRecording}
+        onError={(message) => setToast({ type: "error", message })}
+        t={t}
+      />
+
       {/* Usage limit banner */}
       {limitReached && (
         <UsageLimitBanner
@@ -734,19 +1460,20 @@ export function NewMeeting() {
         <InputModeToggle 
           mode={inputMode}
           onChange={setInputMode}
-          disabled={loading || !!file}
+          disabled={loading || !!file || !!transcriptInput || queueMode}
           t={t}
         />
         
         {/* Upload zone */}
         {inputMode === "upload" && (
           <UploadZone 
-            onSelect={setFile} 
+            onSelect={queueMode ? (f) => queue.add([f]) : setFile}
+            onSelectMany={handleSelectMany}
             onRemove={file ? () => {
               setFile(null);
               setResult(null);
               setError(null);
-              setCurrentHistoryId(null);
+              forgetHistoryEntry();
               setToast(null);
             } : undefined}
             disabled={loading} 
@@ -754,13 +1481,48 @@ export function NewMeeting() {
             selectedFile={file}
             removeFileLabel={t.removeFile}
             clickOrDragToReplaceLabel={t.clickOrDragToReplace}
+            t={t}
+          />
+        )}
+
+        {queueMode && (
+          <AnalysisQueue
+            items={queue.items}
+            limit={limit}
+            onRetry={queue.retry}
+            onCancel={queue.cancel}
+            onRemove={queue.remove}
+            onView={(id) => navigate(`/app/history?meeting=${encodeURIComponent(id)}`)}
+            onClearDone={queue.clearDone}
+            t={t}
           />
         )}
         
+        {/* Pasted or imported transcript */}
+        {inputMode === "transcript" && (
+          <TranscriptInput
+            value={transcriptInput}
+            onChange={(value) => {
+              setTranscriptInput(value);
+              if (value) return;
+              setResult(null);
+              setError(null);
+              forgetHistoryEntry();
+              setToast(null);
+            }}
+            disabled={loading}
+            t={t}
+          />
+        )}
+
         {/* Recording zone */}
         {inputMode === "record" && (
           <AudioRecorder
-            onRecordingComplete={setFile}
+            onRecordingComplete={(recorded, taken, seconds) => {
+              setFile(recorded);
+              setRecordedDuration({ file: recorded, seconds });
+              setRecordingMarkers(taken.length > 0 ? { file: recorded, markers: taken } : null);
+            }}
             onCancel={() => setFile(null)}
             disabled={loading}
             t={{
@@ -772,6 +1534,40 @@ export function NewMeeting() {
               useRecording: t.useRecording,
               recordingNotSupported: t.recordingNotSupported,
               microphonePermissionDenied: t.microphonePermissionDenied,
+              pauseRecording: t.pauseRecording,
+              resumeRecording: t.resumeRecording,
+              recordingPaused: t.recordingPaused,
+              microphoneLabel: t.microphoneLabel,
+              defaultMicrophone: t.defaultMicrophone,
+              microphoneUnavailable: t.microphoneUnavailable,
+              inputLevel: t.inputLevel,
+              noAudioDetected: t.noAudioDetected,
+              noSystemAudioDetected: t.noSystemAudioDetected,
+              recordingLimitWarning: t.recordingLimitWarning,
+              recordingLimitReached: t.recordingLimitReached,
+              recordingBackupFailed: t.recordingBackupFailed,
+              recordingSourceLabel: t.recordingSourceLabel,
+              recordingSourceMic: t.recordingSourceMic,
+              recordingSourceMix: t.recordingSourceMix,
+              systemAudioHint: t.systemAudioHint,
+              systemAudioUnsupported: t.systemAudioUnsupported,
+              systemAudioDenied: t.systemAudioDenied,
+              systemAudioMissing: t.systemAudioMissing,
+              systemAudioEnded: t.systemAudioEnded,
+              micVolume: t.micVolume,
+              systemVolume: t.systemVolume,
+              liveTranscriptToggle: t.liveTranscriptToggle,
+              liveTranscriptTitle: t.liveTranscriptTitle,
+              liveTranscriptListening: t.liveTranscriptListening,
+              liveTranscriptFinishing: t.liveTranscriptFinishing,
+              liveTranscriptUnavailable: t.liveTranscriptUnavailable,
+              liveTranscriptNote: t.liveTranscriptNote,
+              markMoment: t.markMoment,
+              notePlaceholder: t.notePlaceholder,
+              addNote: t.addNote,
+              markersTitle: t.markersTitle,
+              markerBookmark: t.markerBookmark,
+              removeMarker: t.removeMarker,
             }}
           />
         )}
@@ -790,7 +1586,7 @@ export function NewMeeting() {
               setFile(null);
               setResult(null);
               setError(null);
-              setCurrentHistoryId(null);
+              forgetHistoryEntry();
               setToast(null);
             }}
             className="inline-flex shrink-0 cursor-pointer items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-sm font-medium text-zinc-600 transition-colors hover:bg-red-100 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-400 dark:text-zinc-400 dark:hover:bg-red-900/30 dark:hover:text-red-400 dark:focus:ring-red-500"
@@ -804,6 +1600,33 @@ export function NewMeeting() {
         </div>
       )}
 
+      {/* Trim before analysis */}
+      {file && !analyzed && !loading && (
+        trimming ? (
+          <AudioTrimEditor
+            file={file}
+            duration={recordedDuration?.file === file ? recordedDuration.seconds : undefined}
+            onApply={(edited, edit) => {
+              // Markers follow the audio onto the trimmed timeline
+              if (markers) setRecordingMarkers({ file: edited, markers: markersAfterEdit(markers, edit) });
+              setFile(edited);
+              setTrimming(false);
+            }}
+            onCancel={() => setTrimming(false)}
+            t={t}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setTrimming(true)}
+            className="inline-flex cursor-pointer items-center gap-2 rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:border-indigo-700 dark:hover:bg-indigo-950/30 dark:hover:text-indigo-300"
+          >
+            <HiScissors className="h-4 w-4" />
+            {t.trimAudio}
+          </button>
+        )
+      )}
+
       {/* Step 2: Language Selection */}
       <section>
         <div className="mb-4">
@@ -815,7 +1638,7 @@ export function NewMeeting() {
         <OutputLanguageSelector 
           value={outputLang} 
           onChange={handleOutputLang} 
-          disabled={loading}
+          disabled={loading || queue.running}
         />
       </section>
 
@@ -829,19 +1652,32 @@ export function NewMeeting() {
         </div>
 
         {/* Loading State */}
-        {loading && !result ? (
+        {loading && streaming ? (
+          <StreamingStatus
+            message={loaderState.message}
+            progress={loaderState.progress}
+            onCancel={handleCancelAnalysis}
+            cancelLabel={t.cancelAnalysis}
+          />
+        ) : loading && !result ? (
           <div className="rounded-2xl border border-zinc-200/60 bg-white/80 shadow-lg backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
-            <AnalyzingLoader message={status || t.loading} hint={t.processingAudio} />
+            <AnalyzingLoader
+              message={loaderState.message}
+              hint={loaderState.hint}
+              progress={loaderState.progress}
+              onCancel={handleCancelAnalysis}
+              cancelLabel={t.cancelAnalysis}
+            />
           </div>
         ) : (
           <>
             <ActionButtons
-              canAnalyze={canAnalyze}
+              canAnalyze={queueMode ? queuePending > 0 && !queue.running && !limitReached : canAnalyze}
               canExport={canExport}
               exportLoading={exportLoading}
-              onAnalyze={handleAnalyze}
-              onExportWord={() => runExport("word")}
-              onExportPdf={() => runExport("pdf")}
+              onAnalyze={queueMode ? () => queue.start(outputLang) : handleAnalyze}
+              analyzeLabel={queuePending > 1 ? t.queueAnalyze.replace("{count}", String(queuePending)) : undefined}
+              onExport={runExport}
               t={t}
               used={used}
               limit={limit}
@@ -862,7 +1698,30 @@ export function NewMeeting() {
 
       {/* Results */}
       {tabs.length > 0 && (
-        <section ref={resultsRef} className="scroll-mt-8">
+        <section ref={resultsRef} className="scroll-mt-8 space-y-4">
+          {audioUrl && (
+            <div className="rounded-2xl border border-zinc-200/60 bg-white/80 px-6 py-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+              <p className="mb-3 flex items-center gap-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                <HiSpeakerWave className="h-5 w-5 text-indigo-500" />
+                {t.originalAudio}
+              </p>
+              <audio {...audioProps} controls preload="metadata" src={audioUrl} className="w-full" />
+            </div>
+          )}
+          {savedItem && !streaming && (
+            <MeetingDetails item={savedItem} onSave={handleSaveMetadata} disabled={!!draft} terms={NO_TERMS} t={t} />
+          )}
+          {!streaming && (
+            <EditToolbar
+              editing={!!draft}
+              edited={!!editedAt}
+              disabled={exportLoading || historySaving}
+              onEdit={() => result && setDraft(draftFromResult(result))}
+              onSave={handleSaveEdits}
+              onCancel={() => setDraft(null)}
+              t={t}
+            />
+          )}
           <Tabs tabs={tabs} activeId={activeTab} onChange={setActiveTab} aria-label="Result tabs" />
         </section>
       )}
@@ -1,5 +1,6 @@
 /**
- * Settings: Premium design with sections for language, theme, privacy, and history.
+ * Settings: Premium design with sections for language, theme, privacy,
+ * meeting audio, storage usage, and history.
  */
 
 import { useCallback, useState, useRef, useEffect } from "react";
@@ -7,9 +8,13 @@ import gsap from "gsap";
 import { useHistory } from "../hooks/useHistory";
 import { useI18n } from "../hooks/useI18n";
 import { useTheme } from "../hooks/useTheme";
-import { getOutputLanguage, setOutputLanguage } from "../lib/storage";
+import { getKeepAudio, getOutputLanguage, setKeepAudio, setOutputLanguage } from "../lib/storage";
+import { getStorageEstimate, type StorageEstimate } from "../lib/db";
+import { clearAudio, getAudioUsage, type AudioUsage } from "../lib/audioStore";
 import { OUTPUT_LANGUAGES } from "../lib/constants";
+import { formatBytes } from "../lib/format";
 import { Modal } from "../components/Modal";
+import { Toast } from "../components/Toast";
 import {
   HiCog6Tooth,
   HiLanguage,
@@ -18,6 +23,8 @@ import {
   HiShieldCheck,
   HiTrash,
   HiExclamationTriangle,
+  HiCircleStack,
+  HiSpeakerWave,
 } from "react-icons/hi2";
 
 const FLAGS: Record<string, string> = {
@@ -28,6 +35,11 @@ const FLAGS: Record<string, string> = {
   ar: "🇸🇦",
 };
 
+type ToastState = { type: "success" | "error"; message: string };
+
+/** Warn once usage passes this share of the quota */
+const STORAGE_WARNING_RATIO = 0.9;
+
 // Settings section wrapper
 function SettingsSection({ 
   children, 
@@ -68,6 +80,50 @@ export function SettingsPage() {
   const { clear, items } = useHistory();
   const [outputLang, setOutputLangState] = useState<string>(() => getOutputLanguage());
   const [showClearModal, setShowClearModal] = useState(false);
+  const [estimate, setEstimate] = useState<StorageEstimate | null | undefined>(undefined);
+  const [keepAudio, setKeepAudioState] = useState(() => getKeepAudio());
+  const [audioUsage, setAudioUsage] = useState<AudioUsage | null>(null);
+  const [showPurgeModal, setShowPurgeModal] = useState(false);
+  const [storageVersion, setStorageVersion] = useState(0);
+  const [toast, setToast] = useState<ToastState | null>(null);
+
+  // Re-measure whenever the history or stored audio changes
+  useEffect(() => {
+    let cancelled = false;
+    getStorageEstimate().then((value) => {
+      if (!cancelled) setEstimate(value);
+    });
+    getAudioUsage()
+      .then((value) => {
+        if (!cancelled) setAudioUsage(value);
+      })
+      .catch(() => {
+        if (!cancelled) setAudioUsage(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [items, storageVersion]);
+
+  const handleKeepAudio = useCallback(() => {
+    const next = !keepAudio;
+    setKeepAudioState(next);
+    setKeepAudio(next);
+  }, [keepAudio]);
+
+  const handlePurgeAudio = useCallback(async () => {
+    setShowPurgeModal(false);
+    try {
+      await clearAudio();
+    } catch (e) {
+      console.error("[Settings] Failed to delete stored audio:", e);
+      setToast({ type: "error", message: t.purgeAudioError });
+    } finally {
+      setStorageVersion((v) => v + 1);
+    }
+  }, [t.purgeAudioError]);
+
+  const usageRatio = estimate ? Math.min(1, estimate.usage / Math.max(estimate.quota, 1)) : 0;
 
   const handleOutputLang = useCallback((value: string) => {
     setOutputLangState(value);
@@ -203,8 +259,107 @@ export function SettingsPage() {
         </div>
       </SettingsSection>
 
-      {/* Danger Zone */}
+      {/* Meeting audio */}
       <SettingsSection delay={0.3}>
+        <div className="flex items-start gap-3">
+          <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-linear-to-br from-fuchsia-500 to-pink-600 text-white">
+            <HiSpeakerWave className="h-5 w-5" />
+          </span>
+          <div className="flex-1">
+            <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">{t.audioTitle}</h3>
+            <div className="mt-3 flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-zinc-800 dark:text-zinc-200">{t.keepAudio}</p>
+                <p className="mt-0.5 text-sm text-zinc-500 dark:text-zinc-400">{t.keepAudioDescription}</p>
+              </div>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={keepAudio}
+                aria-label={t.keepAudio}
+                onClick={handleKeepAudio}
+                className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer items-center rounded-full transition-colors duration-200 ${
+                  keepAudio ? "bg-linear-to-r from-indigo-500 to-violet-500" : "bg-zinc-200 dark:bg-zinc-700"
+                }`}
+              >
+                <span
+                  className={`inline-block h-5 w-5 rounded-full bg-white shadow transition-transform duration-200 ${
+                    keepAudio ? "translate-x-5.5 rtl:-translate-x-5.5" : "translate-x-0.5 rtl:-translate-x-0.5"
+                  }`}
+                />
+              </button>
+            </div>
+            <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                {t.audioUsage
+                  .replace("{count}", String(audioUsage?.count ?? 0))
+                  .replace("{size}", formatBytes(audioUsage?.bytes ?? 0))}
+              </p>
+              <button
+                type="button"
+                onClick={() => setShowPurgeModal(true)}
+                disabled={!audioUsage?.count}
+                className="inline-flex cursor-pointer items-center gap-2 rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-all duration-200 hover:border-red-300 hover:bg-red-50 hover:text-red-700 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:border-red-900/50 dark:hover:bg-red-950/30 dark:hover:text-red-300"
+              >
+                <HiTrash className="h-4 w-4" />
+                {t.purgeAudio}
+              </button>
+            </div>
+          </div>
+        </div>
+      </SettingsSection>
+
+      {/* Storage */}
+      <SettingsSection delay={0.4}>
+        <div className="flex items-start gap-3">
+          <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-linear-to-br from-sky-500 to-indigo-600 text-white">
+            <HiCircleStack className="h-5 w-5" />
+          </span>
+          <div className="flex-1">
+            <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">{t.storageTitle}</h3>
+            <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">{t.storageDescription}</p>
+            {estimate === null ? (
+              <p className="mt-4 text-sm text-zinc-500 dark:text-zinc-400">{t.storageUnavailable}</p>
+            ) : estimate ? (
+              <div className="mt-4 space-y-2">
+                <div
+                  className="h-2 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(usageRatio * 100)}
+                  aria-label={t.storageTitle}
+                >
+                  <div
+                    className={`h-full rounded-full transition-all duration-500 ${
+                      usageRatio >= STORAGE_WARNING_RATIO
+                        ? "bg-linear-to-r from-red-500 to-rose-600"
+                        : "bg-linear-to-r from-indigo-500 to-violet-500"
+                    }`}
+                    style={{ width: `${Math.max(usageRatio * 100, 1)}%` }}
+                  />
+                </div>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                  {t.storageUsage
+                    .replace("{used}", formatBytes(estimate.usage))
+                    .replace("{quota}", formatBytes(estimate.quota))}
+                  {" · "}
+                  {items.length} {items.length === 1 ? t.meetingSaved : t.meetingsSaved}
+                </p>
+                {usageRatio >= STORAGE_WARNING_RATIO && (
+                  <p className="flex items-center gap-2 text-sm font-medium text-red-600 dark:text-red-400">
+                    <HiExclamationTriangle className="h-4 w-4" />
+                    {t.storageAlmostFull}
+                  </p>
+                )}
+              </div>
+            ) : null}
+          </div>
+        </div>
+      </SettingsSection>
+
+      {/* Danger Zone */}
+      <SettingsSection delay={0.5}>
         <div className="flex items-start gap-3">
           <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-linear-to-br from-red-500 to-rose-600 text-white">
             <HiExclamationTriangle className="h-5 w-5" />
@@ -234,6 +389,20 @@ export function SettingsPage() {
         </div>
       </SettingsSection>
 
+      {/* Purge Audio Modal */}
+      {showPurgeModal && (
+        <Modal
+          title={t.purgeAudioConfirm}
+          cancelLabel={t.cancel}
+          confirmLabel={t.confirm}
+          confirmDanger
+          onCancel={() => setShowPurgeModal(false)}
+          onConfirm={handlePurgeAudio}
+        >
+          {t.purgeAudioConfirmBody}
+        </Modal>
+      )}
+
       {/* Clear History Modal */}
       {showClearModal && (
         <Modal
@@ -247,6 +416,8 @@ export function SettingsPage() {
           {t.clearHistoryConfirmBody}
         </Modal>
       )}
+
+      {toast && <Toast type={toast.type} message={toast.message} onDismiss={() => setToast(null)} />}
     </div>
   );
 }
@@ -0,0 +1,311 @@
+/**
+ * Tasks: action items from every saved meeting, with done/open status,
+ * due dates, owner grouping and a filter by meeting.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import gsap from "gsap";
+import { useHistory } from "../hooks/useHistory";
+import { useI18n } from "../hooks/useI18n";
+import { useNavigate } from "../lib/router";
+import {
+  DEFAULT_TASK_FILTERS,
+  collectTasks,
+  filterTasks,
+  groupTasksByOwner,
+  isOverdue,
+  patchTask,
+  type Task,
+  type TaskFilters,
+  type TaskStatusFilter,
+} from "../lib/tasks";
+import { localDay } from "../lib/historySearch";
+import { meetingTitle } from "../lib/meetingMetadata";
+import { Toast } from "../components/Toast";
+import {
+  HiArrowPath,
+  HiArrowTopRightOnSquare,
+  HiCheck,
+  HiClipboardDocumentCheck,
+  HiExclamationCircle,
+  HiUser,
+} from "react-icons/hi2";
+
+type ToastState = { type: "success" | "error"; message: string };
+
+const CONTROL_CLASSES =
+  "cursor-pointer rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-700 transition-colors hover:border-indigo-300 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:border-indigo-600";
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { dateStyle: "medium" });
+}
+
+function TaskRow({
+  task,
+  today,
+  onChange,
+  onOpenMeeting,
+  t,
+}: {
+  task: Task;
+  today: string;
+  onChange: (patch: Pick<Task["item"], "done" | "dueDate">) => void;
+  onOpenMeeting: () => void;
+  t: ReturnType<typeof useI18n>["t"];
+}) {
+  const { item, meeting } = task;
+  const overdue = isOverdue(item, today);
+
+  return (
+    <li className="flex flex-wrap items-center gap-3 rounded-xl border border-zinc-200/60 bg-white/80 p-4 dark:border-zinc-800/60 dark:bg-zinc-900/80">
+      <button
+        type="button"
+        role="checkbox"
+        aria-checked={!!item.done}
+        onClick={() => onChange({ done: !item.done })}
+        aria-label={item.done ? t.tasksMarkOpen : t.tasksMarkDone}
+        className={`flex h-6 w-6 shrink-0 cursor-pointer items-center justify-center rounded-md border-2 transition-colors ${
+          item.done
+            ? "border-emerald-500 bg-emerald-500 text-white"
+            : "border-zinc-300 text-transparent hover:border-emerald-400 dark:border-zinc-600"
+        }`}
+      >
+        <HiCheck className="h-4 w-4" />
+      </button>
+
+      <div className="min-w-0 flex-1 basis-64">
+        <p
+          className={`text-sm ${
+            item.done ? "text-zinc-400 line-through dark:text-zinc-500" : "text-zinc-800 dark:text-zinc-200"
+          }`}
+        >
+          {item.description}
+        </p>
+        <button
+          type="button"
+          onClick={onOpenMeeting}
+          className="mt-1 inline-flex max-w-full cursor-pointer items-center gap-1 text-xs text-zinc-500 transition-colors hover:text-indigo-600 dark:text-zinc-400 dark:hover:text-indigo-400"
+          title={t.tasksOpenMeeting}
+        >
+          <span className="truncate">
+            {meetingTitle(meeting)} · {formatDate(meeting.createdAt)}
+          </span>
+          <HiArrowTopRightOnSquare className="h-3.5 w-3.5 shrink-0" />
+        </button>
+      </div>
+
+      <div className="flex shrink-0 items-center gap-2">
+        {overdue && (
+          <span className="rounded-md bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700 dark:bg-red-900/30 dark:text-red-300">
+            {t.tasksOverdue}
+          </span>
+        )}
+        <input
+          type="date"
+          value={item.dueDate ?? ""}
+          onChange={(e) => onChange({ dueDate: e.target.value || null })}
+          aria-label={t.tasksDueDate}
+          className={`${CONTROL_CLASSES} py-1.5`}
+        />
+      </div>
+    </li>
+  );
+}
+
+function TasksEmpty({ t }: { t: ReturnType<typeof useI18n>["t"] }) {
+  const emptyRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    if (prefersReducedMotion) return;
+
+    const el = emptyRef.current;
+    if (el) {
+      gsap.fromTo(
+        el,
+        { opacity: 0, scale: 0.95 },
+        { opacity: 1, scale: 1, duration: 0.5, ease: "power2.out" }
+      );
+    }
+  }, []);
+
+  return (
+    <div
+      ref={emptyRef}
+      className="flex flex-col items-center justify-center rounded-2xl border border-zinc-200/60 bg-white/80 py-20 text-center shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80"
+    >
+      <span className="flex h-20 w-20 items-center justify-center rounded-2xl bg-zinc-100 text-zinc-300 dark:bg-zinc-800 dark:text-zinc-600">
+        <HiClipboardDocumentCheck className="h-10 w-10" />
+      </span>
+      <p className="mt-4 text-lg font-medium text-zinc-600 dark:text-zinc-400">{t.tasksEmpty}</p>
+      <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-500">{t.tasksEmptyHint}</p>
+    </div>
+  );
+}
+
+export function TasksPage() {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const { items, loading, loadError, refresh, update } = useHistory();
+  const [filters, setFilters] = useState<TaskFilters>(DEFAULT_TASK_FILTERS);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const today = localDay(new Date());
+  const tasks = useMemo(() => collectTasks(items), [items]);
+  const visible = useMemo(() => filterTasks(tasks, filters), [tasks, filters]);
+  const groups = useMemo(
+    () => (filters.groupByOwner ? groupTasksByOwner(visible) : [{ owner: "", tasks: visible }]),
+    [visible, filters.groupByOwner]
+  );
+  const doneCount = tasks.filter((task) => task.item.done).length;
+  const meetings = items.filter((item) => item.actionItems.length > 0);
+
+  useEffect(() => {
+    const prefersReducedMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    if (prefersReducedMotion || loading) return;
+
+    const el = listRef.current;
+    if (el) {
+      gsap.fromTo(el, { opacity: 0, y: 16 }, { opacity: 1, y: 0, duration: 0.4, ease: "power2.out" });
+    }
+  }, [loading]);
+
+  const handleChange = useCallback(
+    async (task: Task, patch: Pick<Task["item"], "done" | "dueDate">) => {
+      const result = await update(task.meeting.id, (meeting) => ({ actionItems: patchTask(meeting, task, patch) }));
+      if (result !== "saved") {
+        setToast({ type: "error", message: result === "unsupported" ? t.meetingEditsUnsupported : t.tasksSaveError });
+      }
+    },
+    [update, t.tasksSaveError, t.meetingEditsUnsupported]
+  );
+
+  const openMeeting = useCallback(
+    (id: string) => navigate(`/app/history?meeting=${encodeURIComponent(id)}`),
+    [navigate]
+  );
+
+  const setFilter = <K extends keyof TaskFilters>(key: K, value: TaskFilters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <span className="flex h-10 w-10 items-center justify-center rounded-xl bg-linear-to-br from-indigo-500 to-violet-600 text-white">
+          <HiClipboardDocumentCheck className="h-5 w-5" />
+        </span>
+        <div>
+          <h2 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100">{t.tasksTitle}</h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            {t.tasksSummary
+              .replace("{open}", String(tasks.length - doneCount))
+              .replace("{done}", String(doneCount))}
+          </p>
+        </div>
+      </div>
+
+      {loadError !== null && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-900/50 dark:bg-red-950/30">
+          <div className="flex items-center gap-3">
+            <HiExclamationCircle className="h-5 w-5 shrink-0 text-red-600 dark:text-red-400" />
+            <p className="text-sm font-medium text-red-700 dark:text-red-300">{t.historyLoadError}</p>
+          </div>
+          <button
+            type="button"
+            onClick={refresh}
+            className="inline-flex cursor-pointer items-center gap-2 rounded-xl border border-red-200 bg-white px-4 py-2 text-sm font-medium text-red-700 transition-colors hover:bg-red-100 dark:border-red-900/50 dark:bg-red-950/40 dark:text-red-300 dark:hover:bg-red-900/40"
+          >
+            <HiArrowPath className="h-4 w-4" />
+            {t.retry}
+          </button>
+        </div>
+      )}
+
+      {loading && items.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-2xl border border-zinc-200/60 bg-white/80 py-20 text-center shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+          <span className="h-8 w-8 animate-spin rounded-full border-2 border-indigo-500 border-t-transparent" />
+          <p className="mt-4 text-sm text-zinc-500 dark:text-zinc-400">{t.historyLoading}</p>
+        </div>
+      ) : tasks.length === 0 ? (
+        loadError === null && <TasksEmpty t={t} />
+      ) : (
+        <>
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-zinc-200/60 bg-white/80 p-4 shadow-sm backdrop-blur-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+            <select
+              value={filters.status}
+              onChange={(e) => setFilter("status", e.target.value as TaskStatusFilter)}
+              aria-label={t.tasksStatus}
+              className={CONTROL_CLASSES}
+            >
+              <option value="open">{t.tasksStatusOpen}</option>
+              <option value="done">{t.tasksStatusDone}</option>
+              <option value="all">{t.tasksStatusAll}</option>
+            </select>
+            <select
+              value={filters.meeting}
+              onChange={(e) => setFilter("meeting", e.target.value)}
+              aria-label={t.tasksMeeting}
+              className={`${CONTROL_CLASSES} max-w-xs`}
+            >
+              <option value="all">{t.tasksAllMeetings}</option>
+              {meetings.map((meeting) => (
+                <option key={meeting.id} value={meeting.id}>
+                  {meetingTitle(meeting)} · {formatDate(meeting.createdAt)}
+                </option>
+              ))}
+            </select>
+            <label className="flex cursor-pointer items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+              <input
+                type="checkbox"
+                checked={filters.groupByOwner}
+                onChange={(e) => setFilter("groupByOwner", e.target.checked)}
+                className="h-4 w-4 cursor-pointer rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500 dark:border-zinc-600"
+              />
+              {t.tasksGroupByOwner}
+            </label>
+          </div>
+
+          {visible.length === 0 ? (
+            <div className="rounded-2xl border border-zinc-200/60 bg-white/80 py-16 text-center shadow-sm dark:border-zinc-800/60 dark:bg-zinc-900/80">
+              <p className="text-base font-medium text-zinc-600 dark:text-zinc-400">{t.tasksNoMatches}</p>
+            </div>
+          ) : (
+            <div ref={listRef} className="space-y-6">
+              {groups.map((group) => (
+                <section key={group.owner || "unassigned"}>
+                  {filters.groupByOwner && (
+                    <h3 className="mb-3 flex items-center gap-2 font-semibold text-zinc-800 dark:text-zinc-200">
+                      <HiUser className="h-4 w-4 text-violet-500" />
+                      {group.owner || t.ownerUnassigned}
+                      <span className="rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-medium text-zinc-500 dark:bg-zinc-800 dark:text-zinc-400">
+                        {group.tasks.length}
+                      </span>
+                    </h3>
+                  )}
+                  <ul className="space-y-2">
+                    {group.tasks.map((task) => (
+                      <TaskRow
+                        key={`${task.meeting.id}:${task.index}`}
+                        task={task}
+                        today={today}
+                        onChange={(patch) => handleChange(task, patch)}
+                        onOpenMeeting={() => openMeeting(task.meeting.id)}
+                        t={t}
+                      />
+                    ))}
+                  </ul>
+                </section>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Toast */}
+      {toast && <Toast type={toast.type} message={toast.message} onDismiss={() => setToast(null)} />}
+    </div>
+  );
+}
@@ -20,6 +20,19 @@ interface ImportMetaEnv {
    * Values: "development" | "production"
    */
   readonly VITE_APP_ENV: "development" | "production";
+
+  /**
+   * Optional upload limits checked before sending a file.
+   * Defaults: 200 MB and 180 minutes.
+   */
+  readonly VITE_MAX_UPLOAD_MB?: string;
+  readonly VITE_MAX_AUDIO_MINUTES?: string;
+
+  /**
+   * Optional WebSocket URL for live transcription while recording, e.g. a
+   * local mock server. Defaults to `transcribe/live` on the API base URL.
+   */
+  readonly VITE_LIVE_TRANSCRIPTION_URL?: string;
 }
 
 interface ImportMeta {